@@ -0,0 +1,21 @@
+// Права доступа к командам бота
+// Администраторы бота задаются через BOT_ADMIN_IDS (Telegram ID через запятую).
+// Это именно администраторы бота, а не конкретного чата: режимы, которые читают
+// сообщения из нескольких групп, не должны быть доступны админу одной группы
+
+/**
+ * Получить список Telegram ID администраторов бота
+ */
+export function getBotAdminIds(): number[] {
+  return (process.env.BOT_ADMIN_IDS || '')
+    .split(',')
+    .map((item) => parseInt(item.trim(), 10))
+    .filter((id) => !Number.isNaN(id));
+}
+
+/**
+ * Является ли пользователь администратором бота
+ */
+export function isBotAdmin(telegramId: number | undefined): boolean {
+  return telegramId !== undefined && getBotAdminIds().includes(telegramId);
+}
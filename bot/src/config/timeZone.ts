@@ -0,0 +1,37 @@
+// Часовой пояс чатов по умолчанию
+// DEFAULT_TIMEZONE - IANA-имя (Europe/Moscow, Asia/Dushanbe); без него - пояс процесса (в Docker это UTC).
+// Свой пояс чат выбирает командой /timezone, он хранится в chats.settings.timezone
+
+/**
+ * Известен ли Intl такой часовой пояс (IANA-имя: Europe/Moscow, Asia/Dushanbe, UTC)
+ */
+export function isValidTimeZone(name: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Каноническое имя пояса без учёта регистра: "europe/moscow" -> "Europe/Moscow", null - неизвестный пояс
+ */
+export function normalizeTimeZone(name: string): string | null {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: name.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Часовой пояс для чатов без своей настройки
+ */
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEFAULT_TIMEZONE?.trim();
+  if (configured && isValidTimeZone(configured)) {
+    return configured;
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
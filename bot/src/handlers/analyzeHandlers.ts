@@ -1,13 +1,22 @@
 import { Context } from 'telegraf';
-import { GeminiService } from '../services/geminiService';
-import { DeepSeekService } from '../services/deepseekService';
-import { QwenService } from '../services/qwenService';
+import { AnalysisService, UserAnalysis } from '../services/analysisService';
+import { describeLLMError, LLMError } from '../services/llm/errors';
+import { getLLMProviderLabel } from '../config/llm';
+import { isBotAdmin } from '../config/access';
 import { User } from '../models/User';
+import { Chat } from '../models/Chat';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { parseWindowArgs, WindowArgs } from '../services/periodParser';
 
 /**
  * Форматирование результата анализа для вывода
  */
-function formatAnalysisResult(analysis: Awaited<ReturnType<typeof GeminiService.analyzeUser>>, username: string | null, firstName: string | null): string {
+function formatAnalysisResult(
+  analysis: UserAnalysis | null,
+  username: string | null,
+  firstName: string | null,
+  allChats: boolean = false,
+): string {
   if (!analysis) {
     return '❌ Пользователь не найден в базе данных.';
   }
@@ -21,14 +30,88 @@ function formatAnalysisResult(analysis: Awaited<ReturnType<typeof GeminiService.
   message += `⏰ Активность: ${analysis.activity}\n`;
   message += `😊 Тональность: ${analysis.tone}\n`;
   message += `✨ Особенности: ${analysis.features}\n\n`;
-  message += `📊 На основе ${analysis.messageCount} сообщений за ${analysis.period}.`;
+  message += `📊 На основе ${analysis.messageCount} сообщений за ${analysis.period}`;
+  message += allChats ? ' во всех чатах.' : ' в этом чате.';
 
   return message;
 }
 
+// Результат определения пользователя из команды
+export type TargetUser = { telegramId: number } | { missingUsername: string } | null;
+
+/**
+ * Определить пользователя, о котором команда:
+ * reply на сообщение → @username в тексте → отправитель команды
+ * Используется в /analyze и /history
+ */
+export async function resolveTargetUser(
+  message: { text: string; reply_to_message?: unknown },
+  fromId: number | undefined,
+): Promise<TargetUser> {
+  // Проверяем, есть ли reply на сообщение
+  const reply = message.reply_to_message as { from?: { id: number } } | undefined;
+  if (reply?.from) {
+    console.log(`📎 Команда по reply на сообщение от пользователя ${reply.from.id}`);
+    return { telegramId: reply.from.id };
+  }
+
+  // Пытаемся извлечь username из команды
+  const match = message.text.match(/@(\w+)/);
+  if (match) {
+    const username = match[1];
+    console.log(`🔍 Поиск пользователя по username: @${username}`);
+
+    const user = await User.findByUsername(username);
+    return user ? { telegramId: user.telegram_id } : { missingUsername: username };
+  }
+
+  // Если username не указан и нет reply - используем отправителя команды
+  console.log(`👤 Команда для отправителя: ${fromId}`);
+  return fromId ? { telegramId: fromId } : null;
+}
+
+/**
+ * Запрошен ли режим "все чаты": /analyze @username all
+ */
+export function isAllChatsMode(text: string): boolean {
+  return text
+    .split(/\s+/)
+    .slice(1)
+    .some((token) => ['all', 'все', '--all'].includes(token.toLowerCase()));
+}
+
+/**
+ * Аргументы окна анализа из текста команды: период и last:N
+ * @username и токены режима "все чаты" пропускаются; периоды - в часовом поясе чата
+ */
+export function parseAnalyzeWindow(
+  text: string,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone(),
+): WindowArgs {
+  const tokens = text
+    .split(/\s+/)
+    .slice(1)
+    .filter((token) => token && !token.startsWith('@') && !['all', 'все', '--all'].includes(token.toLowerCase()));
+  return parseWindowArgs(tokens, now, timeZone);
+}
+
+const ANALYZE_USAGE =
+  'Использование:\n' +
+  '• /analyze @username - анализ по username\n' +
+  '• /analyze (reply на сообщение) - анализ пользователя из сообщения\n' +
+  '• /analyze - анализ вашего профиля\n' +
+  '• /analyze @username week - за период: today, yesterday, week, month или 2026-09-01..2026-09-30\n' +
+  `• /analyze @username last:200 - по последним N сообщениям (до ${AnalysisService.MAX_MESSAGES})\n` +
+  '• /analyze @username all - по всем чатам (только админы бота, в личном чате с ботом)';
+
 /**
  * Обработчик команды /analyze
  * Использование: /analyze @username или /analyze (reply на сообщение)
+ * По умолчанию анализируются только сообщения из текущего чата;
+ * /analyze @username all - по всем чатам (только для администраторов бота и только в личном чате с ботом,
+ * чтобы сообщения из других групп не попадали в группу, где набрана команда)
+ * Окно: период (week, 2026-09-01..2026-09-30) и/или last:N
  */
 export async function handleAnalyzeCommand(ctx: Context) {
   try {
@@ -39,43 +122,45 @@ export async function handleAnalyzeCommand(ctx: Context) {
       return;
     }
 
-    let targetUserId: number | undefined;
-
-    // Проверяем, есть ли reply на сообщение
-    const message = ctx.message;
-    if ('reply_to_message' in message && message.reply_to_message && 'from' in message.reply_to_message && message.reply_to_message.from) {
-      targetUserId = message.reply_to_message.from.id;
-      console.log(`📎 Анализ по reply на сообщение от пользователя ${targetUserId}`);
-    } else {
-      // Пытаемся извлечь username из команды
-      const text = message.text;
-      const match = text.match(/@(\w+)/);
-      
-      if (match) {
-        const username = match[1];
-        console.log(`🔍 Поиск пользователя по username: @${username}`);
-        
-        const user = await User.findByUsername(username);
-        if (user) {
-          targetUserId = user.telegram_id;
-        } else {
-          await ctx.reply(`❌ Пользователь @${username} не найден в базе данных.`);
-          return;
-        }
-      } else {
-        // Если username не указан и нет reply - используем отправителя команды
-        targetUserId = ctx.from?.id;
-        console.log(`👤 Анализ отправителя команды: ${targetUserId}`);
-      }
+    // Определяем область анализа: текущий чат или (для админов) все чаты
+    const allChats = isAllChatsMode(ctx.message.text);
+    if (allChats && !isBotAdmin(ctx.from?.id)) {
+      await ctx.reply('⛔ Анализ по всем чатам доступен только администраторам бота.');
+      return;
+    }
+    if (allChats && ctx.chat?.type !== 'private') {
+      await ctx.reply('⛔ Анализ по всем чатам показывает сообщения из других групп - запросите его в личном чате с ботом.');
+      return;
+    }
+    const isGroup = ctx.chat?.type === 'group' || ctx.chat?.type === 'supergroup';
+    if (!allChats && !isGroup) {
+      await ctx.reply('❌ Анализ доступен только в групповых чатах: учитываются сообщения из текущей группы.');
+      return;
+    }
+    const scopeChatId = allChats ? null : ctx.chat!.id;
+
+    // По всем чатам - в поясе по умолчанию, иначе - в поясе текущего чата
+    const timeZone = scopeChatId === null ? getDefaultTimeZone() : await Chat.getTimeZone(scopeChatId);
+    const analysisWindow = parseAnalyzeWindow(ctx.message.text, new Date(), timeZone);
+    if (analysisWindow.errors.length > 0 || analysisWindow.unknown.length > 0) {
+      const problems = [
+        ...analysisWindow.errors,
+        ...analysisWindow.unknown.map((token) => `Непонятный параметр: ${token}`),
+      ];
+      await ctx.reply(`❌ ${problems.join('\n')}\n\n${ANALYZE_USAGE}`);
+      return;
+    }
+
+    const target = await resolveTargetUser(ctx.message, ctx.from?.id);
+    if (target && 'missingUsername' in target) {
+      await ctx.reply(`❌ Пользователь @${target.missingUsername} не найден в базе данных.`);
+      return;
     }
+    const targetUserId = target?.telegramId;
 
     if (!targetUserId) {
       await ctx.reply(
-        '❌ Не удалось определить пользователя для анализа.\n\n' +
-        'Использование:\n' +
-        '• /analyze @username - анализ по username\n' +
-        '• /analyze (reply на сообщение) - анализ пользователя из сообщения\n' +
-        '• /analyze - анализ вашего профиля'
+        `❌ Не удалось определить пользователя для анализа.\n\n${ANALYZE_USAGE}`
       );
       return;
     }
@@ -96,99 +181,29 @@ export async function handleAnalyzeCommand(ctx: Context) {
         return;
       }
 
-      // Выполняем анализ (ограничиваем до 30 сообщений для более стабильной работы бесплатного API)
-      // Порядок приоритета: DeepSeek → Qwen → Gemini
-      let analysis = null;
-      let usedService = '';
-
-      type Provider = 'DeepSeek' | 'Qwen' | 'Gemini';
-      const providers: Provider[] = ['DeepSeek', 'Qwen', 'Gemini'];
-      let lastError: Error | null = null;
-      let deepseekInsufficient = false;
-
-      for (const provider of providers) {
-        try {
-          if (provider === 'DeepSeek') {
-            const isAvailable = DeepSeekService.isAvailable();
-            console.log(`🔍 DeepSeek доступен: ${isAvailable}`);
-            if (!isAvailable) {
-              console.log('⏭️ Пропускаю DeepSeek (недоступен)');
-              continue;
-            }
-            console.log('🔄 Пробую DeepSeek API...');
-            analysis = await DeepSeekService.analyzeUser(targetUserId, { limit: 30 });
-            usedService = 'DeepSeek';
-            console.log('✅ DeepSeek API успешно выполнил анализ');
-            break;
-          }
-
-          if (provider === 'Qwen') {
-            const isAvailable = QwenService.isAvailable();
-            console.log(`🔍 Qwen доступен: ${isAvailable}`);
-            console.log(`🔍 DASHSCOPE_API_KEY установлен: ${!!process.env.DASHSCOPE_API_KEY}`);
-            if (!isAvailable) {
-              console.log('⏭️ Пропускаю Qwen (недоступен - DASHSCOPE_API_KEY не установлен)');
-              continue;
-            }
-            console.log('🔄 Пробую Qwen API...');
-            analysis = await QwenService.analyzeUser(targetUserId, { limit: 30 });
-            usedService = 'Qwen';
-            console.log('✅ Qwen API успешно выполнил анализ');
-            break;
-          }
-
-          if (provider === 'Gemini') {
-            const isAvailable = GeminiService.isAvailable();
-            console.log(`🔍 Gemini доступен: ${isAvailable}`);
-            if (!isAvailable) {
-              console.log('⏭️ Пропускаю Gemini (недоступен)');
-              continue;
-            }
-            console.log('🔄 Пробую Gemini API...');
-            analysis = await GeminiService.analyzeUser(targetUserId, { limit: 30 });
-            usedService = 'Gemini';
-            console.log('✅ Gemini API успешно выполнил анализ');
-            break;
-          }
-        } catch (err: any) {
-          const error = err instanceof Error ? err : new Error(String(err));
-          lastError = error;
-          console.error(`❌ ${provider} API не сработал:`, error.message);
-          if (provider === 'DeepSeek' && error.message.includes('INSUFFICIENT_BALANCE')) {
-            deepseekInsufficient = true;
-          }
-        }
-      }
+      // Выполняем анализ: LLMService сам перебирает провайдеров в порядке LLM_PROVIDER_ORDER
+      const result = await AnalysisService.analyzeUser(targetUserId, {
+        chatId: scopeChatId,
+        period: analysisWindow.period,
+        limit: analysisWindow.limit,
+      });
 
-      if (!analysis) {
-        if (deepseekInsufficient && !QwenService.isAvailable() && !GeminiService.isAvailable()) {
-          throw new Error(
-            'DeepSeek API: недостаточно средств на счету. Альтернативные API (Qwen / Gemini) недоступны.',
-          );
-        }
-        if (lastError) {
-          throw lastError;
-        }
-        throw new Error(
-          'Ни один LLM‑провайдер не смог выполнить анализ. Проверьте настройки ключей API.',
-        );
-      }
-
-      if (!analysis) {
+      if (!result) {
         await ctx.telegram.editMessageText(
           ctx.chat!.id,
           processingMessage.message_id,
           undefined,
-          '❌ Не удалось выполнить анализ пользователя. Проверьте настройки API.'
+          '❌ Пользователь не найден в базе данных.'
         );
         return;
       }
 
-      console.log(`✅ Анализ выполнен через ${usedService} API`);
-
       // Форматируем и отправляем результат
-      const resultText = formatAnalysisResult(analysis, user.username, user.first_name);
-      const finalText = `${resultText}\n\n🤖 Анализ выполнен через ${usedService} API`;
+      const resultText = formatAnalysisResult(result.analysis, user.username, user.first_name, allChats);
+      const finalText = result.provider
+        ? `${resultText}\n\n🤖 Анализ выполнен через ${getLLMProviderLabel(result.provider)} API`
+        : resultText;
+      console.log(`✅ Анализ выполнен через ${result.provider ?? '—'} (модель: ${result.model ?? '—'})`);
       await ctx.telegram.editMessageText(
         ctx.chat!.id,
         processingMessage.message_id,
@@ -201,17 +216,12 @@ export async function handleAnalyzeCommand(ctx: Context) {
       console.error('  - Сообщение:', error.message);
       console.error('  - Stack:', error.stack);
       
-      let errorMessage = '❌ Произошла ошибка при анализе пользователя.';
-      
-      // Более информативные сообщения об ошибках
-      if (error.message && error.message.includes('лимит')) {
-        errorMessage = '⚠️ Превышен лимит запросов к API. Подождите минуту и попробуйте снова.';
-      } else if (error.message && error.message.includes('слишком большой')) {
-        errorMessage = '⚠️ Слишком много данных для анализа. Попробуйте пользователя с меньшим количеством сообщений.';
-      } else if (error.message && error.message.includes('API ключ')) {
-        errorMessage = '⚠️ Проблема с доступом к API. Проверьте настройки.';
-      }
-      
+      // Понятное сообщение по единой таксономии ошибок LLM
+      const errorMessage =
+        error instanceof LLMError
+          ? `⚠️ ${describeLLMError(error)}`
+          : '❌ Произошла ошибка при анализе пользователя.';
+
       await ctx.telegram.editMessageText(
         ctx.chat!.id,
         processingMessage.message_id,
@@ -1,6 +1,153 @@
-import { Context } from 'telegraf';
-import { DigestService } from '../services/digestService';
+import { Context, Markup } from 'telegraf';
+import { ChatDigestResult, ChatDigestRun, DigestActionItem, DigestService } from '../services/digestService';
+import { DigestScheduler } from '../services/digestScheduler';
+import { DigestSchedule } from '../models/DigestSchedule';
+import { describeLLMError, LLMError } from '../services/llm/errors';
+import { isBotAdmin } from '../config/access';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { getLLMProviderLabel, LLMProviderId } from '../config/llm';
+import { formatDate, parseIsoDate, ParsedPeriod, parsePeriod } from '../services/periodParser';
+import { DigestData } from '../models/Digest';
+import { Chat } from '../models/Chat';
 
+// Токены, которые заставляют пересобрать дайджест закрытого периода
+const REFRESH_TOKENS = ['refresh', '--refresh', 'обновить'];
+
+const DIGEST_USAGE =
+  'Использование:\n' +
+  '• /digest - дайджест за сегодня\n' +
+  '• /digest yesterday - за вчера\n' +
+  '• /digest week - итоги последних 7 дней\n' +
+  '• /digest month - итоги последнего месяца\n' +
+  '• /digest 2026-10-01..2026-10-07 - за диапазон дат\n' +
+  '• /digest yesterday refresh - пересобрать сохранённый дайджест';
+
+/**
+ * Ссылка на сообщение: t.me/c/... работает только для супергрупп (chat_id вида -100...)
+ */
+function getMessageLink(chatId: number, messageId: number): string | null {
+  const id = String(chatId);
+  return id.startsWith('-100') ? `https://t.me/c/${id.slice(4)}/${messageId}` : null;
+}
+
+/**
+ * Ответственный и срок задачи: " — @ivan · до 21.10.2026"
+ * Подчёркивания в username экранируются, иначе Markdown Telegram ломается
+ */
+function formatTaskMeta(assigneeName: string | null, dueDate: string | null): string {
+  let meta = '';
+  if (assigneeName) {
+    meta += ` — ${assigneeName.replace(/_/g, '\\_')}`;
+  }
+  if (dueDate) {
+    const due = parseIsoDate(dueDate);
+    meta += ` · до ${due ? formatDate(due) : dueDate}`;
+  }
+  return meta;
+}
+
+/**
+ * Строка задачи: текст, ответственный, срок и ссылка на исходное сообщение
+ */
+function formatActionItem(item: DigestActionItem, chatId?: number): string {
+  let line = `• ${item.text}${formatTaskMeta(item.assignee?.name ?? null, item.dueDate)}`;
+  if (item.sourceMessageId) {
+    const link = chatId !== undefined ? getMessageLink(chatId, item.sourceMessageId) : null;
+    line += link ? ` ([#${item.sourceMessageId}](${link}))` : ` (#${item.sourceMessageId})`;
+  }
+  return line;
+}
+
+/**
+ * Форматирование дайджеста для отправки в чат (Markdown)
+ * Используется и в /digest, и в дайджесте по расписанию
+ * chatId нужен для ссылок на исходные сообщения задач
+ */
+export function formatDigestMessage(digest: ChatDigestResult, periodLabel: string, chatId?: number): string {
+  return (
+    `🧾 Дайджест чата за ${periodLabel}\n\n` +
+    `📝 *Краткий пересказ*\n${digest.summary}\n\n` +
+    `✅ *Action items*\n` +
+    (digest.actionItems.length
+      ? digest.actionItems.map((item) => formatActionItem(item, chatId)).join('\n')
+      : '• Нет явных задач.') +
+    (digest.openTasks.length
+      ? `\n\n📌 *Ещё открыты*\n` +
+        digest.openTasks.map((task) => `• ${task.text}${formatTaskMeta(task.assigneeName, task.dueDate)}`).join('\n') +
+        `\nОтметить выполненные: /tasks`
+      : '') +
+    `\n\n` +
+    `🔍 *Контекст*\n` +
+    `• Темы: ${digest.topics}\n` +
+    `• Тон: ${digest.tone}`
+  );
+}
+
+/**
+ * Период дайджеста из текста команды (по умолчанию - сегодня)
+ * Возвращает строку с ошибкой, если период не распознан
+ */
+export function parseDigestPeriod(
+  text: string,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone(),
+): ParsedPeriod | string {
+  const token = text
+    .split(/\s+/)
+    .slice(1)
+    .find((part) => part && !REFRESH_TOKENS.includes(part.toLowerCase()));
+  if (!token) {
+    return parsePeriod('today', now, timeZone)!;
+  }
+  try {
+    return parsePeriod(token, now, timeZone) ?? `Непонятный период: ${token}`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Запрошено ли пересоздание дайджеста: /digest yesterday refresh
+ */
+export function isRefreshRequested(text: string): boolean {
+  return text
+    .split(/\s+/)
+    .slice(1)
+    .some((part) => REFRESH_TOKENS.includes(part.toLowerCase()));
+}
+
+/**
+ * Дата и время в формате ДД.ММ.ГГГГ ЧЧ:ММ по часам чата
+ */
+function formatDateTime(date: Date, timeZone: string): string {
+  return new Date(date).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+}
+
+/**
+ * Подпись под дайджестом: из архива или только что сформирован
+ */
+function formatDigestFooter(run: ChatDigestRun, period: ParsedPeriod, timeZone: string): string {
+  const provider = run.provider ? getLLMProviderLabel(run.provider) : '—';
+  if (run.cached) {
+    return (
+      `\n\n🗄 Из архива: сформирован ${formatDateTime(run.createdAt, timeZone)} через ${provider} ` +
+      `по ${run.messageCount} сообщениям.\nОбновить: /digest ${period.key} refresh`
+    );
+  }
+  return `\n\n🤖 Сформирован через ${provider} API по ${run.messageCount} сообщениям`;
+}
+
+/**
+ * Обработчик команды /digest
+ * /digest [yesterday | week | month | YYYY-MM-DD..YYYY-MM-DD] [refresh]
+ */
 export async function handleDigestCommand(ctx: Context) {
   try {
     if (!ctx.chat || (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup')) {
@@ -15,34 +162,39 @@ export async function handleDigestCommand(ctx: Context) {
       `🧾 Команда /digest получена от пользователя ${from?.id} в чате ${chatId} (тип: ${ctx.chat.type})`,
     );
 
+    const commandText = ctx.message && 'text' in ctx.message ? ctx.message.text : '/digest';
+    const timeZone = await Chat.getTimeZone(chatId);
+    const period = parseDigestPeriod(commandText, new Date(), timeZone);
+    if (typeof period === 'string') {
+      await ctx.reply(`❌ ${period}\n\n${DIGEST_USAGE}`);
+      return;
+    }
+
     const message = await ctx.reply(
-      '⏳ Собираю сообщения за сегодня и готовлю дайджест… Это может занять до 10–15 секунд.',
+      DigestService.isLongPeriod(period)
+        ? `⏳ Собираю сообщения за ${period.label} и подвожу итоги… Для длинного периода это может занять около минуты.`
+        : `⏳ Собираю сообщения за ${period.label} и готовлю дайджест… Это может занять до 10–15 секунд.`,
     );
 
     try {
-      const digest = await DigestService.generateDigest({ chatId, period: 'today' });
+      const result = await DigestService.generateDigest({
+        chatId,
+        period,
+        refresh: isRefreshRequested(commandText),
+        timeZone,
+      });
 
-      if (!digest) {
+      if (!result) {
         await ctx.telegram.editMessageText(
           ctx.chat.id,
           message.message_id,
           undefined,
-          '📭 За сегодня пока нет сообщений для дайджеста.',
+          `📭 За ${period.label} нет сообщений для дайджеста.`,
         );
         return;
       }
 
-      const text =
-        `🧾 Дайджест чата за сегодня\n\n` +
-        `📝 *Краткий пересказ*\n${digest.summary}\n\n` +
-        `✅ *Action items*\n` +
-        (digest.actionItems.length
-          ? digest.actionItems.map((item) => `• ${item}`).join('\n')
-          : '• Нет явных задач.') +
-        `\n\n` +
-        `🔍 *Контекст*\n` +
-        `• Темы: ${digest.topics}\n` +
-        `• Тон: ${digest.tone}`;
+      const text = formatDigestMessage(result.digest, period.label, chatId) + formatDigestFooter(result, period, timeZone);
 
       await ctx.telegram.editMessageText(ctx.chat.id, message.message_id, undefined, text, {
         parse_mode: 'Markdown',
@@ -53,7 +205,9 @@ export async function handleDigestCommand(ctx: Context) {
         ctx.chat.id,
         message.message_id,
         undefined,
-        '❌ Не удалось сформировать дайджест. Попробуйте позже.',
+        error instanceof LLMError
+          ? `❌ Не удалось сформировать дайджест. ${describeLLMError(error)}`
+          : '❌ Не удалось сформировать дайджест. Попробуйте позже.',
       );
     }
   } catch (error) {
@@ -64,3 +218,172 @@ export async function handleDigestCommand(ctx: Context) {
   }
 }
 
+/**
+ * Может ли пользователь менять настройки чата: администратор группы или бота
+ */
+export async function canManageChat(ctx: Context): Promise<boolean> {
+  if (!ctx.from) {
+    return false;
+  }
+  if (isBotAdmin(ctx.from.id)) {
+    return true;
+  }
+  const member = await ctx.getChatMember(ctx.from.id);
+  return member.status === 'creator' || member.status === 'administrator';
+}
+
+/**
+ * Обработчик команды /digest_schedule
+ * /digest_schedule 21:00 - присылать дайджест каждый день в 21:00 (по часовому поясу чата, см. /timezone)
+ * /digest_schedule off - выключить
+ * /digest_schedule - показать текущую настройку
+ */
+export async function handleDigestScheduleCommand(ctx: Context) {
+  try {
+    if (!ctx.chat || (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup')) {
+      await ctx.reply('❌ Расписание дайджеста настраивается только в групповых чатах.');
+      return;
+    }
+    if (!ctx.message || !('text' in ctx.message)) {
+      return;
+    }
+
+    const chatId = ctx.chat.id;
+    const argument = ctx.message.text.split(/\s+/)[1]?.toLowerCase();
+
+    console.log(`⏰ Команда /digest_schedule ${argument ?? ''} от пользователя ${ctx.from?.id} в чате ${chatId}`);
+
+    const timeZone = await Chat.getTimeZone(chatId);
+
+    if (!argument) {
+      const schedule = await DigestSchedule.findByChatId(chatId);
+      await ctx.reply(
+        schedule?.enabled
+          ? `⏰ Дайджест приходит каждый день в ${schedule.send_time} (${timeZone}).\nВыключить: /digest_schedule off`
+          : '⏰ Автоматический дайджест выключен.\nВключить: /digest_schedule 21:00',
+      );
+      return;
+    }
+
+    if (!(await canManageChat(ctx))) {
+      await ctx.reply('⛔ Настраивать расписание дайджеста могут только администраторы чата.');
+      return;
+    }
+
+    if (argument === 'off') {
+      const disabled = await DigestSchedule.disable(chatId);
+      await ctx.reply(disabled ? '🔕 Автоматический дайджест выключен.' : '⏰ Автоматический дайджест и так выключен.');
+      return;
+    }
+
+    const sendTime = DigestScheduler.parseTime(argument);
+    if (!sendTime) {
+      await ctx.reply('❌ Укажите время в формате ЧЧ:ММ, например /digest_schedule 21:00, или /digest_schedule off.');
+      return;
+    }
+
+    await DigestSchedule.upsert({
+      chat_id: chatId,
+      send_time: sendTime,
+      last_sent_date: DigestScheduler.initialSentDate(sendTime, new Date(), timeZone),
+      created_by: ctx.from?.id ?? null,
+    });
+    await ctx.reply(`✅ Дайджест будет приходить каждый день в ${sendTime} (${timeZone}).\nСменить часовой пояс: /timezone`);
+  } catch (error) {
+    console.error('❌ Ошибка в handleDigestScheduleCommand:', error);
+    if (ctx.reply) {
+      await ctx.reply('Произошла ошибка при настройке расписания дайджеста.');
+    }
+  }
+}
+
+/**
+ * Страница архива: один дайджест на страницу, новые сначала
+ */
+function formatDigestHistoryPage(
+  item: DigestData<ChatDigestResult>,
+  page: number,
+  total: number,
+  timeZone: string,
+): string {
+  const provider = item.provider ? getLLMProviderLabel(item.provider as LLMProviderId) : '—';
+  return (
+    `🗂 Архив дайджестов · ${page + 1} из ${total}\n` +
+    `📅 Сформирован ${formatDateTime(item.created_at, timeZone)} · ${provider} · ${item.message_count} сообщений\n\n` +
+    formatDigestMessage(item.result, item.period_label, item.chat_id)
+  );
+}
+
+/**
+ * Кнопки пагинации архива
+ */
+function createDigestHistoryButtons(chatId: number, page: number, total: number) {
+  const buttons = [];
+  if (page > 0) {
+    buttons.push(Markup.button.callback('◀️ Новее', `digest:history:${chatId}:${page - 1}`));
+  }
+  if (page < total - 1) {
+    buttons.push(Markup.button.callback('Старее ▶️', `digest:history:${chatId}:${page + 1}`));
+  }
+  return Markup.inlineKeyboard([buttons]);
+}
+
+/**
+ * Обработчик команды /digest_history - архив дайджестов чата
+ */
+export async function handleDigestHistoryCommand(ctx: Context) {
+  try {
+    if (!ctx.chat || (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup')) {
+      await ctx.reply('❌ Архив дайджестов доступен только в групповых чатах.');
+      return;
+    }
+
+    const chatId = ctx.chat.id;
+    console.log(`🗂 Команда /digest_history получена от пользователя ${ctx.from?.id} в чате ${chatId}`);
+
+    const { items, total } = await DigestService.getHistory(chatId, { limit: 1, offset: 0 });
+    if (items.length === 0) {
+      await ctx.reply('📭 В архиве ещё нет дайджестов этого чата. Запустите /digest.');
+      return;
+    }
+
+    const timeZone = await Chat.getTimeZone(chatId);
+    await ctx.reply(formatDigestHistoryPage(items[0], 0, total, timeZone), {
+      parse_mode: 'Markdown',
+      ...createDigestHistoryButtons(chatId, 0, total),
+    });
+  } catch (error) {
+    console.error('❌ Ошибка в handleDigestHistoryCommand:', error);
+    if (ctx.reply) {
+      await ctx.reply('Произошла ошибка при получении архива дайджестов.');
+    }
+  }
+}
+
+/**
+ * Обработчик кнопок пагинации архива дайджестов
+ */
+export async function handleDigestHistoryPage(ctx: Context, chatId: number, page: number) {
+  try {
+    // Архив показываем только в том чате, которому он принадлежит
+    if (ctx.chat?.id !== chatId) {
+      await ctx.answerCbQuery('Архив доступен только в своём чате.');
+      return;
+    }
+
+    const { items, total } = await DigestService.getHistory(chatId, { limit: 1, offset: page });
+    await ctx.answerCbQuery();
+    if (items.length === 0) {
+      await ctx.editMessageText('📭 Такой страницы в архиве нет.');
+      return;
+    }
+
+    const timeZone = await Chat.getTimeZone(chatId);
+    await ctx.editMessageText(formatDigestHistoryPage(items[0], page, total, timeZone), {
+      parse_mode: 'Markdown',
+      ...createDigestHistoryButtons(chatId, page, total),
+    });
+  } catch (error) {
+    console.error('❌ Ошибка в handleDigestHistoryPage:', error);
+  }
+}
@@ -0,0 +1,97 @@
+import { Context } from 'telegraf';
+import { AnalysisService, UserAnalysis } from '../services/analysisService';
+import { AnalysisData } from '../models/Analysis';
+import { getLLMProviderLabel, LLMProviderId } from '../config/llm';
+import { User } from '../models/User';
+import { isBotAdmin } from '../config/access';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Chat } from '../models/Chat';
+import { resolveTargetUser } from './analyzeHandlers';
+
+// Сколько последних анализов показывать
+const HISTORY_LIMIT = 5;
+
+/**
+ * Форматирование истории анализов (дата анализа - по часам чата)
+ */
+function formatAnalysisHistory(
+  history: AnalysisData<UserAnalysis>[],
+  username: string | null,
+  firstName: string | null,
+  timeZone: string,
+): string {
+  const displayName = username ? `@${username}` : firstName || 'Неизвестный';
+
+  if (history.length === 0) {
+    return `📭 Для ${displayName} ещё нет сохранённых анализов. Запустите /analyze.`;
+  }
+
+  let message = `🗂 История анализов ${displayName} (последние ${history.length}):\n`;
+
+  for (const item of history) {
+    const date = new Date(item.created_at).toLocaleString('ru-RU', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+    const provider = item.provider ? getLLMProviderLabel(item.provider as LLMProviderId) : '—';
+
+    message += `\n📅 ${date} · ${provider} · ${item.message_count} сообщений\n`;
+    message += `📝 Стиль: ${item.result.style}\n`;
+    message += `😊 Тональность: ${item.result.tone}\n`;
+    message += `💬 Темы: ${item.result.topics}\n`;
+  }
+
+  return message;
+}
+
+/**
+ * Обработчик команды /history
+ * Использование: /history @username, /history (reply на сообщение) или /history (свои анализы)
+ */
+export async function handleHistoryCommand(ctx: Context) {
+  try {
+    console.log(`🗂 Команда /history получена от пользователя ${ctx.from?.id} в чате ${ctx.chat?.id}`);
+
+    if (!ctx.message || !('text' in ctx.message)) {
+      await ctx.reply('❌ Команда должна быть текстовой.');
+      return;
+    }
+
+    const target = await resolveTargetUser(ctx.message, ctx.from?.id);
+    if (target && 'missingUsername' in target) {
+      await ctx.reply(`❌ Пользователь @${target.missingUsername} не найден в базе данных.`);
+      return;
+    }
+    if (!target) {
+      await ctx.reply('❌ Не удалось определить пользователя. Использование: /history @username');
+      return;
+    }
+
+    // В группе показываем только анализы этого чата, чтобы не раскрывать результаты из других групп
+    const isGroup = ctx.chat?.type === 'group' || ctx.chat?.type === 'supergroup';
+    const chatId = isGroup ? ctx.chat!.id : undefined;
+    if (chatId === undefined && !isBotAdmin(ctx.from?.id)) {
+      await ctx.reply('❌ История анализов доступна только в групповых чатах.');
+      return;
+    }
+
+    const user = await User.findByTelegramId(target.telegramId);
+    const history = await AnalysisService.getHistory(target.telegramId, { chatId, limit: HISTORY_LIMIT });
+    if (!user || !history) {
+      await ctx.reply('❌ Пользователь не найден в базе данных.');
+      return;
+    }
+
+    const timeZone = chatId !== undefined ? await Chat.getTimeZone(chatId) : getDefaultTimeZone();
+    await ctx.reply(formatAnalysisHistory(history, user.username, user.first_name, timeZone));
+  } catch (error) {
+    console.error('❌ Ошибка в handleHistoryCommand:', error);
+    if (ctx.reply) {
+      await ctx.reply('Произошла ошибка при получении истории анализов.');
+    }
+  }
+}
@@ -1,4 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { createCalendarKeyboard, createUserListKeyboard, handlePeriodSelection, parseStatsArgs } from './statsHandlers';
+import { StatsService } from '../services/statsService';
+import { Chat } from '../models/Chat';
 
 /**
  * Тесты для функций форматирования статистики
@@ -68,3 +71,110 @@ describe('Stats Handlers - Formatting Functions', () => {
     expect(display3).toBe('Неизвестный');
   });
 });
+
+describe('Stats Handlers - Custom Periods', () => {
+  const now = new Date(2026, 8, 20, 12, 0);
+  const callbacks = (keyboard: ReturnType<typeof createCalendarKeyboard>) =>
+    keyboard.reply_markup.inline_keyboard.flat().map((button) => ('callback_data' in button ? button.callback_data : ''));
+
+  it('должен разбирать период и участника из аргументов /stats', () => {
+    expect(parseStatsArgs('/stats')).toEqual({});
+    expect(parseStatsArgs('/stats all')).toEqual({ period: { key: 'all', label: 'все время' } });
+    expect(parseStatsArgs('/stats 2026-09-01..2026-09-15', now)).toMatchObject({ period: { key: '2026-09-01..2026-09-15' } });
+    expect(parseStatsArgs('/stats @ivan неделя', now)).toMatchObject({ username: 'ivan', period: { key: 'week' } });
+    expect(parseStatsArgs('/stats 2026-09-15..2026-09-01', now)).toContain('Начало диапазона позже конца');
+    expect(parseStatsArgs('/stats завтра', now)).toBe('Непонятный аргумент: завтра');
+  });
+
+  it('должен считать период и "сегодня" календаря в поясе чата', () => {
+    // 20:30 UTC 30 сентября - в Душанбе уже 1 октября
+    const evening = new Date('2026-09-30T20:30:00Z');
+
+    const parsed = parseStatsArgs('/stats 2026-09-01..2026-09-15', evening, 'Asia/Dushanbe');
+    expect(parsed).toMatchObject({ period: { startDate: new Date('2026-08-31T19:00:00Z') } });
+    expect(parseStatsArgs('/stats сегодня', evening, 'Asia/Dushanbe')).toMatchObject({
+      period: { startDate: new Date('2026-09-30T19:00:00Z') },
+    });
+
+    const data = callbacks(createCalendarKeyboard(-100, 'period', '2026-10', undefined, evening, 'Asia/Dushanbe'));
+    expect(data).toContain('stats:cal:period:-100:2026-10:2026-10-01');
+    expect(data).not.toContain('stats:cal:period:-100:2026-10:2026-10-02');
+    expect(callbacks(createCalendarKeyboard(-100, 'period', '2026-10', undefined, evening, 'UTC'))).not.toContain(
+      'stats:cal:period:-100:2026-10:2026-10-01'
+    );
+  });
+
+  it('должен строить постраничный список участников', () => {
+    const users = [
+      { id: 7, username: 'ivan', first_name: 'Иван', message_count: 120 },
+      { id: 9, username: null, first_name: 'Мария', message_count: 0 },
+    ];
+
+    const rows = createUserListKeyboard(-100, users, 1, 20).reply_markup.inline_keyboard;
+
+    expect(rows[0][0]).toMatchObject({ text: '@ivan · 120', callback_data: 'stats:user:7:-100:all' });
+    expect(rows[1][0].text).toBe('Мария · 0');
+    expect(rows[2].map((button) => ('callback_data' in button ? button.callback_data : ''))).toEqual([
+      'stats:user:-100:page:0',
+      'stats:user:-100:page:2',
+    ]);
+    // Последняя страница - без кнопки "Дальше"
+    const lastPage = createUserListKeyboard(-100, users, 2, 20).reply_markup.inline_keyboard;
+    expect(lastPage[2].map((button) => button.text)).toEqual(['◀️ Назад']);
+  });
+
+  it('должен строить календарь выбора начала периода без будущих дней', () => {
+    const data = callbacks(createCalendarKeyboard(-1001234567890, 'period', '2026-09', undefined, now));
+
+    expect(data).toContain('stats:cal:period:-1001234567890:2026-08');
+    expect(data).not.toContain('stats:cal:period:-1001234567890:2026-10');
+    expect(data).toContain('stats:cal:period:-1001234567890:2026-09:2026-09-20');
+    expect(data).not.toContain('stats:cal:period:-1001234567890:2026-09:2026-09-21');
+    // 1 сентября 2026 - вторник: перед ним одна пустая клетка
+    const rows = createCalendarKeyboard(-1001234567890, 'period', '2026-09', undefined, now).reply_markup.inline_keyboard;
+    expect(rows[2].map((button) => button.text)).toEqual([' ', '1', '2', '3', '4', '5', '6']);
+  });
+
+  it('после выбора начала дни ведут сразу на период и укладываются в лимит callback_data', () => {
+    const data = callbacks(createCalendarKeyboard(-1001234567890, 'interactions', '2026-09', '2026-09-10', now));
+
+    expect(data).toContain('stats:interactions:-1001234567890:2026-09-10..2026-09-10');
+    expect(data).toContain('stats:interactions:-1001234567890:2026-09-10..2026-09-20');
+    expect(data).not.toContain('stats:interactions:-1001234567890:2026-09-10..2026-09-09');
+    expect(data).toContain('stats:cal:interactions:-1001234567890:2026-08:2026-09-10');
+    // Telegram ограничивает callback_data 64 байтами
+    expect(Math.max(...data.map((item) => Buffer.byteLength(item)))).toBeLessThanOrEqual(64);
+  });
+
+  it('календарь тепловой карты участника ведёт на его карту за период', () => {
+    const data = callbacks(createCalendarKeyboard(-1001234567890, 'hours:2147483647', '2026-09', '2026-09-10', now));
+
+    expect(data).toContain('stats:hours:2147483647:-1001234567890:2026-09-10..2026-09-20');
+    expect(data).toContain('stats:cal:hours:2147483647:-1001234567890:2026-08:2026-09-10');
+    expect(Math.max(...data.map((item) => Buffer.byteLength(item)))).toBeLessThanOrEqual(64);
+  });
+
+  it('при выборе периода в меню присылает графики альбомом, а на тот же период - нет', async () => {
+    const stats = { topUsers: [{ user_id: 1, count: 5, username: 'ivan', first_name: 'Иван' }], totalMessages: 5, totalUsers: 1 };
+    vi.spyOn(StatsService, 'getChatStats').mockResolvedValue(stats as any);
+    vi.spyOn(StatsService, 'getChatCharts').mockResolvedValue({
+      topUsers: Buffer.from('a'),
+      daily: Buffer.from('b'),
+      heatmap: Buffer.from('c'),
+    });
+    vi.spyOn(Chat, 'getTimeZone').mockResolvedValue('UTC');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const ctx = { editMessageText: vi.fn(), replyWithMediaGroup: vi.fn() };
+
+    await handlePeriodSelection(ctx as any, -100, 'week');
+    ctx.editMessageText.mockRejectedValueOnce({
+      response: { error_code: 400, description: 'Bad Request: message is not modified' },
+    });
+    await handlePeriodSelection(ctx as any, -100, 'week');
+
+    expect(ctx.editMessageText).toHaveBeenCalledTimes(2);
+    expect(ctx.replyWithMediaGroup).toHaveBeenCalledTimes(1);
+    expect(ctx.replyWithMediaGroup.mock.calls[0][0]).toHaveLength(3);
+    vi.restoreAllMocks();
+  });
+});
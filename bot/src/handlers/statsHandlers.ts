@@ -1,19 +1,60 @@
 import { Context } from 'telegraf';
 import { StatsService } from '../services/statsService';
+import { ChatUser, User } from '../models/User';
+import { formatReactionKey, MESSAGE_TYPE_LABELS } from '../services/messageContent';
+import { summarizeHeatmap } from '../services/activityHeatmap';
+import { ChartService } from '../services/chartService';
+import { formatDate, parseIsoDate, ParsedPeriod, parsePeriod } from '../services/periodParser';
+import { toZonedDateKey } from '../services/timeZone';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Chat } from '../models/Chat';
 import { Markup } from 'telegraf';
 
+const MONTH_NAMES = [
+  'Январь', 'Февраль', 'Март', 'Апрель', 'Май', 'Июнь',
+  'Июль', 'Август', 'Сентябрь', 'Октябрь', 'Ноябрь', 'Декабрь',
+];
+
+const WEEKDAY_NAMES = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+
+// Участников на одной странице выбора пользователя
+const USERS_PAGE_SIZE = 8;
+
+// Подписи стандартных периодов в заголовках статистики
+const PERIOD_NAMES: Record<string, string> = {
+  all: 'все время',
+  today: 'сегодня',
+  week: 'за неделю',
+  month: 'за месяц',
+};
+
+/**
+ * Подпись периода для заголовка: стандартный период или диапазон из /stats и календаря
+ */
+function periodLabel(period: string): string {
+  if (PERIOD_NAMES[period]) {
+    return PERIOD_NAMES[period];
+  }
+  try {
+    return parsePeriod(period)?.label ?? period;
+  } catch {
+    return period;
+  }
+}
+
+/**
+ * День календаря как YYYY-MM-DD - формат диапазонов в callback и ключах кэша
+ * month - 1..12, переполнение переносится (month 0 - декабрь прошлого года); от пояса сервера не зависит
+ */
+function toCalendarKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
 /**
  * Форматирование общей статистики для вывода
  */
 function formatGeneralStats(stats: Awaited<ReturnType<typeof StatsService.getChatStats>>, period: string): string {
-  const periodNames: Record<string, string> = {
-    all: 'все время',
-    today: 'сегодня',
-    week: 'за неделю',
-    month: 'за месяц',
-  };
-
-  const periodName = periodNames[period] || period;
+  const periodName = periodLabel(period);
 
   let message = `📊 Статистика чата за ${periodName}:\n\n`;
 
@@ -32,6 +73,36 @@ function formatGeneralStats(stats: Awaited<ReturnType<typeof StatsService.getCha
 
   message += `\n📈 Всего: ${stats.totalMessages} сообщений от ${stats.totalUsers} пользователей`;
 
+  // Разбивка по типам имеет смысл, только если в чате есть не только текст
+  // (в кэше, сохранённом до появления типов, byType нет)
+  if (stats.byType?.some((item) => item.type !== 'text')) {
+    message += '\n\n🗂 По типам:\n';
+    message += stats.byType
+      .map((item) => `${MESSAGE_TYPE_LABELS[item.type] ?? item.type} - ${item.count}`)
+      .join('\n');
+  }
+
+  if (stats.topEditors?.length) {
+    message += '\n\n✏️ Чаще всех редактируют:\n';
+    message += stats.topEditors
+      .map((editor) => {
+        const username = editor.username ? `@${editor.username}` : editor.first_name || 'Неизвестный';
+        return `${username} - ${editor.edits} правок в ${editor.messages} сообщениях`;
+      })
+      .join('\n');
+  }
+
+  if (stats.topReplyPairs?.length) {
+    message += '\n\n💬 Кто кому отвечает:\n';
+    message += stats.topReplyPairs
+      .map((pair) => {
+        const from = pair.from_username ? `@${pair.from_username}` : pair.from_first_name || 'Неизвестный';
+        const to = pair.to_username ? `@${pair.to_username}` : pair.to_first_name || 'Неизвестный';
+        return `${from} → ${to} - ${pair.count} ответов`;
+      })
+      .join('\n');
+  }
+
   return message;
 }
 
@@ -43,36 +114,337 @@ function formatUserStats(stats: Awaited<ReturnType<typeof StatsService.getUserSt
     return '❌ Пользователь не найден.';
   }
 
-  const periodNames: Record<string, string> = {
-    all: 'все время',
-    today: 'сегодня',
-    week: 'за неделю',
-    month: 'за месяц',
-  };
-
-  const periodName = periodNames[period] || period;
+  const periodName = periodLabel(period);
   const username = stats.username ? `@${stats.username}` : stats.firstName || 'Неизвестный';
 
-  return `👤 Статистика пользователя ${username} за ${periodName}:\n\n📝 Сообщений: ${stats.messageCount}`;
+  let message = `👤 Статистика пользователя ${username} за ${periodName}:\n\n📝 Сообщений: ${stats.messageCount}`;
+
+  // В кэше, сохранённом до появления подробной статистики, есть только число сообщений
+  if (stats.participants === undefined) {
+    return message;
+  }
+
+  if (stats.rank !== null) {
+    message += ` (${stats.share}% сообщений чата)\n`;
+    message += `🏆 Место: ${stats.rank} из ${stats.participants}\n`;
+    message += `📅 Активных дней: ${stats.activeDays}\n`;
+    if (stats.averageLength !== null) {
+      message += `✍️ Средняя длина: ${stats.averageLength} символов\n`;
+    }
+  } else {
+    message += '\n';
+  }
+
+  message += stats.lastMessageAt
+    ? `👀 Последнее сообщение: ${new Date(stats.lastMessageAt).toLocaleString('ru-RU', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: stats.timeZone,
+      })}`
+    : '👀 Ещё ничего не писал в этом чате';
+
+  return message;
+}
+
+/**
+ * Форматирование графа взаимодействий: самые сильные связи "кто → кому"
+ */
+function formatInteractions(result: Awaited<ReturnType<typeof StatsService.getInteractions>>, period: string): string {
+  const periodName = periodLabel(period);
+
+  let message = `🕸 Взаимодействия за ${periodName}:\n\n`;
+
+  if (result.edges.length === 0) {
+    message += 'Пока нет ответов и упоминаний между участниками.';
+    return message;
+  }
+
+  message += result.edges
+    .map((edge, index) => {
+      const from = edge.from_username ? `@${edge.from_username}` : edge.from_first_name || 'Неизвестный';
+      const to = edge.to_username ? `@${edge.to_username}` : edge.to_first_name || 'Неизвестный';
+      return `${index + 1}. ${from} → ${to} - ${edge.weight} (ответов: ${edge.replies}, упоминаний: ${edge.mentions})`;
+    })
+    .join('\n');
+
+  message += '\n\nУчитываются ответы на сообщения и @упоминания';
+  return message;
+}
+
+/**
+ * Форматирование рейтингов реакций
+ */
+function formatReactionStats(result: Awaited<ReturnType<typeof StatsService.getReactionStats>>, period: string): string {
+  const periodName = periodLabel(period);
+  const displayName = (user: { username: string | null; first_name: string | null }) =>
+    user.username ? `@${user.username}` : user.first_name || 'Неизвестный';
+
+  let message = `❤️ Реакции за ${periodName}:\n\n`;
+
+  if (result.topEmoji.length === 0) {
+    message += 'Пока нет реакций. Бот видит реакции, только если он администратор чата.';
+    return message;
+  }
+
+  message += '🔝 Популярные реакции: ';
+  message += result.topEmoji.map((item) => `${formatReactionKey(item.emoji)} ${item.count}`).join(', ');
+
+  if (result.topMessages.length) {
+    message += '\n\n🏆 Больше всего реакций:\n';
+    message += result.topMessages
+      .map((item, index) => {
+        // Сообщения, отправленные до добавления бота, есть только номером
+        const text = item.text === null ? `сообщение #${item.telegram_message_id}` : `${displayName(item)}: ${item.text || '[вложение]'}`;
+        const preview = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+        return `${index + 1}. ${preview} - ${item.total}`;
+      })
+      .join('\n');
+  }
+
+  if (result.topReceivers.length) {
+    message += '\n\n🎯 Получают больше всех:\n';
+    message += result.topReceivers.map((user) => `${displayName(user)} - ${user.count}`).join('\n');
+  }
+
+  if (result.topGivers.length) {
+    message += '\n\n👏 Ставят больше всех:\n';
+    message += result.topGivers.map((user) => `${displayName(user)} - ${user.count}`).join('\n');
+  }
+
+  return message;
+}
+
+/**
+ * Форматирование статистики участников: рост, отток и кто вступил, но молчит
+ */
+function formatMemberStats(result: Awaited<ReturnType<typeof StatsService.getMemberStats>>, period: string): string {
+  const periodName = periodLabel(period);
+  const net = result.joined - result.left;
+
+  let message = `👥 Участники за ${periodName}:\n\n`;
+  message += `➕ Вступили: ${result.joined}\n`;
+  message += `➖ Вышли: ${result.left}\n`;
+  message += `📈 Прирост: ${net > 0 ? '+' : ''}${net}\n`;
+  message += `👤 Сейчас в чате: ${result.members}`;
+
+  if (result.silentTotal > 0) {
+    message += `\n\n🤐 Вступили, но ничего не написали (${result.silentTotal}):\n`;
+    message += result.silentMembers
+      .map((member) => {
+        const username = member.username ? `@${member.username}` : member.first_name || 'Неизвестный';
+        const joined = member.joined_at ? ` - с ${new Date(member.joined_at).toLocaleDateString('ru-RU', { timeZone: result.timeZone })}` : '';
+        return `${username}${joined}`;
+      })
+      .join('\n');
+    if (result.silentTotal > result.silentMembers.length) {
+      message += `\n...и ещё ${result.silentTotal - result.silentMembers.length}`;
+    }
+  }
+
+  message += '\n\nУчитываются вступления и выходы, которые видел бот';
+  return message;
+}
+
+/**
+ * Подпись к тепловой карте активности: период, участник и сводка по карте
+ */
+function formatHeatmapCaption(result: NonNullable<Awaited<ReturnType<typeof StatsService.getHeatmap>>>, period: string): string {
+  const periodName = periodLabel(period);
+  let message = `🕒 Активность по часам за ${periodName}`;
+  if (result.userId !== null) {
+    message += `\n👤 ${result.username ? `@${result.username}` : result.firstName || 'Неизвестный'}`;
+  }
+
+  const summary = summarizeHeatmap(result.cells);
+  if (summary.length === 0) {
+    return `${message}\n\nПока нет сообщений за этот период.`;
+  }
+  return `${message}\n\n📝 Сообщений: ${result.total}\n${summary.join('\n')}`;
+}
+
+/**
+ * Подпись к графикам общей статистики: период и расшифровка мест на столбчатой диаграмме
+ */
+function formatChartsCaption(stats: Awaited<ReturnType<typeof StatsService.getChatStats>>, period: string): string {
+  const periodName = periodLabel(period);
+  const places = stats.topUsers.map((user, index) => {
+    const username = user.username ? `@${user.username}` : user.first_name || 'Неизвестный';
+    return `${index + 1}. ${username} - ${user.count}`;
+  });
+  return `📈 Графики за ${periodName}: топ участников, сообщения по дням и активность по часам\n\n${places.join('\n')}`;
 }
 
 /**
  * Создание inline-кнопок для выбора периода
+ * action - раздел, который перестраивается по выбранному периоду
+ * (period - общая статистика, user:<id> - статистика участника, hours[:<id>] - тепловая карта)
+ * Календарь открывается на месяце текущего диапазона, если он выбран, иначе - на текущем месяце по часам чата
  */
-function createPeriodButtons(chatId: number, currentPeriod?: string) {
+function createPeriodButtons(
+  chatId: number,
+  currentPeriod?: string,
+  action: string = 'period',
+  timeZone: string = getDefaultTimeZone()
+) {
+  const rangeStart = currentPeriod?.match(/^(\d{4}-\d{2})-\d{2}\.\./);
+  const calendarMonth = rangeStart ? rangeStart[1] : toZonedDateKey(new Date(), timeZone).slice(0, 7);
+  // У общей статистики - графики за тот же период, у участника - переход к его тепловой карте
+  const userId = action.match(/^user:(\d+)$/)?.[1];
+  const extraRow =
+    action === 'period'
+      ? [[Markup.button.callback('📈 Графики', `stats:charts:${chatId}:${currentPeriod ?? 'all'}`)]]
+      : userId
+        ? [[Markup.button.callback('🕒 По часам', `stats:hours:${userId}:${chatId}:${currentPeriod ?? 'all'}`)]]
+        : [];
   return Markup.inlineKeyboard([
     [
-      Markup.button.callback('📅 За сегодня', `stats:period:${chatId}:today`),
-      Markup.button.callback('📆 За неделю', `stats:period:${chatId}:week`),
+      Markup.button.callback('📅 За сегодня', `stats:${action}:${chatId}:today`),
+      Markup.button.callback('📆 За неделю', `stats:${action}:${chatId}:week`),
     ],
     [
-      Markup.button.callback('📊 За месяц', `stats:period:${chatId}:month`),
-      Markup.button.callback('🌐 За всё время', `stats:period:${chatId}:all`),
+      Markup.button.callback('📊 За месяц', `stats:${action}:${chatId}:month`),
+      Markup.button.callback('🌐 За всё время', `stats:${action}:${chatId}:all`),
     ],
+    [Markup.button.callback('🗓 Выбрать даты', `stats:cal:${action}:${chatId}:${calendarMonth}`)],
+    ...extraRow,
     [Markup.button.callback('🔙 Назад', `stats:menu:${chatId}`)],
   ]);
 }
 
+/**
+ * Список участников для выбора: по кнопке на участника и листание страниц
+ */
+export function createUserListKeyboard(chatId: number, users: ChatUser[], page: number, total: number) {
+  const rows = users.map((user) => {
+    const name = user.username ? `@${user.username}` : user.first_name || 'Неизвестный';
+    return [Markup.button.callback(`${name} · ${user.message_count}`, `stats:user:${user.id}:${chatId}:all`)];
+  });
+
+  const navigation = [];
+  if (page > 0) {
+    navigation.push(Markup.button.callback('◀️ Назад', `stats:user:${chatId}:page:${page - 1}`));
+  }
+  if ((page + 1) * USERS_PAGE_SIZE < total) {
+    navigation.push(Markup.button.callback('Дальше ▶️', `stats:user:${chatId}:page:${page + 1}`));
+  }
+  if (navigation.length > 0) {
+    rows.push(navigation);
+  }
+
+  rows.push([Markup.button.callback('🔙 Назад', `stats:menu:${chatId}`)]);
+  return Markup.inlineKeyboard(rows);
+}
+
+/**
+ * Календарь для выбора диапазона: сначала начало, потом конец
+ * month - показываемый месяц (YYYY-MM), start - уже выбранное начало (YYYY-MM-DD).
+ * Пока начала нет, день открывает тот же месяц с выбранным началом; после - сразу период
+ * stats:<action>:<chatId>:<start>..<end>, который обрабатывается как обычная кнопка периода.
+ * Будущие дни (по часам чата) и дни раньше начала недоступны (кнопка stats:noop)
+ */
+export function createCalendarKeyboard(
+  chatId: number,
+  action: string,
+  month: string,
+  start?: string,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone()
+) {
+  const [year, monthIndex] = month.split('-').map((part) => parseInt(part, 10));
+  const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const today = toZonedDateKey(now, timeZone);
+  const base = `stats:cal:${action}:${chatId}`;
+  const startSuffix = start ? `:${start}` : '';
+
+  const prevMonth = toCalendarKey(year, monthIndex - 1, 1).slice(0, 7);
+  const nextMonth = toCalendarKey(year, monthIndex + 1, 1).slice(0, 7);
+
+  const rows = [
+    [
+      Markup.button.callback('‹', `${base}:${prevMonth}${startSuffix}`),
+      Markup.button.callback(`${MONTH_NAMES[monthIndex - 1]} ${year}`, 'stats:noop'),
+      // В будущие месяцы листать незачем
+      nextMonth <= today.slice(0, 7)
+        ? Markup.button.callback('›', `${base}:${nextMonth}${startSuffix}`)
+        : Markup.button.callback(' ', 'stats:noop'),
+    ],
+    WEEKDAY_NAMES.map((name) => Markup.button.callback(name, 'stats:noop')),
+  ];
+
+  // Неделя начинается с понедельника: getUTCDay() у воскресенья 0
+  let week = Array.from({ length: (firstWeekday + 6) % 7 }, () => Markup.button.callback(' ', 'stats:noop'));
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = toCalendarKey(year, monthIndex, day);
+    if (date > today || (start && date < start)) {
+      week.push(Markup.button.callback('·', 'stats:noop'));
+    } else if (start) {
+      week.push(Markup.button.callback(date === start ? `[${day}]` : String(day), `stats:${action}:${chatId}:${start}..${date}`));
+    } else {
+      week.push(Markup.button.callback(String(day), `${base}:${month}:${date}`));
+    }
+    if (week.length === 7) {
+      rows.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) {
+    while (week.length < 7) {
+      week.push(Markup.button.callback(' ', 'stats:noop'));
+    }
+    rows.push(week);
+  }
+
+  rows.push(
+    start
+      ? [
+          Markup.button.callback('↩️ Другое начало', `${base}:${month}`),
+          Markup.button.callback('🔙 Назад', `stats:menu:${chatId}`),
+        ]
+      : [Markup.button.callback('🔙 Назад', `stats:menu:${chatId}`)]
+  );
+
+  return Markup.inlineKeyboard(rows);
+}
+
+/**
+ * Аргументы /stats: участник и/или период
+ * Примеры: /stats week, /stats 2026-09-01..2026-09-15, /stats @ivan month
+ * Возвращает строку с ошибкой, если период не распознан; периоды - в часовом поясе чата
+ */
+export function parseStatsArgs(
+  text: string,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone()
+): { username?: string; period?: ParsedPeriod } | string {
+  const result: { username?: string; period?: ParsedPeriod } = {};
+
+  for (const token of text.split(/\s+/).slice(1).filter(Boolean)) {
+    if (token.startsWith('@') && token.length > 1) {
+      result.username = token.slice(1);
+      continue;
+    }
+    if (token.toLowerCase() === 'all') {
+      result.period = { key: 'all', label: 'все время' };
+      continue;
+    }
+    try {
+      const period = parsePeriod(token, now, timeZone);
+      if (!period) {
+        return `Непонятный аргумент: ${token}`;
+      }
+      result.period = period;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Создание главного меню статистики
  */
@@ -80,6 +452,10 @@ function createStatsMenu(chatId: number) {
   return Markup.inlineKeyboard([
     [Markup.button.callback('📊 Общая статистика', `stats:general:${chatId}`)],
     [Markup.button.callback('👤 Статистика пользователя', `stats:user:${chatId}`)],
+    [Markup.button.callback('🕸 Взаимодействия', `stats:interactions:${chatId}`)],
+    [Markup.button.callback('❤️ Реакции', `stats:reactions:${chatId}`)],
+    [Markup.button.callback('👥 Участники', `stats:members:${chatId}`)],
+    [Markup.button.callback('🕒 Активность по часам', `stats:hours:${chatId}`)],
   ]);
 }
 
@@ -96,6 +472,33 @@ export async function handleStatsCommand(ctx: Context) {
     }
 
     const chatId = ctx.chat.id;
+
+    // /stats 2026-09-01..2026-09-15 - сразу общая статистика за период, /stats @ivan - статистика участника
+    const timeZone = await Chat.getTimeZone(chatId);
+    const args = parseStatsArgs(ctx.message && 'text' in ctx.message ? ctx.message.text : '', new Date(), timeZone);
+    if (typeof args === 'string') {
+      await ctx.reply(`❌ ${args}\n\nПримеры: /stats week, /stats 2026-09-01..2026-09-15, /stats @username month`);
+      return;
+    }
+    const period = args.period?.key ?? 'all';
+    if (args.username) {
+      const user = await User.findByUsername(args.username);
+      const stats = user ? await StatsService.getUserStats(chatId, user.id, period) : null;
+      if (!user || !stats) {
+        await ctx.reply(`❌ Пользователь @${args.username} не найден.`);
+        return;
+      }
+      await ctx.reply(formatUserStats(stats, period), createPeriodButtons(chatId, period, `user:${user.id}`, timeZone));
+      return;
+    }
+    if (args.period) {
+      const stats = await StatsService.getChatStats(chatId, period);
+      await ctx.reply(formatGeneralStats(stats, period), createPeriodButtons(chatId, period, 'period', timeZone));
+      // Графики - дополнение к тексту: если не получились, статистика всё равно отправлена
+      await sendCharts(ctx, chatId, period, stats).catch((error) => console.error('Не удалось отправить графики:', error));
+      return;
+    }
+
     const message = `📊 Статистика чата\n\nВыберите опцию:`;
 
     console.log(`📤 Отправляю меню статистики для чата ${chatId}`);
@@ -114,7 +517,7 @@ export async function handleStatsCommand(ctx: Context) {
 }
 
 /**
- * Обработчик inline-кнопки "Общая статистика"
+ * Обработчик inline-кнопки "Общая статистика": текст в меню и графики альбомом следом
  */
 export async function handleGeneralStats(ctx: Context, chatId: number, period: string = 'all') {
   try {
@@ -122,16 +525,11 @@ export async function handleGeneralStats(ctx: Context, chatId: number, period: s
     const stats = await StatsService.getChatStats(chatId, period);
     const message = formatGeneralStats(stats, period);
 
-    try {
-      await ctx.editMessageText(message, createPeriodButtons(chatId, period));
-    } catch (editError: any) {
-      // Обработка ошибки "message is not modified"
-      if (editError.response?.error_code === 400 && editError.response?.description?.includes('message is not modified')) {
-        console.log(`ℹ️ Сообщение не изменено (период: ${period})`);
-        return;
-      }
-      throw editError;
+    const edited = await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, 'period', await Chat.getTimeZone(chatId)));
+    if (!edited) {
+      return;
     }
+    await sendCharts(ctx, chatId, period, stats).catch((error) => console.error('Не удалось отправить графики:', error));
   } catch (error) {
     console.error('Ошибка в handleGeneralStats:', error);
     if (error instanceof Error) {
@@ -149,15 +547,28 @@ export async function handleGeneralStats(ctx: Context, chatId: number, period: s
 }
 
 /**
- * Обработчик inline-кнопки "Статистика пользователя"
+ * Обработчик inline-кнопки "Статистика пользователя": список участников чата постранично
  */
-export async function handleUserStats(ctx: Context, chatId: number) {
+export async function handleUserStats(ctx: Context, chatId: number, page: number = 0) {
   try {
-    // Пока просто просим выбрать период, потом можно добавить выбор пользователя
-    await ctx.editMessageText(
-      '👤 Статистика пользователя\n\nВыберите период:',
-      createPeriodButtons(chatId)
-    );
+    const { users, total } = await User.findByChat(chatId, {
+      limit: USERS_PAGE_SIZE,
+      offset: page * USERS_PAGE_SIZE,
+    });
+
+    if (total === 0 && page === 0) {
+      await ctx.editMessageText(
+        '👤 Статистика пользователя\n\nПока нет участников с сообщениями.',
+        Markup.inlineKeyboard([[Markup.button.callback('🔙 Назад', `stats:menu:${chatId}`)]])
+      );
+      return;
+    }
+
+    const pages = Math.max(1, Math.ceil(total / USERS_PAGE_SIZE));
+    const message =
+      `👤 Статистика пользователя\n\nВыберите участника (страница ${page + 1} из ${pages}).\n` +
+      'Можно и командой: /stats @username';
+    await ctx.editMessageText(message, createUserListKeyboard(chatId, users, page, total));
   } catch (error) {
     console.error('Ошибка в handleUserStats:', error);
     await ctx.editMessageText('Произошла ошибка.');
@@ -172,17 +583,12 @@ export async function handlePeriodSelection(ctx: Context, chatId: number, period
     const stats = await StatsService.getChatStats(chatId, period);
     const message = formatGeneralStats(stats, period);
 
-    try {
-      await ctx.editMessageText(message, createPeriodButtons(chatId, period));
-    } catch (editError: any) {
-      // Обработка ошибки "message is not modified" - это нормально, если пользователь выбрал тот же период
-      if (editError.response?.error_code === 400 && editError.response?.description?.includes('message is not modified')) {
-        console.log(`ℹ️ Сообщение не изменено (пользователь выбрал тот же период: ${period})`);
-        // Можно попробовать отправить новое сообщение или просто игнорировать
-        return;
-      }
-      throw editError;
+    const edited = await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, 'period', await Chat.getTimeZone(chatId)));
+    if (!edited) {
+      return;
     }
+    // Графики за выбранный период - альбомом под текстом, как у /stats <период>
+    await sendCharts(ctx, chatId, period, stats).catch((error) => console.error('Не удалось отправить графики:', error));
   } catch (error) {
     console.error('Ошибка в handlePeriodSelection:', error);
     if (error instanceof Error) {
@@ -201,39 +607,240 @@ export async function handlePeriodSelection(ctx: Context, chatId: number, period
 }
 
 /**
- * Обработчик выбора периода для статистики пользователя
+ * Обработчик inline-кнопки "Взаимодействия" и выбора периода для неё
  */
-export async function handleUserPeriodSelection(ctx: Context, chatId: number, period: string, userId?: number) {
+export async function handleInteractions(ctx: Context, chatId: number, period: string = 'all') {
   try {
-    // Если userId не указан, используем ID отправителя
-    const targetUserId = userId || (ctx.from?.id);
-    
-    if (!targetUserId) {
-      await ctx.editMessageText('Не удалось определить пользователя.');
-      return;
+    const result = await StatsService.getInteractions(chatId, period);
+    const message = formatInteractions(result, period);
+
+    await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, 'interactions', await Chat.getTimeZone(chatId)));
+  } catch (error) {
+    console.error('Ошибка в handleInteractions:', error);
+    try {
+      await ctx.editMessageText('❌ Произошла ошибка при получении взаимодействий. Попробуйте позже.');
+    } catch (editError) {
+      if (ctx.reply) {
+        await ctx.reply('❌ Произошла ошибка при получении взаимодействий. Попробуйте позже.');
+      }
     }
+  }
+}
+
+/**
+ * Обработчик inline-кнопки "Реакции" и выбора периода для неё
+ */
+export async function handleReactionStats(ctx: Context, chatId: number, period: string = 'all') {
+  try {
+    const result = await StatsService.getReactionStats(chatId, period);
+    const message = formatReactionStats(result, period);
+
+    await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, 'reactions', await Chat.getTimeZone(chatId)));
+  } catch (error) {
+    console.error('Ошибка в handleReactionStats:', error);
+    try {
+      await ctx.editMessageText('❌ Произошла ошибка при получении реакций. Попробуйте позже.');
+    } catch (editError) {
+      if (ctx.reply) {
+        await ctx.reply('❌ Произошла ошибка при получении реакций. Попробуйте позже.');
+      }
+    }
+  }
+}
+
+/**
+ * Обработчик inline-кнопки "Участники" и выбора периода для неё
+ */
+export async function handleMemberStats(ctx: Context, chatId: number, period: string = 'all') {
+  try {
+    const result = await StatsService.getMemberStats(chatId, period);
+    const message = formatMemberStats(result, period);
+
+    await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, 'members', result.timeZone));
+  } catch (error) {
+    console.error('Ошибка в handleMemberStats:', error);
+    try {
+      await ctx.editMessageText('❌ Произошла ошибка при получении статистики участников. Попробуйте позже.');
+    } catch (editError) {
+      if (ctx.reply) {
+        await ctx.reply('❌ Произошла ошибка при получении статистики участников. Попробуйте позже.');
+      }
+    }
+  }
+}
+
+/**
+ * Обработчик выбора участника и периода для статистики пользователя
+ * userId - id из таблицы users
+ */
+export async function handleUserPeriodSelection(ctx: Context, chatId: number, userId: number, period: string) {
+  try {
+    const stats = await StatsService.getUserStats(chatId, userId, period);
 
-    const stats = await StatsService.getUserStats(chatId, targetUserId, period);
-    
     if (!stats) {
       await ctx.editMessageText('Пользователь не найден в базе данных.');
       return;
     }
 
     const message = formatUserStats(stats, period);
-    await ctx.editMessageText(message, createPeriodButtons(chatId, period));
+
+    await safeEditMessage(ctx, message, createPeriodButtons(chatId, period, `user:${userId}`, stats.timeZone));
   } catch (error) {
     console.error('Ошибка в handleUserPeriodSelection:', error);
     await ctx.editMessageText('Произошла ошибка при получении статистики пользователя.');
   }
 }
 
+/**
+ * Сообщение с кнопкой - картинка (тепловая карта), а не текст
+ */
+function isPhotoMessage(ctx: Context): boolean {
+  const message = ctx.callbackQuery?.message;
+  return !!message && 'photo' in message;
+}
+
+/**
+ * Telegram отвечает 400 "message is not modified", если содержимое не изменилось:
+ * пользователь повторно нажал тот же период или тот же день календаря
+ */
+function isMessageNotModified(error: any): boolean {
+  return error?.response?.error_code === 400 && !!error.response.description?.includes('message is not modified');
+}
+
+/**
+ * Заменить текст сообщения меню (у картинки - подпись) вместе с кнопками
+ * false - содержимое не изменилось, и повторять следом ничего не нужно
+ */
+async function safeEditMessage(
+  ctx: Context,
+  text: string,
+  keyboard?: ReturnType<typeof Markup.inlineKeyboard>
+): Promise<boolean> {
+  try {
+    if (isPhotoMessage(ctx)) {
+      await ctx.editMessageCaption(text, keyboard);
+    } else {
+      await ctx.editMessageText(text, keyboard);
+    }
+    return true;
+  } catch (error) {
+    if (isMessageNotModified(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Обработчик inline-кнопки "Активность по часам" и выбора периода для неё
+ * Карта - картинка: из текстового меню отправляется новым сообщением, дальше периоды меняют саму картинку.
+ * userId - id из таблицы users; без него - карта всего чата
+ */
+export async function handleHeatmap(ctx: Context, chatId: number, period: string = 'all', userId?: number) {
+  try {
+    const result = await StatsService.getHeatmap(chatId, period, userId);
+    if (!result) {
+      await ctx.answerCbQuery('Пользователь не найден в базе данных.');
+      return;
+    }
+
+    const caption = formatHeatmapCaption(result, period);
+    const photo = { source: ChartService.renderHeatmap(result.cells) };
+    const keyboard = createPeriodButtons(
+      chatId,
+      period,
+      userId !== undefined ? `hours:${userId}` : 'hours',
+      await Chat.getTimeZone(chatId)
+    );
+
+    if (!isPhotoMessage(ctx)) {
+      await ctx.replyWithPhoto(photo, { caption, ...keyboard });
+      await ctx.answerCbQuery();
+      return;
+    }
+
+    await ctx.editMessageMedia({ type: 'photo', media: photo, caption }, keyboard).catch((error) => {
+      if (!isMessageNotModified(error)) {
+        throw error;
+      }
+    });
+  } catch (error) {
+    console.error('Ошибка в handleHeatmap:', error);
+    if (ctx.reply) {
+      await ctx.reply('❌ Произошла ошибка при построении тепловой карты. Попробуйте позже.');
+    }
+  }
+}
+
+/**
+ * Отправить графики общей статистики альбомом; false - за период нет сообщений и рисовать нечего
+ */
+async function sendCharts(
+  ctx: Context,
+  chatId: number,
+  period: string,
+  stats: Awaited<ReturnType<typeof StatsService.getChatStats>>
+): Promise<boolean> {
+  if (stats.totalMessages === 0) {
+    return false;
+  }
+  const charts = await StatsService.getChatCharts(chatId, period);
+  await ctx.replyWithMediaGroup([
+    { type: 'photo', media: { source: charts.topUsers }, caption: formatChartsCaption(stats, period) },
+    { type: 'photo', media: { source: charts.daily } },
+    { type: 'photo', media: { source: charts.heatmap } },
+  ]);
+  return true;
+}
+
+/**
+ * Обработчик кнопки "Графики" под общей статистикой: прислать альбом ещё раз, текст остаётся как есть
+ */
+export async function handleCharts(ctx: Context, chatId: number, period: string = 'all') {
+  try {
+    const stats = await StatsService.getChatStats(chatId, period);
+    const sent = await sendCharts(ctx, chatId, period, stats);
+    await ctx.answerCbQuery(sent ? undefined : 'Пока нет сообщений за этот период.');
+  } catch (error) {
+    console.error('Ошибка в handleCharts:', error);
+    if (ctx.reply) {
+      await ctx.reply('❌ Произошла ошибка при построении графиков. Попробуйте позже.');
+    }
+  }
+}
+
+/**
+ * Обработчик календаря: листание месяцев и выбор начала периода
+ * Выбор конца периода обрабатывает кнопка периода раздела action
+ */
+export async function handleCalendar(ctx: Context, chatId: number, action: string, month: string, start?: string) {
+  try {
+    const timeZone = await Chat.getTimeZone(chatId);
+    const startDate = start ? parseIsoDate(start, timeZone) : null;
+    const message = startDate
+      ? `🗓 Начало периода: ${formatDate(startDate, timeZone)}\n\nВыберите последний день:`
+      : '🗓 Выберите первый день периода:';
+    const keyboard = createCalendarKeyboard(chatId, action, month, startDate ? start : undefined, new Date(), timeZone);
+
+    // Под тепловой картой календарь показывается в подписи к картинке
+    await safeEditMessage(ctx, message, keyboard);
+  } catch (error) {
+    console.error('Ошибка в handleCalendar:', error);
+  }
+}
+
 /**
  * Обработчик кнопки "Назад"
  */
 export async function handleBackToMenu(ctx: Context, chatId: number) {
   try {
     const message = `📊 Статистика чата\n\nВыберите опцию:`;
+    // Картинку нельзя превратить в текст: вместо тепловой карты отправляем меню заново
+    if (isPhotoMessage(ctx)) {
+      await ctx.deleteMessage().catch((error) => console.error('Не удалось удалить тепловую карту:', error));
+      await ctx.reply(message, createStatsMenu(chatId));
+      return;
+    }
     await ctx.editMessageText(message, createStatsMenu(chatId));
   } catch (error) {
     console.error('Ошибка в handleBackToMenu:', error);
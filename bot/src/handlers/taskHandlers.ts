@@ -0,0 +1,230 @@
+import { Context, Markup } from 'telegraf';
+import { Task, TaskData, TaskStatus } from '../models/Task';
+import { Message } from '../models/Message';
+import { User } from '../models/User';
+import { Chat } from '../models/Chat';
+import { formatDate, parseIsoDate } from '../services/periodParser';
+import { toZonedDateKey } from '../services/timeZone';
+
+// Сколько задач на странице (у каждой задачи своя строка кнопок)
+const PAGE_SIZE = 5;
+// Сколько самых активных участников предлагать при передаче задачи
+const ASSIGNEE_CHOICES = 8;
+
+/**
+ * Строка задачи: номер, текст, ответственный, срок и исходное сообщение
+ */
+function formatTask(task: TaskData, position: number, today: string): string {
+  let line = `${position}. ${task.text}`;
+  if (task.assignee_name) {
+    line += ` — ${task.assignee_name}`;
+  }
+  if (task.due_date) {
+    const due = parseIsoDate(task.due_date);
+    const overdue = task.status === 'open' && task.due_date < today;
+    line += ` · ${overdue ? '⚠️ просрочено, ' : ''}до ${due ? formatDate(due) : task.due_date}`;
+  }
+  if (task.source_message_id) {
+    line += ` (#${task.source_message_id})`;
+  }
+  return line;
+}
+
+/**
+ * Текст списка задач
+ */
+function formatTaskList(tasks: TaskData[], status: TaskStatus, page: number, total: number, timeZone: string): string {
+  const title = status === 'open' ? '📌 Открытые задачи' : '✅ Выполненные задачи';
+  if (tasks.length === 0) {
+    return status === 'open'
+      ? `${title}\n\nОткрытых задач нет 🎉 Задачи появляются из action items в /digest.`
+      : `${title}\n\nВыполненных задач пока нет.`;
+  }
+
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+  // Сегодняшняя дата YYYY-MM-DD по часам чата (строки сравниваются с due_date)
+  const today = toZonedDateKey(new Date(), timeZone);
+  const lines = tasks.map((task, index) => formatTask(task, page * PAGE_SIZE + index + 1, today));
+  return `${title} · ${total}${pageCount > 1 ? ` (стр. ${page + 1} из ${pageCount})` : ''}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Кнопки списка: действия с каждой задачей, пагинация и переключение открытые / выполненные
+ */
+function createTaskListButtons(chatId: number, tasks: TaskData[], status: TaskStatus, page: number, total: number) {
+  const rows = tasks.map((task, index) => {
+    const position = page * PAGE_SIZE + index + 1;
+    return status === 'open'
+      ? [
+          Markup.button.callback(`✅ Готово №${position}`, `tasks:done:${task.id}:${page}`),
+          Markup.button.callback(`👤 Передать №${position}`, `tasks:reassign:${task.id}:${page}`),
+        ]
+      : [Markup.button.callback(`↩️ Вернуть №${position}`, `tasks:reopen:${task.id}:${page}`)];
+  });
+
+  const paging = [];
+  if (page > 0) {
+    paging.push(Markup.button.callback('◀️ Назад', `tasks:list:${chatId}:${status}:${page - 1}`));
+  }
+  if ((page + 1) * PAGE_SIZE < total) {
+    paging.push(Markup.button.callback('Вперёд ▶️', `tasks:list:${chatId}:${status}:${page + 1}`));
+  }
+  if (paging.length > 0) {
+    rows.push(paging);
+  }
+
+  rows.push([
+    status === 'open'
+      ? Markup.button.callback('✅ Выполненные', `tasks:list:${chatId}:done:0`)
+      : Markup.button.callback('📌 Открытые', `tasks:list:${chatId}:open:0`),
+  ]);
+  return Markup.inlineKeyboard(rows);
+}
+
+/**
+ * Загрузить страницу задач; если страница опустела (последнюю задачу закрыли) - показать предыдущую
+ */
+async function loadTaskPage(chatId: number, status: TaskStatus, page: number) {
+  const total = await Task.countByChatId(chatId, status);
+  const lastPage = Math.max(0, Math.ceil(total / PAGE_SIZE) - 1);
+  const safePage = Math.min(page, lastPage);
+  const tasks = await Task.findByChatId(chatId, { status, limit: PAGE_SIZE, offset: safePage * PAGE_SIZE });
+  const timeZone = await Chat.getTimeZone(chatId);
+  return {
+    text: formatTaskList(tasks, status, safePage, total, timeZone),
+    keyboard: createTaskListButtons(chatId, tasks, status, safePage, total),
+  };
+}
+
+/**
+ * Задача из callback'а, если она принадлежит текущему чату
+ */
+async function findChatTask(ctx: Context, taskId: number): Promise<TaskData | null> {
+  const task = await Task.findById(taskId);
+  if (!task || task.chat_id !== ctx.chat?.id) {
+    await ctx.answerCbQuery('Задача не найдена в этом чате.');
+    return null;
+  }
+  return task;
+}
+
+/**
+ * Обработчик команды /tasks - открытые задачи чата (/tasks done - выполненные)
+ */
+export async function handleTasksCommand(ctx: Context) {
+  try {
+    if (!ctx.chat || (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup')) {
+      await ctx.reply('❌ Задачи доступны только в групповых чатах.');
+      return;
+    }
+
+    const chatId = ctx.chat.id;
+    const commandText = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+    const status: TaskStatus = /\s(done|выполненные)\b/i.test(commandText) ? 'done' : 'open';
+    console.log(`📌 Команда /tasks получена от пользователя ${ctx.from?.id} в чате ${chatId} (${status})`);
+
+    const { text, keyboard } = await loadTaskPage(chatId, status, 0);
+    await ctx.reply(text, keyboard);
+  } catch (error) {
+    console.error('❌ Ошибка в handleTasksCommand:', error);
+    if (ctx.reply) {
+      await ctx.reply('Произошла ошибка при получении задач.');
+    }
+  }
+}
+
+/**
+ * Обработчик кнопок пагинации и переключения списков задач
+ */
+export async function handleTaskListPage(ctx: Context, chatId: number, status: TaskStatus, page: number) {
+  try {
+    if (ctx.chat?.id !== chatId) {
+      await ctx.answerCbQuery('Задачи доступны только в своём чате.');
+      return;
+    }
+
+    const { text, keyboard } = await loadTaskPage(chatId, status, page);
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(text, keyboard);
+  } catch (error) {
+    console.error('❌ Ошибка в handleTaskListPage:', error);
+  }
+}
+
+/**
+ * Обработчик кнопок "Готово" и "Вернуть"
+ */
+export async function handleTaskStatusChange(ctx: Context, taskId: number, status: TaskStatus, page: number) {
+  try {
+    const task = await findChatTask(ctx, taskId);
+    if (!task) {
+      return;
+    }
+
+    await Task.setStatus(taskId, status, ctx.from?.id ?? null);
+    console.log(`📌 Задача #${taskId} в чате ${task.chat_id}: ${status} (пользователь ${ctx.from?.id})`);
+
+    // Список остаётся тем же, из которого нажали кнопку: открытые после "Готово", выполненные после "Вернуть"
+    const listStatus: TaskStatus = status === 'done' ? 'open' : 'done';
+    const { text, keyboard } = await loadTaskPage(task.chat_id, listStatus, page);
+    await ctx.answerCbQuery(status === 'done' ? '✅ Задача выполнена' : '↩️ Задача снова открыта');
+    await ctx.editMessageText(text, keyboard);
+  } catch (error) {
+    console.error('❌ Ошибка в handleTaskStatusChange:', error);
+  }
+}
+
+/**
+ * Обработчик кнопки "Передать": выбор нового ответственного из активных участников чата
+ */
+export async function handleTaskReassignMenu(ctx: Context, taskId: number, page: number) {
+  try {
+    const task = await findChatTask(ctx, taskId);
+    if (!task) {
+      return;
+    }
+
+    const participants = await Message.getTopUsersByMessageCount(ASSIGNEE_CHOICES, { chatId: task.chat_id });
+    const buttons = participants.map((user) => [
+      Markup.button.callback(
+        user.username ? `@${user.username}` : user.first_name || 'Неизвестный',
+        `tasks:assign:${taskId}:${user.user_id}:${page}`,
+      ),
+    ]);
+    buttons.push([Markup.button.callback('🚫 Без ответственного', `tasks:assign:${taskId}:0:${page}`)]);
+    buttons.push([Markup.button.callback('◀️ К задачам', `tasks:list:${task.chat_id}:open:${page}`)]);
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(`👤 Кому передать задачу?\n\n${task.text}`, Markup.inlineKeyboard(buttons));
+  } catch (error) {
+    console.error('❌ Ошибка в handleTaskReassignMenu:', error);
+  }
+}
+
+/**
+ * Обработчик выбора нового ответственного (userId - id в таблице users, 0 - снять ответственного)
+ */
+export async function handleTaskAssign(ctx: Context, taskId: number, userId: number, page: number) {
+  try {
+    const task = await findChatTask(ctx, taskId);
+    if (!task) {
+      return;
+    }
+
+    const user = userId ? await User.findById(userId) : null;
+    if (userId && !user) {
+      await ctx.answerCbQuery('Пользователь не найден.');
+      return;
+    }
+
+    const name = user ? (user.username ? `@${user.username}` : user.first_name || 'Неизвестный') : null;
+    await Task.reassign(taskId, user && name ? { telegram_id: user.telegram_id, name } : null);
+    console.log(`📌 Задача #${taskId} в чате ${task.chat_id} передана: ${name ?? 'без ответственного'}`);
+
+    const { text, keyboard } = await loadTaskPage(task.chat_id, 'open', page);
+    await ctx.answerCbQuery(name ? `👤 Ответственный: ${name}` : '🚫 Ответственный снят');
+    await ctx.editMessageText(text, keyboard);
+  } catch (error) {
+    console.error('❌ Ошибка в handleTaskAssign:', error);
+  }
+}
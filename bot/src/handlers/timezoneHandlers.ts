@@ -0,0 +1,94 @@
+import { Context } from 'telegraf';
+import { Chat } from '../models/Chat';
+import { DailyStats } from '../models/DailyStats';
+import { StatsService } from '../services/statsService';
+import { normalizeTimeZone } from '../config/timeZone';
+import { formatDate } from '../services/periodParser';
+import { canManageChat } from './digestHandlers';
+
+const TIMEZONE_USAGE =
+  'Использование:\n' +
+  '• /timezone - текущий часовой пояс чата\n' +
+  '• /timezone Europe/Moscow - сменить пояс (IANA-имя: Asia/Dushanbe, Asia/Tashkent, UTC)';
+
+/**
+ * Текущее время чата: "19.10.2026 14:05"
+ */
+function formatLocalTime(timeZone: string, now: Date = new Date()): string {
+  return now.toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+}
+
+/**
+ * Обработчик команды /timezone
+ * В поясе чата считаются "сегодня", неделя и месяц в /stats и /digest, тепловая карта,
+ * графики по дням и время автоматического дайджеста.
+ * После смены пояса агрегаты чата раскладываются по дням заново, а кэш статистики сбрасывается
+ */
+export async function handleTimezoneCommand(ctx: Context) {
+  try {
+    if (!ctx.chat || (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup')) {
+      await ctx.reply('❌ Часовой пояс настраивается только в групповых чатах.');
+      return;
+    }
+    if (!ctx.message || !('text' in ctx.message)) {
+      return;
+    }
+
+    const chatId = ctx.chat.id;
+    const argument = ctx.message.text.split(/\s+/)[1];
+
+    console.log(`🕐 Команда /timezone ${argument ?? ''} от пользователя ${ctx.from?.id} в чате ${chatId}`);
+
+    const current = await Chat.getTimeZone(chatId);
+    if (!argument) {
+      await ctx.reply(`🕐 Часовой пояс чата: ${current} (сейчас ${formatLocalTime(current)}).\n\n${TIMEZONE_USAGE}`);
+      return;
+    }
+
+    if (!(await canManageChat(ctx))) {
+      await ctx.reply('⛔ Менять часовой пояс могут только администраторы чата.');
+      return;
+    }
+
+    const timeZone = normalizeTimeZone(argument);
+    if (!timeZone) {
+      await ctx.reply(`❌ Неизвестный часовой пояс: ${argument}\n\n${TIMEZONE_USAGE}`);
+      return;
+    }
+    if (timeZone === current) {
+      await ctx.reply(`🕐 Часовой пояс чата и так ${timeZone}.`);
+      return;
+    }
+
+    if (!(await Chat.updateSettings(chatId, { timezone: timeZone }))) {
+      await ctx.reply('❌ Чат ещё не сохранён в базе. Напишите в него сообщение и повторите команду.');
+      return;
+    }
+
+    const message = await ctx.reply(`⏳ Часовой пояс изменён на ${timeZone}. Пересчитываю статистику чата по новым дням…`);
+    const result = await DailyStats.backfill({ chatId });
+    await StatsService.clearCache(chatId);
+    console.log(`🕐 Часовой пояс чата ${chatId}: ${current} → ${timeZone}, пересчитано месяцев: ${result.batches}`);
+
+    const today = new Date();
+    await ctx.telegram.editMessageText(
+      chatId,
+      message.message_id,
+      undefined,
+      `✅ Часовой пояс чата: ${timeZone} (сейчас ${formatLocalTime(timeZone, today)}).\n` +
+        `Сегодня для статистики и дайджестов — ${formatDate(today, timeZone)}.`,
+    );
+  } catch (error) {
+    console.error('❌ Ошибка в handleTimezoneCommand:', error);
+    if (ctx.reply) {
+      await ctx.reply('Произошла ошибка при смене часового пояса.');
+    }
+  }
+}
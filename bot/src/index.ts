@@ -8,6 +8,9 @@ import { Telegraf, Context } from 'telegraf';
 import { connectRedis, testPostgresConnection } from './config/database';
 import { User } from './models/User';
 import { Message } from './models/Message';
+import { Reaction } from './models/Reaction';
+import { Chat } from './models/Chat';
+import { ChatMember } from './models/ChatMember';
 import {
   handleStatsCommand,
   handleGeneralStats,
@@ -15,10 +18,34 @@ import {
   handlePeriodSelection,
   handleUserPeriodSelection,
   handleBackToMenu,
+  handleInteractions,
+  handleReactionStats,
+  handleMemberStats,
+  handleCalendar,
+  handleHeatmap,
+  handleCharts,
 } from './handlers/statsHandlers';
 import { handleAnalyzeCommand } from './handlers/analyzeHandlers';
-import { handleDigestCommand } from './handlers/digestHandlers';
-import { GeminiService } from './services/geminiService';
+import {
+  formatDigestMessage,
+  handleDigestCommand,
+  handleDigestHistoryCommand,
+  handleDigestHistoryPage,
+  handleDigestScheduleCommand,
+} from './handlers/digestHandlers';
+import { handleHistoryCommand } from './handlers/historyHandlers';
+import { handleTimezoneCommand } from './handlers/timezoneHandlers';
+import {
+  handleTaskAssign,
+  handleTaskListPage,
+  handleTaskReassignMenu,
+  handleTasksCommand,
+  handleTaskStatusChange,
+} from './handlers/taskHandlers';
+import { LLMService } from './services/llmService';
+import { StatsService } from './services/statsService';
+import { DigestScheduler } from './services/digestScheduler';
+import { extractMessageContent, extractMessageLinks, reactionKey } from './services/messageContent';
 
 // Проверяем наличие обязательных переменных окружения
 if (!process.env.BOT_TOKEN) {
@@ -41,34 +68,149 @@ bot.command('stats', handleStatsCommand);
 // Команда /analyze - анализ пользователя
 bot.command('analyze', handleAnalyzeCommand);
 
+// Команда /history - история анализов пользователя
+bot.command('history', handleHistoryCommand);
+
 // Команда /digest - дневной дайджест чата
 bot.command('digest', handleDigestCommand);
 
+// Команда /digest_schedule - автоматический ежедневный дайджест
+bot.command('digest_schedule', handleDigestScheduleCommand);
+
+// Команда /digest_history - архив дайджестов чата
+bot.command('digest_history', handleDigestHistoryCommand);
+
+// Команда /tasks - задачи из дайджестов
+bot.command('tasks', handleTasksCommand);
+
+// Команда /timezone - часовой пояс чата для статистики и дайджестов
+bot.command('timezone', handleTimezoneCommand);
+
 // Обработчики inline-кнопок для статистики
 bot.action(/^stats:general:(-?\d+)$/, async (ctx) => {
   const chatId = parseInt(ctx.match[1]);
   await handleGeneralStats(ctx, chatId);
 });
 
-bot.action(/^stats:user:(-?\d+)$/, async (ctx) => {
+// Список участников для статистики пользователя (постранично)
+bot.action(/^stats:user:(-?\d+)(?::page:(\d+))?$/, async (ctx) => {
   const chatId = parseInt(ctx.match[1]);
-  await handleUserStats(ctx, chatId);
+  await handleUserStats(ctx, chatId, ctx.match[2] ? parseInt(ctx.match[2]) : 0);
+});
+
+// Статистика выбранного участника: stats:user:<userId>:<chatId>:<период>
+bot.action(/^stats:user:(\d+):(-?\d+):(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+  const userId = parseInt(ctx.match[1]);
+  const chatId = parseInt(ctx.match[2]);
+  await handleUserPeriodSelection(ctx, chatId, userId, ctx.match[3]);
 });
 
-bot.action(/^stats:period:(-?\d+):(\w+)$/, async (ctx) => {
+// Период - готовый (today, week...) или диапазон дат из календаря
+bot.action(/^stats:period:(-?\d+):(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2})$/, async (ctx) => {
   const chatId = parseInt(ctx.match[1]);
   const period = ctx.match[2];
   await handlePeriodSelection(ctx, chatId, period);
 });
 
+bot.action(/^stats:interactions:(-?\d+)(?::(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2}))?$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  await handleInteractions(ctx, chatId, ctx.match[2] || 'all');
+});
+
+bot.action(/^stats:reactions:(-?\d+)(?::(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2}))?$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  await handleReactionStats(ctx, chatId, ctx.match[2] || 'all');
+});
+
+bot.action(/^stats:members:(-?\d+)(?::(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2}))?$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  await handleMemberStats(ctx, chatId, ctx.match[2] || 'all');
+});
+
+// Тепловая карта чата stats:hours:<chatId>[:<период>] или участника stats:hours:<userId>:<chatId>:<период>
+bot.action(/^stats:hours:(?:(\d+):)?(-?\d+)(?::(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2}))?$/, async (ctx) => {
+  const userId = ctx.match[1] ? parseInt(ctx.match[1]) : undefined;
+  const chatId = parseInt(ctx.match[2]);
+  await handleHeatmap(ctx, chatId, ctx.match[3] || 'all', userId);
+});
+
+// Графики общей статистики: stats:charts:<chatId>:<период>
+bot.action(/^stats:charts:(-?\d+):(today|week|month|all|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  await handleCharts(ctx, chatId, ctx.match[2]);
+});
+
+// Календарь: месяц и, если уже выбрано, начало периода
+bot.action(/^stats:cal:(period|interactions|reactions|members|hours|user:\d+|hours:\d+):(-?\d+):(\d{4}-\d{2})(?::(\d{4}-\d{2}-\d{2}))?$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[2]);
+  await handleCalendar(ctx, chatId, ctx.match[1], ctx.match[3], ctx.match[4]);
+});
+
+// Пустые клетки и заголовки календаря
+bot.action('stats:noop', (ctx) => ctx.answerCbQuery());
+
 bot.action(/^stats:menu:(-?\d+)$/, async (ctx) => {
   const chatId = parseInt(ctx.match[1]);
   await handleBackToMenu(ctx, chatId);
 });
 
-// Обработчик текстовых сообщений
+// Пагинация архива дайджестов
+bot.action(/^digest:history:(-?\d+):(\d+)$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  const page = parseInt(ctx.match[2]);
+  await handleDigestHistoryPage(ctx, chatId, page);
+});
+
+// Кнопки списка задач
+bot.action(/^tasks:list:(-?\d+):(open|done):(\d+)$/, async (ctx) => {
+  const chatId = parseInt(ctx.match[1]);
+  const status = ctx.match[2] as 'open' | 'done';
+  const page = parseInt(ctx.match[3]);
+  await handleTaskListPage(ctx, chatId, status, page);
+});
+
+bot.action(/^tasks:(done|reopen):(\d+):(\d+)$/, async (ctx) => {
+  const status = ctx.match[1] === 'done' ? 'done' : 'open';
+  const taskId = parseInt(ctx.match[2]);
+  const page = parseInt(ctx.match[3]);
+  await handleTaskStatusChange(ctx, taskId, status, page);
+});
+
+bot.action(/^tasks:reassign:(\d+):(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const page = parseInt(ctx.match[2]);
+  await handleTaskReassignMenu(ctx, taskId, page);
+});
+
+bot.action(/^tasks:assign:(\d+):(\d+):(\d+)$/, async (ctx) => {
+  const taskId = parseInt(ctx.match[1]);
+  const userId = parseInt(ctx.match[2]);
+  const page = parseInt(ctx.match[3]);
+  await handleTaskAssign(ctx, taskId, userId, page);
+});
+
+// Чаты, уже записанные в chats с момента запуска (чтобы не обновлять таблицу на каждое сообщение)
+const knownChats = new Set<number>();
+
+/**
+ * Запомнить чат при первом сообщении из него; дальше чат обновляют my_chat_member и смена названия
+ * Ошибка не мешает сохранить само сообщение
+ */
+async function rememberChat(chat: { id: number; type: string; title?: string; username?: string }) {
+  if (knownChats.has(chat.id)) {
+    return;
+  }
+  try {
+    await Chat.upsert({ chat_id: chat.id, title: chat.title, type: chat.type, username: chat.username });
+    knownChats.add(chat.id);
+  } catch (error) {
+    console.error(`❌ Ошибка при сохранении чата ${chat.id}:`, error);
+  }
+}
+
+// Обработчик сообщений: текст, фото, документы, голосовые, стикеры, опросы и т.д.
 // Сохраняет сообщения и пользователей в БД
-bot.on('text', async (ctx: Context) => {
+bot.on('message', async (ctx: Context) => {
   try {
     const message = ctx.message;
     
@@ -77,13 +219,46 @@ bot.on('text', async (ctx: Context) => {
       return;
     }
     
-    console.log(`📨 Получено текстовое сообщение. Chat type: ${ctx.chat?.type}, Chat ID: ${ctx.chat?.id}`);
+    console.log(`📨 Получено сообщение. Chat type: ${ctx.chat?.type}, Chat ID: ${ctx.chat?.id}`);
     
     // Проверяем, что сообщение из группового чата (не личное сообщение)
     // В групповых чатах chat.type будет 'group' или 'supergroup'
     if (ctx.chat && (ctx.chat.type === 'group' || ctx.chat.type === 'supergroup')) {
-      // Проверяем, что сообщение существует и это текстовое сообщение
-      if (message && 'text' in message && ctx.from) {
+      await rememberChat(ctx.chat);
+
+      if (message && 'new_chat_title' in message) {
+        await Chat.updateTitle(ctx.chat.id, message.new_chat_title);
+        console.log(`🏷 Чат ${ctx.chat.id} переименован: ${message.new_chat_title}`);
+        return;
+      }
+
+      // Вступления и выходы: то же событие может прийти и обновлением chat_member - повтор не запишется
+      if (message && ('new_chat_members' in message || 'left_chat_member' in message)) {
+        const date = new Date(message.date * 1000);
+        const changes =
+          'new_chat_members' in message
+            ? message.new_chat_members.map((member) => ({ member, status: 'member' as const }))
+            : [{ member: message.left_chat_member, status: 'left' as const }];
+        for (const { member, status } of changes) {
+          if (member.is_bot) {
+            continue;
+          }
+          const user = await User.findOrCreate({
+            telegram_id: member.id,
+            username: member.username || null,
+            first_name: member.first_name || null,
+            last_name: member.last_name || null,
+          });
+          await ChatMember.updateStatus(ctx.chat.id, user.id, status, date);
+          console.log(`👥 @${member.username || member.first_name} ${status === 'member' ? 'вступил в' : 'покинул'} чат ${ctx.chat.id}`);
+        }
+        await StatsService.clearCache(ctx.chat.id);
+        return;
+      }
+
+      // Служебные сообщения (закреп и т.п.) не сохраняем
+      const content = message ? extractMessageContent(message) : null;
+      if (message && content && ctx.from) {
         // Находим или создаем пользователя
         const user = await User.findOrCreate({
           telegram_id: ctx.from.id,
@@ -93,15 +268,24 @@ bot.on('text', async (ctx: Context) => {
         });
 
         // Сохраняем сообщение в БД
-        await Message.create({
+        const saved = await Message.create({
           user_id: user.id,
           telegram_message_id: message.message_id,
           chat_id: ctx.chat.id,
-          text: message.text,
+          text: content.text,
+          message_type: content.type,
+          media: content.media,
+          ...extractMessageLinks(message),
         });
 
+        // Статистика чата изменилась - сбрасываем кэш, чтобы /stats сразу учитывал сообщение
+        // (null - повторная доставка уже сохранённого сообщения)
+        if (saved) {
+          await StatsService.clearCache(ctx.chat.id);
+        }
+
         // Логируем для отладки (можно убрать в продакшене)
-        console.log(`💬 Сообщение сохранено: от @${ctx.from.username || ctx.from.first_name} в чате ${ctx.chat.id}`);
+        console.log(`💬 Сообщение (${content.type}) сохранено: от @${ctx.from.username || ctx.from.first_name} в чате ${ctx.chat.id}`);
       } else {
         console.log(`⚠️ Сообщение не подходит для сохранения. Message: ${message ? 'exists' : 'null'}, From: ${ctx.from ? 'exists' : 'null'}`);
       }
@@ -114,6 +298,137 @@ bot.on('text', async (ctx: Context) => {
   }
 });
 
+// Обработчик отредактированных сообщений
+// Обновляет текст в messages, предыдущая версия сохраняется в message_revisions
+bot.on('edited_message', async (ctx) => {
+  try {
+    const message = ctx.editedMessage;
+    if (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup') {
+      return;
+    }
+
+    const content = extractMessageContent(message);
+    if (!content) {
+      return;
+    }
+
+    const updated = await Message.applyEdit({
+      telegram_message_id: message.message_id,
+      chat_id: ctx.chat.id,
+      text: content.text,
+      media: content.media,
+      edited_at: new Date((message.edit_date ?? message.date) * 1000),
+    });
+
+    if (updated) {
+      await StatsService.clearCache(ctx.chat.id);
+      console.log(`✏️ Сообщение ${message.message_id} в чате ${ctx.chat.id} отредактировано (правок: ${updated.edit_count})`);
+    } else {
+      console.log(`⚠️ Правка сообщения ${message.message_id} в чате ${ctx.chat.id}: исходного сообщения нет в БД`);
+    }
+  } catch (error) {
+    console.error('❌ Ошибка при сохранении правки сообщения:', error);
+  }
+});
+
+// Бота добавили в чат, повысили до администратора или удалили
+bot.on('my_chat_member', async (ctx) => {
+  try {
+    const update = ctx.myChatMember;
+    const chat = update.chat;
+    const status = update.new_chat_member.status;
+    await Chat.setBotStatus(
+      {
+        chat_id: chat.id,
+        title: 'title' in chat ? chat.title : null,
+        type: chat.type,
+        username: 'username' in chat ? chat.username : null,
+      },
+      status,
+    );
+    knownChats.add(chat.id);
+    console.log(`🤖 Статус бота в чате ${chat.id}: ${update.old_chat_member.status} → ${status}`);
+  } catch (error) {
+    console.error('❌ Ошибка при обновлении статуса бота в чате:', error);
+  }
+});
+
+// Статус участника изменился: вступил, вышел, удалён, получил ограничения
+// Приходит, только если бот - администратор чата
+bot.on('chat_member', async (ctx) => {
+  try {
+    const update = ctx.chatMember;
+    const member = update.new_chat_member;
+    if (update.chat.type !== 'group' && update.chat.type !== 'supergroup') {
+      return;
+    }
+    if (member.user.is_bot) {
+      return;
+    }
+
+    const user = await User.findOrCreate({
+      telegram_id: member.user.id,
+      username: member.user.username || null,
+      first_name: member.user.first_name || null,
+      last_name: member.user.last_name || null,
+    });
+
+    // Ограниченный участник может уже не состоять в чате (is_member = false)
+    const status = member.status === 'restricted' && !member.is_member ? 'left' : member.status;
+    await ChatMember.updateStatus(update.chat.id, user.id, status, new Date(update.date * 1000));
+    await StatsService.clearCache(update.chat.id);
+    console.log(`👥 Участник @${member.user.username || member.user.first_name} в чате ${update.chat.id}: ${update.old_chat_member.status} → ${status}`);
+  } catch (error) {
+    console.error('❌ Ошибка при обновлении участника чата:', error);
+  }
+});
+
+// Реакции участников: Telegram присылает полный новый набор реакций пользователя на сообщение
+// Приходят, только если бот - администратор чата
+bot.on('message_reaction', async (ctx) => {
+  try {
+    const update = ctx.messageReaction;
+    // Анонимные администраторы реагируют от имени чата - такие реакции не привязать к участнику
+    if (!update.user) {
+      return;
+    }
+
+    const user = await User.findOrCreate({
+      telegram_id: update.user.id,
+      username: update.user.username || null,
+      first_name: update.user.first_name || null,
+      last_name: update.user.last_name || null,
+    });
+
+    await Reaction.setUserReactions({
+      chat_id: update.chat.id,
+      telegram_message_id: update.message_id,
+      user_id: user.id,
+      emojis: [...new Set(update.new_reaction.map(reactionKey))],
+      date: new Date(update.date * 1000),
+    });
+    await StatsService.clearCache(update.chat.id);
+  } catch (error) {
+    console.error('❌ Ошибка при сохранении реакции:', error);
+  }
+});
+
+// Анонимные реакции (например, в каналах): только счётчики по эмодзи
+bot.on('message_reaction_count', async (ctx) => {
+  try {
+    const update = ctx.messageReactionCount;
+    await Reaction.setCounts(
+      update.chat.id,
+      update.message_id,
+      update.reactions.map((reaction) => ({ emoji: reactionKey(reaction.type), total_count: reaction.total_count })),
+      new Date(update.date * 1000),
+    );
+    await StatsService.clearCache(update.chat.id);
+  } catch (error) {
+    console.error('❌ Ошибка при сохранении счётчиков реакций:', error);
+  }
+});
+
 // Обработка ошибок
 bot.catch((err, ctx) => {
   console.error('Ошибка в боте:', err);
@@ -131,8 +446,8 @@ async function initialize() {
     // Подключаемся к Redis
     await connectRedis();
     
-    // Инициализируем Gemini API
-    GeminiService.initialize();
+    // Проверяем, какие LLM-провайдеры настроены
+    LLMService.logAvailability();
     
     console.log('✅ Все подключения установлены');
   } catch (error) {
@@ -154,7 +469,23 @@ async function startBot() {
     
     // Запускаем бота
     console.log('⏳ Вызываю bot.launch()...');
-    await bot.launch();
+    // bot.launch() не завершается, пока работает polling, поэтому планировщик запускаем до него
+    DigestScheduler.start(async (chatId, digest, period) => {
+      await bot.telegram.sendMessage(chatId, formatDigestMessage(digest, period.label, chatId), { parse_mode: 'Markdown' });
+    });
+
+    // Реакции и chat_member не входят в обновления по умолчанию - их нужно запросить явно (список заменяет стандартный)
+    await bot.launch({
+      allowedUpdates: [
+        'message',
+        'edited_message',
+        'callback_query',
+        'my_chat_member',
+        'chat_member',
+        'message_reaction',
+        'message_reaction_count',
+      ],
+    });
     console.log('🤖 Бот успешно запущен и готов к работе!');
   } catch (error) {
     console.error('❌ Ошибка при запуске бота:', error);
@@ -172,6 +503,7 @@ startBot();
 // Graceful shutdown (корректное завершение работы)
 async function shutdown() {
   console.log('🛑 Остановка бота...');
+  DigestScheduler.stop();
   await bot.stop();
   process.exit(0);
 }
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Chat } from './Chat';
+
+// Мокаем pgPool
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+  },
+}));
+
+describe('Chat Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('должен запоминать чат, не затирая известное название пустым', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [{ chat_id: -100, title: 'Команда' }] } as any);
+
+    await Chat.upsert({ chat_id: -100, type: 'supergroup' });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('title = COALESCE(EXCLUDED.title, chats.title)');
+    expect(query).not.toContain('bot_status = ');
+    expect(params).toEqual([-100, null, 'supergroup', null]);
+  });
+
+  it('должен отмечать бота администратором для creator и administrator', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValue({ rows: [{}] } as any);
+    const chat = { chat_id: -100, title: 'Команда', type: 'supergroup' };
+
+    await Chat.setBotStatus(chat, 'administrator');
+    await Chat.setBotStatus(chat, 'left');
+
+    const calls = vi.mocked(pgPool.query).mock.calls as unknown as Array<[string, unknown[]]>;
+    expect(calls[0][1]).toEqual([-100, 'Команда', 'supergroup', null, 'administrator', true]);
+    expect(calls[1][1]).toEqual([-100, 'Команда', 'supergroup', null, 'left', false]);
+  });
+
+  it('должен дополнять настройки, а не заменять их целиком', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const result = await Chat.updateSettings(-100, { language: 'ru' });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('settings = settings || $2::jsonb');
+    expect(params).toEqual([-100, '{"language":"ru"}']);
+    expect(result).toBeNull();
+  });
+
+  it('должен брать часовой пояс из настроек, а без него или с неизвестным - пояс по умолчанию', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query)
+      .mockResolvedValueOnce({ rows: [{ timezone: 'Asia/Dushanbe' }] } as any)
+      .mockResolvedValueOnce({ rows: [{ timezone: 'Mars/Olympus' }] } as any)
+      .mockResolvedValueOnce({ rows: [] } as any);
+
+    expect(await Chat.getTimeZone(-100)).toBe('Asia/Dushanbe');
+    expect(await Chat.getTimeZone(-100)).toBe('UTC');
+    expect(await Chat.getTimeZone(-200)).toBe('UTC');
+  });
+});
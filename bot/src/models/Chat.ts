@@ -0,0 +1,149 @@
+import { pgPool } from '../config/database';
+import { getDefaultTimeZone, isValidTimeZone } from '../config/timeZone';
+
+// Статус бота в чате (ChatMember.status из Bot API)
+export type BotChatStatus = 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+
+// Настройки чата (JSONB): ключи добавляются по мере появления настроек
+// timezone - часовой пояс чата (IANA-имя), по нему считаются "сегодня", дни и часы статистики
+export type ChatSettings = Record<string, unknown>;
+
+// Интерфейс для чата из БД
+export interface ChatData {
+  chat_id: number;
+  title: string | null;
+  type: string;
+  username: string | null;
+  bot_status: BotChatStatus;
+  is_bot_admin: boolean;
+  settings: ChatSettings;
+  first_seen_at: Date;
+  updated_at: Date;
+}
+
+// Данные чата из Telegram (ctx.chat)
+export interface ChatInfo {
+  chat_id: number;
+  title?: string | null;
+  type: string;
+  username?: string | null;
+}
+
+// Колонки с приведением BIGINT к числу
+const COLUMNS = `
+  chat_id::float8 AS chat_id,
+  title,
+  type,
+  username,
+  bot_status,
+  is_bot_admin,
+  settings,
+  first_seen_at,
+  updated_at
+`;
+
+/**
+ * Часовой пояс чата в SQL: chats.settings.timezone, иначе пояс по умолчанию из параметра defaultParam
+ * Для запросов, которые сами раскладывают сообщения по дням чата (агрегаты, пересчёт)
+ */
+export function chatTimeZoneSql(chatIdSql: string, defaultParam: string): string {
+  return `COALESCE((SELECT settings->>'timezone' FROM chats WHERE chat_id = ${chatIdSql}), ${defaultParam})`;
+}
+
+/**
+ * Модель Chat - работа с таблицей chats
+ * Группы, в которых состоит бот, его статус в них и настройки чата
+ */
+export class Chat {
+  /**
+   * Запомнить чат или обновить название и username
+   * Статус бота не меняется: его присылает только my_chat_member
+   */
+  static async upsert(data: ChatInfo): Promise<ChatData> {
+    const query = `
+      INSERT INTO chats (chat_id, title, type, username)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (chat_id)
+      DO UPDATE SET
+        title = COALESCE(EXCLUDED.title, chats.title),
+        type = EXCLUDED.type,
+        username = EXCLUDED.username
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<ChatData>(query, [
+      data.chat_id,
+      data.title ?? null,
+      data.type,
+      data.username ?? null,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Обновить статус бота в чате (бота добавили, повысили до администратора, удалили)
+   */
+  static async setBotStatus(data: ChatInfo, status: BotChatStatus): Promise<ChatData> {
+    const query = `
+      INSERT INTO chats (chat_id, title, type, username, bot_status, is_bot_admin)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (chat_id)
+      DO UPDATE SET
+        title = COALESCE(EXCLUDED.title, chats.title),
+        type = EXCLUDED.type,
+        username = EXCLUDED.username,
+        bot_status = EXCLUDED.bot_status,
+        is_bot_admin = EXCLUDED.is_bot_admin
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<ChatData>(query, [
+      data.chat_id,
+      data.title ?? null,
+      data.type,
+      data.username ?? null,
+      status,
+      status === 'administrator' || status === 'creator',
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Сменить название чата (служебное сообщение new_chat_title)
+   */
+  static async updateTitle(chatId: number, title: string): Promise<void> {
+    const query = 'UPDATE chats SET title = $2 WHERE chat_id = $1';
+    await pgPool.query(query, [chatId, title]);
+  }
+
+  /**
+   * Дополнить настройки чата: переданные ключи перезаписываются, остальные сохраняются
+   */
+  static async updateSettings(chatId: number, settings: ChatSettings): Promise<ChatData | null> {
+    const query = `
+      UPDATE chats
+      SET settings = settings || $2::jsonb
+      WHERE chat_id = $1
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<ChatData>(query, [chatId, JSON.stringify(settings)]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Часовой пояс чата: из настроек, а если его нет (или чата ещё нет в базе) - пояс по умолчанию
+   */
+  static async getTimeZone(chatId: number): Promise<string> {
+    const query = `SELECT settings->>'timezone' AS timezone FROM chats WHERE chat_id = $1`;
+    const result = await pgPool.query<{ timezone: string | null }>(query, [chatId]);
+    const timeZone = result.rows[0]?.timezone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone();
+  }
+
+  /**
+   * Найти чат по ID
+   */
+  static async findById(chatId: number): Promise<ChatData | null> {
+    const query = `SELECT ${COLUMNS} FROM chats WHERE chat_id = $1`;
+    const result = await pgPool.query<ChatData>(query, [chatId]);
+    return result.rows[0] || null;
+  }
+}
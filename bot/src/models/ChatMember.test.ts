@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { ChatMember } from './ChatMember';
+
+// Мокаем pgPool: запросы и клиент для транзакции обновления статуса
+const client = vi.hoisted(() => ({
+  query: vi.fn(),
+  release: vi.fn(),
+}));
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+    connect: vi.fn(async () => client),
+  },
+}));
+
+describe('ChatMember Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('должен записывать событие, только если пользователь вошёл в чат или вышел из него', async () => {
+    client.query.mockResolvedValue({ rows: [] });
+    const date = new Date('2026-09-01T10:00:00Z');
+
+    await ChatMember.updateStatus(-100, 1, 'member', date);
+    await ChatMember.updateStatus(-100, 1, 'kicked', date);
+
+    const calls = client.query.mock.calls as unknown as Array<[string, unknown[]]>;
+    expect(calls.map(([query]) => query.trim().split('\n')[0])).toEqual([
+      'BEGIN',
+      'SELECT pg_advisory_xact_lock(hashtext($1::text), $2)',
+      'WITH previous AS (',
+      'COMMIT',
+      'BEGIN',
+      'SELECT pg_advisory_xact_lock(hashtext($1::text), $2)',
+      'WITH previous AS (',
+      'COMMIT',
+    ]);
+    expect(calls[1][1]).toEqual([-100, 1]);
+    expect(calls[2][0]).toContain('ON CONFLICT (chat_id, user_id)');
+    expect(calls[2][0]).toContain("WHERE $4::boolean <> COALESCE((SELECT NOT (status = ANY($6::text[])) FROM previous), NOT $4::boolean)");
+    expect(calls[2][1]).toEqual([-100, 1, 'member', true, date, ['left', 'kicked']]);
+    expect(calls[6][1]).toEqual([-100, 1, 'kicked', false, date, ['left', 'kicked']]);
+    expect(client.release).toHaveBeenCalledTimes(2);
+  });
+
+  it('должен записывать одно вступление на два обновления об одном входе (PostgreSQL)', async () => {
+    const { pgPool } = await import('../config/database');
+    const db = new PGlite();
+    await db.exec(fs.readFileSync(path.resolve(__dirname, '../../../db/init.sql'), 'utf8'));
+    await db.exec(`INSERT INTO users (telegram_id, first_name) VALUES (101, 'Иван')`);
+    client.query.mockImplementation((text: string, params?: unknown[]) => db.query(text, params));
+    vi.mocked(pgPool.query).mockImplementation(((text: string, params?: unknown[]) => db.query(text, params)) as any);
+    const date = new Date('2026-09-01T10:00:00Z');
+
+    // new_chat_members и chat_member об одном вступлении, затем выход
+    await ChatMember.updateStatus(-100, 1, 'member', date);
+    await ChatMember.updateStatus(-100, 1, 'member', date);
+    await ChatMember.updateStatus(-100, 1, 'left', new Date('2026-09-02T10:00:00Z'));
+
+    expect(await ChatMember.getGrowth(-100)).toEqual({ joined: 1, left: 1, members: 0 });
+    await db.close();
+    // Запуск PostgreSQL в WebAssembly занимает несколько секунд
+  }, 30000);
+
+  it('должен считать вступления, выходы и текущих участников за период', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [{ joined: '5', left: '2', members: '40' }] } as any);
+    const startDate = new Date('2026-09-01T00:00:00Z');
+    const endDate = new Date('2026-09-08T00:00:00Z');
+
+    const result = await ChatMember.getGrowth(-100, { startDate, endDate });
+
+    const [, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(params).toEqual([-100, startDate, endDate, ['left', 'kicked']]);
+    expect(result).toEqual({ joined: 5, left: 2, members: 40 });
+  });
+
+  it('должен возвращать молчунов и их общее число', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ user_id: 3, username: 'quiet', first_name: 'Тихий', joined_at: null, total: '7' }],
+    } as any);
+
+    const result = await ChatMember.findSilent(-100, 1);
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('s.last_message_at >= COALESCE(cm.joined_at');
+    expect(params).toEqual([-100, ['left', 'kicked'], 1]);
+    expect(result).toEqual({
+      members: [{ user_id: 3, username: 'quiet', first_name: 'Тихий', joined_at: null }],
+      total: 7,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { pgPool } from '../config/database';
+import { BotChatStatus } from './Chat';
+
+// Статус участника чата (те же значения, что и у бота)
+export type ChatMemberStatus = BotChatStatus;
+
+// Участник, который вступил, но ничего не написал
+export interface SilentMember {
+  user_id: number;
+  username: string | null;
+  first_name: string | null;
+  joined_at: Date | null;
+}
+
+// Статусы, при которых пользователь больше не в чате
+const INACTIVE_STATUSES: ChatMemberStatus[] = ['left', 'kicked'];
+
+/**
+ * Модель ChatMember - работа с таблицами chat_members и chat_member_events
+ * Членство пользователей в чатах и история вступлений и выходов
+ */
+export class ChatMember {
+  /**
+   * В чате ли пользователь с таким статусом
+   */
+  static isActiveStatus(status: ChatMemberStatus): boolean {
+    return !INACTIVE_STATUSES.includes(status);
+  }
+
+  /**
+   * Обновить статус участника и записать событие вступления или выхода
+   * Одно вступление приходит и служебным сообщением new_chat_members, и обновлением chat_member -
+   * событие пишется, только если пользователь действительно перешёл из "вне чата" в "в чате" или обратно.
+   * Оба обновления Telegraf обрабатывает параллельно, поэтому запрос выполняется под блокировкой пары чат-участник:
+   * второй ждёт, пока первый зафиксируется, и уже видит новый статус (в том числе только что вставленную строку)
+   */
+  static async updateStatus(chatId: number, userId: number, status: ChatMemberStatus, date: Date): Promise<void> {
+    const query = `
+      WITH previous AS (
+        SELECT status FROM chat_members WHERE chat_id = $1 AND user_id = $2
+      ),
+      upserted AS (
+        INSERT INTO chat_members (chat_id, user_id, status, joined_at, left_at)
+        VALUES (
+          $1, $2, $3,
+          CASE WHEN $4::boolean THEN $5::timestamp END,
+          CASE WHEN $4::boolean THEN NULL ELSE $5::timestamp END
+        )
+        ON CONFLICT (chat_id, user_id)
+        DO UPDATE SET
+          status = EXCLUDED.status,
+          joined_at = CASE
+            WHEN $4::boolean AND (chat_members.status = ANY($6::text[]) OR chat_members.joined_at IS NULL) THEN $5::timestamp
+            ELSE chat_members.joined_at
+          END,
+          left_at = CASE
+            WHEN $4::boolean THEN NULL
+            WHEN chat_members.status = ANY($6::text[]) THEN chat_members.left_at
+            ELSE $5::timestamp
+          END
+      )
+      INSERT INTO chat_member_events (chat_id, user_id, event, created_at)
+      SELECT $1, $2, CASE WHEN $4::boolean THEN 'join' ELSE 'leave' END, $5::timestamp
+      WHERE $4::boolean <> COALESCE((SELECT NOT (status = ANY($6::text[])) FROM previous), NOT $4::boolean)
+    `;
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1::text), $2)', [chatId, userId]);
+      await client.query(query, [chatId, userId, status, this.isActiveStatus(status), date, INACTIVE_STATUSES]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Рост и отток за период: вступления, выходы и сколько участников в чате сейчас
+   */
+  static async getGrowth(
+    chatId: number,
+    options?: { startDate?: Date; endDate?: Date }
+  ): Promise<{ joined: number; left: number; members: number }> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM chat_member_events
+          WHERE chat_id = $1 AND event = 'join' AND created_at >= $2 AND created_at <= $3) as joined,
+        (SELECT COUNT(*) FROM chat_member_events
+          WHERE chat_id = $1 AND event = 'leave' AND created_at >= $2 AND created_at <= $3) as left,
+        (SELECT COUNT(*) FROM chat_members
+          WHERE chat_id = $1 AND NOT (status = ANY($4::text[]))) as members
+    `;
+    const result = await pgPool.query(query, [
+      chatId,
+      options?.startDate ?? new Date(0),
+      options?.endDate ?? new Date(),
+      INACTIVE_STATUSES,
+    ]);
+    const row = result.rows[0];
+    return {
+      joined: parseInt(row?.joined || '0', 10),
+      left: parseInt(row?.left || '0', 10),
+      members: parseInt(row?.members || '0', 10),
+    };
+  }
+
+  /**
+   * Участники, которые вступили и ничего не написали после вступления (давние вступления первыми)
+   */
+  static async findSilent(chatId: number, limit: number = 10): Promise<{ members: SilentMember[]; total: number }> {
+    const query = `
+      SELECT cm.user_id, u.username, u.first_name, cm.joined_at, COUNT(*) OVER() as total
+      FROM chat_members cm
+      JOIN users u ON u.id = cm.user_id
+      WHERE cm.chat_id = $1
+        AND NOT (cm.status = ANY($2::text[]))
+        AND NOT EXISTS (
+          SELECT 1 FROM message_daily_stats s
+          WHERE s.chat_id = cm.chat_id AND s.user_id = cm.user_id
+            AND s.last_message_at >= COALESCE(cm.joined_at, '-infinity'::timestamp)
+        )
+      ORDER BY cm.joined_at ASC NULLS FIRST
+      LIMIT $3
+    `;
+    const result = await pgPool.query(query, [chatId, INACTIVE_STATUSES, limit]);
+    return {
+      members: result.rows.map((row) => ({
+        user_id: row.user_id,
+        username: row.username,
+        first_name: row.first_name,
+        joined_at: row.joined_at,
+      })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total, 10) : 0,
+    };
+  }
+}
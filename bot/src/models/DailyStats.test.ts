@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DailyStats } from './DailyStats';
+
+// Мокаем pgPool: запросы и клиент для транзакций пересчёта
+const client = vi.hoisted(() => ({
+  query: vi.fn(),
+  release: vi.fn(),
+}));
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+    connect: vi.fn(async () => client),
+  },
+}));
+
+describe('DailyStats Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('без периода должен читать только агрегаты', () => {
+    const { cte, params, paramIndex } = DailyStats.source({ chatId: -100 });
+
+    expect(cte).toContain('FROM message_daily_stats');
+    expect(cte).toContain('WHERE chat_id = $1');
+    expect(cte).not.toContain('FROM messages');
+    expect(params).toEqual([-100]);
+    expect(paramIndex).toBe(2);
+  });
+
+  it('за период должен брать целые дни из агрегатов, а края досчитывать по messages', () => {
+    const startDate = new Date('2026-10-12T15:30:00Z');
+    const endDate = new Date('2026-10-19T15:30:00Z');
+
+    const { cte, params, paramIndex } = DailyStats.source({ chatId: -100, userId: 7, startDate, endDate });
+
+    expect(cte).toContain(
+      "day >= (date_trunc('day', ($3::timestamptz AT TIME ZONE $5) - interval '1 microsecond') + interval '1 day') AND day < date_trunc('day', ($4::timestamptz AT TIME ZONE $5) + interval '1 millisecond')"
+    );
+    expect(cte).toContain('UNION ALL');
+    expect(cte).toContain('FROM messages');
+    expect(cte).toContain('((created_at >= $3 AND created_at <= $4 AND created_at <');
+    expect(cte).toContain('DATE((created_at::timestamptz AT TIME ZONE $5))');
+    expect(params).toEqual([-100, 7, startDate, endDate, 'UTC']);
+    expect(paramIndex).toBe(6);
+  });
+
+  it('должен раскладывать края периода по дням пояса чата', () => {
+    const startDate = new Date('2026-10-12T21:00:00Z');
+
+    const { cte, params } = DailyStats.source({ chatId: -100, startDate, timeZone: 'Europe/Moscow' });
+
+    expect(cte).toContain("created_at < ((date_trunc('day', ($2::timestamptz AT TIME ZONE $3)");
+    expect(cte).toContain(") AT TIME ZONE $3)::timestamp");
+    expect(params).toEqual([-100, startDate, 'Europe/Moscow']);
+  });
+
+  it('должен собирать тепловую карту по дням недели с понедельника и часам', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [
+        { weekday: 1, hour: 9, count: '5' },
+        { weekday: 7, hour: 23, count: '2' },
+      ],
+    } as any);
+
+    const result = await DailyStats.getHeatmap({ chatId: -100, userId: 7 });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('FROM message_hourly_stats');
+    expect(query).toContain('EXTRACT(ISODOW FROM day)::int as weekday');
+    expect(params).toEqual([-100, 7]);
+    expect(result.total).toBe(7);
+    expect(result.cells).toHaveLength(7);
+    expect(result.cells[0][9]).toBe(5);
+    expect(result.cells[6][23]).toBe(2);
+    expect(result.cells.flat().filter((count) => count > 0)).toHaveLength(2);
+  });
+
+  it('должен считать сообщения по дням из агрегатов', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [
+        { date: '2026-10-01', count: '12' },
+        { date: '2026-10-03', count: '4' },
+      ],
+    } as any);
+
+    const days = await DailyStats.getDailyCounts({ chatId: -100 });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('FROM message_daily_stats');
+    expect(query).toContain('ORDER BY day');
+    expect(params).toEqual([-100]);
+    expect(days).toEqual([
+      { date: '2026-10-01', count: 12 },
+      { date: '2026-10-03', count: 4 },
+    ]);
+  });
+
+  it('должен пересчитывать агрегаты помесячно в поясе чата под блокировкой таблицы', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ chat_id: -100, time_zone: 'Europe/Moscow', first_month: '2026-09-01', last_day: '2026-10-05' }],
+    } as any);
+    client.query.mockImplementation(async (query: string) => (query.includes('INSERT') ? { rowCount: 4 } : {}));
+
+    const result = await DailyStats.backfill({ chatId: -100 });
+
+    const [rangesQuery, rangesParams] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(rangesQuery).toContain('WHERE m.chat_id = $2');
+    expect(rangesQuery).toContain("COALESCE(c.settings->>'timezone', $1)");
+    expect(rangesParams).toEqual(['UTC', -100]);
+    const statements = client.query.mock.calls.map(([query]) => (query as string).trim().split('\n')[0]);
+    expect(statements).toEqual([
+      'BEGIN',
+      'LOCK TABLE message_daily_stats, message_hourly_stats IN SHARE ROW EXCLUSIVE MODE',
+      'DELETE FROM message_daily_stats WHERE chat_id = $1 AND day >= $2::date AND day < $3::date',
+      'DELETE FROM message_hourly_stats WHERE chat_id = $1 AND day >= $2::date AND day < $3::date',
+      'INSERT INTO message_daily_stats (chat_id, user_id, day, message_type, message_count, text_count, text_length, edited_messages, edit_count, first_message_at, last_message_at)',
+      'INSERT INTO message_hourly_stats (chat_id, user_id, day, hour, message_count)',
+      'COMMIT',
+      'BEGIN',
+      'LOCK TABLE message_daily_stats, message_hourly_stats IN SHARE ROW EXCLUSIVE MODE',
+      'DELETE FROM message_daily_stats WHERE chat_id = $1 AND day >= $2::date AND day < $3::date',
+      'DELETE FROM message_hourly_stats WHERE chat_id = $1 AND day >= $2::date AND day < $3::date',
+      'INSERT INTO message_daily_stats (chat_id, user_id, day, message_type, message_count, text_count, text_length, edited_messages, edit_count, first_message_at, last_message_at)',
+      'INSERT INTO message_hourly_stats (chat_id, user_id, day, hour, message_count)',
+      'COMMIT',
+    ]);
+    // Крайние месяцы открыты наружу, чтобы удалить дни, разложенные по прежнему поясу
+    expect(client.query.mock.calls[4][1]).toEqual([-100, '-infinity', '2026-10-01', 'Europe/Moscow']);
+    expect(client.query.mock.calls[11][1]).toEqual([-100, '2026-10-01', 'infinity', 'Europe/Moscow']);
+    expect(client.release).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ chats: 1, batches: 2, rows: 16 });
+  });
+
+  it('должен откатывать пересчёт месяца при ошибке', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ chat_id: -100, time_zone: 'UTC', first_month: '2026-10-01', last_day: '2026-10-05' }],
+    } as any);
+    client.query.mockImplementation(async (query: string) => {
+      if (query.includes('INSERT')) throw new Error('deadlock detected');
+      return {};
+    });
+
+    await expect(DailyStats.backfill()).rejects.toThrow('deadlock detected');
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,319 @@
+import { pgPool } from '../config/database';
+import { getDefaultTimeZone } from '../config/timeZone';
+
+// Фильтр статистики: чат, пользователь и период (по времени сообщения)
+// timeZone - пояс чата: в нём агрегаты разложены по дням, по нему же досчитываются края периода
+export interface ActivityFilter {
+  chatId?: number;
+  userId?: number;
+  startDate?: Date;
+  endDate?: Date;
+  timeZone?: string;
+}
+
+// Тепловая карта активности: сообщения по дням недели (0 - понедельник) и часам (0-23)
+export interface ActivityHeatmap {
+  cells: number[][]; // 7 строк по 24 часа
+  total: number;
+}
+
+// Итог пересчёта агрегатов
+export interface BackfillResult {
+  chats: number;
+  batches: number; // Пересчитанных месяцев
+  rows: number; // Записанных строк message_daily_stats и message_hourly_stats
+}
+
+/**
+ * Местное время в поясе zone для TIMESTAMP без пояса (created_at хранится во времени сервера БД)
+ * День и час агрегатов - это DATE и EXTRACT(HOUR) от него
+ */
+export function localTimeSql(column: string, zone: string): string {
+  return `(${column}::timestamptz AT TIME ZONE ${zone})`;
+}
+
+/**
+ * Первое число следующего месяца: "2026-09-01" -> "2026-10-01"
+ */
+function nextMonthKey(month: string): string {
+  const [year, monthNumber] = month.split('-').map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, monthNumber, 1)).toISOString().slice(0, 10);
+}
+
+// Колонки агрегата: из message_daily_stats и такие же по одному сообщению из messages (zone - пояс чата)
+const ACTIVITY_COLUMNS =
+  'chat_id, user_id, day, message_type, message_count, text_count, text_length, edited_messages, edit_count, first_message_at, last_message_at';
+const ACTIVITY_RAW_COLUMNS = (zone: string) => `
+  chat_id, user_id, DATE(${localTimeSql('created_at', zone)}), message_type, 1, (text <> '')::int, LENGTH(text),
+  is_edited::int, edit_count, created_at, created_at
+`;
+
+// То же для message_hourly_stats
+const HOURLY_COLUMNS = 'chat_id, user_id, day, hour, message_count';
+const HOURLY_RAW_COLUMNS = (zone: string) =>
+  `chat_id, user_id, DATE(${localTimeSql('created_at', zone)}), EXTRACT(HOUR FROM ${localTimeSql('created_at', zone)})::int, 1`;
+
+// Агрегат, из которого строится источник: таблица, имя CTE и колонки
+interface Rollup {
+  name: string;
+  table: string;
+  columns: string;
+  rawColumns: (zone: string) => string;
+}
+
+const DAILY: Rollup = {
+  name: 'activity',
+  table: 'message_daily_stats',
+  columns: ACTIVITY_COLUMNS,
+  rawColumns: ACTIVITY_RAW_COLUMNS,
+};
+const HOURLY: Rollup = {
+  name: 'hourly',
+  table: 'message_hourly_stats',
+  columns: HOURLY_COLUMNS,
+  rawColumns: HOURLY_RAW_COLUMNS,
+};
+
+/**
+ * Модель DailyStats - работа с таблицами message_daily_stats и message_hourly_stats
+ * Дневные и почасовые агрегаты сообщений по чату и пользователю: статистика не сканирует всю messages.
+ * Message.create и Message.applyEdit обновляют агрегаты тем же запросом, что и сообщение
+ */
+export class DailyStats {
+  /**
+   * Источник статистики за период: CTE activity с колонками ACTIVITY_COLUMNS
+   * Целые дни периода берутся из агрегатов, неполные дни на краях (week - с текущего часа 7 дней назад,
+   * today - до текущего момента) досчитываются по messages - это не больше двух дней сообщений чата.
+   * Дни - в поясе options.timeZone, он должен совпадать с поясом чата, в котором записаны агрегаты.
+   * Дальше параметры продолжаются с paramIndex
+   */
+  static source(options?: ActivityFilter): { cte: string; params: any[]; paramIndex: number } {
+    return this.rollupSource(DAILY, options);
+  }
+
+  /**
+   * Источник почасовой активности за период: CTE hourly с колонками HOURLY_COLUMNS (края - как в source)
+   */
+  static hourlySource(options?: ActivityFilter): { cte: string; params: any[]; paramIndex: number } {
+    return this.rollupSource(HOURLY, options);
+  }
+
+  /**
+   * Общая часть source и hourlySource: агрегаты за целые дни и сообщения за неполные дни на краях
+   */
+  private static rollupSource(rollup: Rollup, options?: ActivityFilter): { cte: string; params: any[]; paramIndex: number } {
+    const params: any[] = [];
+    let paramIndex = 1;
+    const conditions: string[] = [];
+
+    if (options?.chatId !== undefined) {
+      conditions.push(`chat_id = $${paramIndex}`);
+      params.push(options.chatId);
+      paramIndex++;
+    }
+    if (options?.userId !== undefined) {
+      conditions.push(`user_id = $${paramIndex}`);
+      params.push(options.userId);
+      paramIndex++;
+    }
+
+    // Без периода - только агрегаты
+    if (!options?.startDate && !options?.endDate) {
+      const cte = `
+        WITH ${rollup.name} AS (
+          SELECT ${rollup.columns}
+          FROM ${rollup.table}
+          ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        )
+      `;
+      return { cte, params, paramIndex };
+    }
+
+    const bounds: string[] = [];
+    let startParam: string | null = null;
+    let endParam: string | null = null;
+    if (options.startDate) {
+      startParam = `$${paramIndex}`;
+      bounds.push(`created_at >= ${startParam}`);
+      params.push(options.startDate);
+      paramIndex++;
+    }
+    if (options.endDate) {
+      endParam = `$${paramIndex}`;
+      bounds.push(`created_at <= ${endParam}`);
+      params.push(options.endDate);
+      paramIndex++;
+    }
+    const zone = `$${paramIndex}`;
+    params.push(options.timeZone ?? getDefaultTimeZone());
+    paramIndex++;
+
+    // Первая местная полночь не раньше начала и последняя, до которой день целиком входит в период
+    // (конец периода включительно, с точностью до миллисекунды: 23:59:59.999 - день целый)
+    const fullStart = startParam
+      ? `(date_trunc('day', (${startParam}::timestamptz AT TIME ZONE ${zone}) - interval '1 microsecond') + interval '1 day')`
+      : `'-infinity'::timestamp`;
+    const fullEnd = endParam
+      ? `date_trunc('day', (${endParam}::timestamptz AT TIME ZONE ${zone}) + interval '1 millisecond')`
+      : `'infinity'::timestamp`;
+    // Те же полночи во времени сервера БД - для сравнения с created_at
+    const rawStart = `(${fullStart} AT TIME ZONE ${zone})::timestamp`;
+    const rawEnd = `(${fullEnd} AT TIME ZONE ${zone})::timestamp`;
+    // Каждый край - отдельный ограниченный диапазон, чтобы индекс (chat_id, created_at) не читал середину периода
+    const rawConditions = [
+      ...conditions,
+      `((${[...bounds, `created_at < ${rawStart}`].join(' AND ')}) OR (${[...bounds, `created_at >= ${rawEnd}`].join(' AND ')}))`,
+    ];
+
+    const cte = `
+      WITH ${rollup.name} AS (
+        SELECT ${rollup.columns}
+        FROM ${rollup.table}
+        WHERE ${[...conditions, `day >= ${fullStart}`, `day < ${fullEnd}`].join(' AND ')}
+        UNION ALL
+        SELECT ${rollup.rawColumns(zone)}
+        FROM messages
+        WHERE ${rawConditions.join(' AND ')}
+      )
+    `;
+    return { cte, params, paramIndex };
+  }
+
+  /**
+   * Тепловая карта активности чата или участника за период: день недели × час
+   */
+  static async getHeatmap(options?: ActivityFilter): Promise<ActivityHeatmap> {
+    const { cte, params } = this.hourlySource(options);
+    const query = `
+      ${cte}
+      SELECT EXTRACT(ISODOW FROM day)::int as weekday, hour, SUM(message_count) as count
+      FROM hourly
+      GROUP BY 1, 2
+    `;
+    const result = await pgPool.query<{ weekday: number; hour: number; count: string }>(query, params);
+
+    const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    let total = 0;
+    for (const row of result.rows) {
+      const count = parseInt(row.count, 10);
+      cells[row.weekday - 1][row.hour] = count;
+      total += count;
+    }
+    return { cells, total };
+  }
+
+  /**
+   * Сообщения по дням за период (по возрастанию даты); дней без сообщений в результате нет
+   */
+  static async getDailyCounts(options?: ActivityFilter): Promise<Array<{ date: string; count: number }>> {
+    const { cte, params } = this.source(options);
+    const query = `
+      ${cte}
+      SELECT to_char(day, 'YYYY-MM-DD') as date, SUM(message_count) as count
+      FROM activity
+      GROUP BY day
+      ORDER BY day
+    `;
+    const result = await pgPool.query<{ date: string; count: string }>(query, params);
+    return result.rows.map((row) => ({ date: row.date, count: parseInt(row.count, 10) }));
+  }
+
+  /**
+   * Пересчитать агрегаты по messages: все чаты или один, помесячно (месяцы и дни - в поясе чата)
+   * Нужен один раз для сообщений, сохранённых до появления message_daily_stats, и после смены пояса чата;
+   * повторный запуск безопасен
+   */
+  static async backfill(options?: { chatId?: number }): Promise<BackfillResult> {
+    const zone = `COALESCE(c.settings->>'timezone', $1)`;
+    const rangesQuery = `
+      SELECT
+        m.chat_id::float8 as chat_id,
+        ${zone} as time_zone,
+        to_char(date_trunc('month', ${localTimeSql('MIN(m.created_at)', zone)}), 'YYYY-MM-DD') as first_month,
+        to_char(${localTimeSql('MAX(m.created_at)', zone)}, 'YYYY-MM-DD') as last_day
+      FROM messages m
+      LEFT JOIN chats c ON c.chat_id = m.chat_id
+      ${options?.chatId !== undefined ? 'WHERE m.chat_id = $2' : ''}
+      GROUP BY m.chat_id, c.settings->>'timezone'
+    `;
+    const ranges = await pgPool.query<{ chat_id: number; time_zone: string; first_month: string; last_day: string }>(
+      rangesQuery,
+      options?.chatId !== undefined ? [getDefaultTimeZone(), options.chatId] : [getDefaultTimeZone()]
+    );
+
+    const result: BackfillResult = { chats: ranges.rows.length, batches: 0, rows: 0 };
+    for (const range of ranges.rows) {
+      // Месяцы - строки YYYY-MM-DD, они сравниваются как строки
+      let month = range.first_month;
+      while (month <= range.last_day) {
+        const nextMonth = nextMonthKey(month);
+        // Крайние месяцы открыты наружу: заодно удаляются дни, разложенные по прежнему поясу чата
+        const from = month === range.first_month ? '-infinity' : month;
+        const to = nextMonth > range.last_day ? 'infinity' : nextMonth;
+        result.rows += await this.rebuildRange(range.chat_id, from, to, range.time_zone);
+        result.batches++;
+        console.log(`📊 Агрегаты чата ${range.chat_id} пересчитаны за ${month.slice(0, 7)}`);
+        month = nextMonth;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Пересчитать агрегаты чата за местные дни [from, to) в поясе timeZone (YYYY-MM-DD или ±infinity)
+   * Строки агрегатов за эти дни удаляются и собираются заново. Запись в агрегаты на это время блокируется:
+   * сообщение, сохранённое во время пересчёта, либо попадёт в пересчёт, либо прибавится к нему после -
+   * и не потеряется, и не посчитается дважды
+   */
+  private static async rebuildRange(chatId: number, from: string, to: string, timeZone: string): Promise<number> {
+    const localTime = localTimeSql('created_at', '$4');
+    // Границы дней во времени сервера БД - для сравнения с created_at
+    const range = `created_at >= ($2::date::timestamp AT TIME ZONE $4)::timestamp AND created_at < ($3::date::timestamp AT TIME ZONE $4)::timestamp`;
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('LOCK TABLE message_daily_stats, message_hourly_stats IN SHARE ROW EXCLUSIVE MODE');
+      for (const table of ['message_daily_stats', 'message_hourly_stats']) {
+        await client.query(`DELETE FROM ${table} WHERE chat_id = $1 AND day >= $2::date AND day < $3::date`, [chatId, from, to]);
+      }
+      const daily = await client.query(
+        `
+        INSERT INTO message_daily_stats (${ACTIVITY_COLUMNS})
+        SELECT
+          chat_id,
+          user_id,
+          DATE(${localTime}),
+          message_type,
+          COUNT(*),
+          COUNT(*) FILTER (WHERE text <> ''),
+          COALESCE(SUM(LENGTH(text)), 0),
+          COUNT(*) FILTER (WHERE is_edited),
+          SUM(edit_count),
+          MIN(created_at),
+          MAX(created_at)
+        FROM messages
+        WHERE chat_id = $1 AND ${range}
+        GROUP BY chat_id, user_id, DATE(${localTime}), message_type
+        `,
+        [chatId, from, to, timeZone]
+      );
+      const hourly = await client.query(
+        `
+        INSERT INTO message_hourly_stats (${HOURLY_COLUMNS})
+        SELECT chat_id, user_id, DATE(${localTime}), EXTRACT(HOUR FROM ${localTime})::int, COUNT(*)
+        FROM messages
+        WHERE chat_id = $1 AND ${range}
+        GROUP BY 1, 2, 3, 4
+        `,
+        [chatId, from, to, timeZone]
+      );
+      await client.query('COMMIT');
+      return (daily.rowCount ?? 0) + (hourly.rowCount ?? 0);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { pgPool } from '../config/database';
+
+// Интерфейс для расписания дайджеста из БД
+// Даты и время храним строками: send_time - "HH:MM", last_sent_date - "YYYY-MM-DD"
+export interface DigestScheduleData {
+  chat_id: number;
+  send_time: string;
+  enabled: boolean;
+  last_sent_date: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Колонки с приведением BIGINT к числу и TIME/DATE к строкам (pg по умолчанию превращает DATE в Date с часовым поясом)
+const COLUMNS = `
+  chat_id::float8 AS chat_id,
+  TO_CHAR(send_time, 'HH24:MI') AS send_time,
+  enabled,
+  TO_CHAR(last_sent_date, 'YYYY-MM-DD') AS last_sent_date,
+  created_by::float8 AS created_by,
+  created_at,
+  updated_at
+`;
+
+/**
+ * Модель DigestSchedule - работа с таблицей digest_schedules
+ * Хранит настройки автоматического дайджеста (/digest_schedule)
+ */
+export class DigestSchedule {
+  /**
+   * Включить расписание или изменить время
+   * lastSentDate не даёт уменьшить уже отмеченный день: дайджест за него повторно не уйдёт
+   */
+  static async upsert(data: {
+    chat_id: number;
+    send_time: string;
+    last_sent_date: string;
+    created_by: number | null;
+  }): Promise<DigestScheduleData> {
+    const query = `
+      INSERT INTO digest_schedules (chat_id, send_time, enabled, last_sent_date, created_by)
+      VALUES ($1, $2, TRUE, $3, $4)
+      ON CONFLICT (chat_id)
+      DO UPDATE SET
+        send_time = EXCLUDED.send_time,
+        enabled = TRUE,
+        last_sent_date = GREATEST(digest_schedules.last_sent_date, EXCLUDED.last_sent_date),
+        created_by = EXCLUDED.created_by
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<DigestScheduleData>(query, [
+      data.chat_id,
+      data.send_time,
+      data.last_sent_date,
+      data.created_by,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Выключить расписание (настройки сохраняются)
+   * Возвращает false, если расписания не было
+   */
+  static async disable(chatId: number): Promise<boolean> {
+    const query = 'UPDATE digest_schedules SET enabled = FALSE WHERE chat_id = $1';
+    const result = await pgPool.query(query, [chatId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Найти расписание чата
+   */
+  static async findByChatId(chatId: number): Promise<DigestScheduleData | null> {
+    const query = `SELECT ${COLUMNS} FROM digest_schedules WHERE chat_id = $1`;
+    const result = await pgPool.query<DigestScheduleData>(query, [chatId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Все включённые расписания
+   */
+  static async findEnabled(): Promise<DigestScheduleData[]> {
+    const query = `SELECT ${COLUMNS} FROM digest_schedules WHERE enabled = TRUE`;
+    const result = await pgPool.query<DigestScheduleData>(query);
+    return result.rows;
+  }
+
+  /**
+   * Атомарно занять отправку дайджеста за день
+   * Возвращает false, если дайджест за этот (или более поздний) день уже отправлен -
+   * так даже два процесса бота не отправят два дайджеста за один день
+   */
+  static async claimRun(chatId: number, date: string): Promise<boolean> {
+    const query = `
+      UPDATE digest_schedules
+      SET last_sent_date = $2
+      WHERE chat_id = $1
+        AND enabled = TRUE
+        AND (last_sent_date IS NULL OR last_sent_date < $2)
+    `;
+    const result = await pgPool.query(query, [chatId, date]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Откатить отметку, если отправка не удалась (чтобы повторить позже)
+   */
+  static async releaseRun(chatId: number, date: string, previousDate: string | null): Promise<void> {
+    const query = `
+      UPDATE digest_schedules
+      SET last_sent_date = $3
+      WHERE chat_id = $1 AND last_sent_date = $2
+    `;
+    await pgPool.query(query, [chatId, date, previousDate]);
+  }
+}
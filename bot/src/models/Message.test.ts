@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Message } from './Message';
+
+// Мокаем pgPool
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+  },
+}));
+
+describe('Message Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('должен сохранять предыдущую версию в message_revisions и обновлять текст', async () => {
+    const { pgPool } = await import('../config/database');
+    const editedAt = new Date('2026-10-19T10:05:00Z');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ id: 5, text: 'выкатываем в пятницу', is_edited: true, edit_count: 2 }],
+    } as any);
+
+    const result = await Message.applyEdit({
+      telegram_message_id: 42,
+      chat_id: -100,
+      text: 'выкатываем в пятницу',
+      edited_at: editedAt,
+    });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('INSERT INTO message_revisions (message_id, text, media, replaced_at)');
+    expect(query).toContain('edit_count = m.edit_count + 1');
+    expect(query).toContain('edited_messages = s.edited_messages + (NOT previous.is_edited)::int');
+    expect(params).toEqual([42, -100, 'выкатываем в пятницу', null, editedAt, 'UTC']);
+    expect(result?.edit_count).toBe(2);
+  });
+
+  it('должен обновлять дневной агрегат только для нового сообщения', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const result = await Message.create({ user_id: 7, telegram_message_id: 42, chat_id: -100, text: 'привет' });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('ON CONFLICT (telegram_message_id, chat_id) DO NOTHING');
+    expect(query).toContain('INSERT INTO message_daily_stats');
+    expect(query).toContain('FROM inserted');
+    expect(query).toContain('message_count = message_daily_stats.message_count + 1');
+    // День и час агрегатов - по поясу чата, если он задан, иначе по поясу по умолчанию ($10)
+    expect(query).toContain("COALESCE((SELECT settings->>'timezone' FROM chats WHERE chat_id = $3), $10)");
+    expect(params).toEqual([7, 42, -100, 'привет', 'text', null, null, null, null, 'UTC']);
+    expect(result).toBeNull();
+  });
+
+  it('должен возвращать null, если исходного сообщения нет в БД', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const result = await Message.applyEdit({
+      telegram_message_id: 1,
+      chat_id: -100,
+      text: 'новый текст',
+      edited_at: new Date(),
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('должен считать правки только по отредактированным сообщениям чата', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ user_id: 1, edits: '7', messages: '3', username: 'ivan', first_name: 'Иван' }],
+    } as any);
+
+    const result = await Message.getTopEditors(3, { chatId: -100 });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toMatch(/FROM message_daily_stats\s+WHERE chat_id = \$1/);
+    expect(query).toContain('HAVING SUM(a.edited_messages) > 0');
+    expect(params).toEqual([-100, 3]);
+    expect(result).toEqual([{ user_id: 1, edits: 7, messages: 3, username: 'ivan', first_name: 'Иван' }]);
+  });
+
+  it('должен находить ветку от корня по любому сообщению из неё', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    await Message.getThread(-100, 34);
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('WITH RECURSIVE ancestors AS');
+    expect(query).toContain('m.reply_to_message_id = t.telegram_message_id');
+    expect(params).toEqual([-100, 34, 200]);
+  });
+
+  it('должен объединять ответы и упоминания в одно ребро графа', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          from_user_id: 1,
+          from_username: 'ivan',
+          from_first_name: 'Иван',
+          to_user_id: 2,
+          to_username: null,
+          to_first_name: 'Мария',
+          replies: '4',
+          mentions: '2',
+          weight: '6',
+        },
+      ],
+    } as any);
+
+    const result = await Message.getInteractions(10, { chatId: -100, startDate: new Date('2026-10-12T00:00:00Z') });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    // Фильтр по чату и периоду применяется и к ответам, и к упоминаниям
+    expect(query.match(/AND m\.chat_id = \$1 AND m\.created_at >= \$2/g)).toHaveLength(2);
+    expect(query).toContain('LIMIT $3');
+    expect(params).toEqual([-100, new Date('2026-10-12T00:00:00Z'), 10]);
+    expect(result[0]).toMatchObject({ replies: 4, mentions: 2, weight: 6 });
+  });
+
+  it('должен считать место и долю участника среди писавших за период', async () => {
+    const { pgPool } = await import('../config/database');
+    const lastMessageAt = new Date('2026-10-18T09:00:00Z');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{
+        count: '30',
+        rank: '2',
+        active_days: '5',
+        average_length: '41.6',
+        total_messages: '120',
+        participants: '6',
+        last_message_at: lastMessageAt,
+      }],
+    } as any);
+
+    const result = await Message.getUserActivity(7, { chatId: -100, startDate: new Date('2026-10-12T00:00:00Z') });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('RANK() OVER (ORDER BY count DESC)');
+    expect(query).toContain('WHERE user_id = $4 AND chat_id = $1');
+    expect(params).toEqual([-100, new Date('2026-10-12T00:00:00Z'), 'UTC', 7]);
+    expect(result).toEqual({
+      messageCount: 30,
+      totalMessages: 120,
+      rank: 2,
+      participants: 6,
+      activeDays: 5,
+      averageLength: 42,
+      lastMessageAt,
+    });
+  });
+
+  it('должен возвращать нулевую активность, если участник не писал за период', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{
+        count: null,
+        rank: null,
+        active_days: null,
+        average_length: null,
+        total_messages: '120',
+        participants: '6',
+        last_message_at: null,
+      }],
+    } as any);
+
+    const result = await Message.getUserActivity(7, { chatId: -100 });
+
+    expect(result).toMatchObject({ messageCount: 0, rank: null, activeDays: 0, averageLength: null, lastMessageAt: null });
+  });
+});
@@ -1,4 +1,31 @@
 import { pgPool } from '../config/database';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { chatTimeZoneSql } from './Chat';
+import { ActivityFilter, DailyStats, localTimeSql } from './DailyStats';
+
+// Тип сообщения: текст или вложение (подпись вложения хранится в text)
+export type MessageType =
+  | 'text'
+  | 'photo'
+  | 'video'
+  | 'animation'
+  | 'document'
+  | 'audio'
+  | 'voice'
+  | 'video_note'
+  | 'sticker'
+  | 'poll';
+
+// Метаданные вложения: размер файла, длительность, эмодзи стикера, варианты опроса и т.п.
+export type MessageMedia = Record<string, string | number | boolean | string[] | null>;
+
+// Откуда переслано сообщение (упрощённый MessageOrigin из Bot API)
+export interface ForwardOrigin {
+  type: 'user' | 'hidden_user' | 'chat' | 'channel';
+  name: string; // Имя автора, название чата или канала
+  sender_id: number | null; // Telegram ID автора или чата (для hidden_user - null)
+  date: Date; // Когда отправлен оригинал
+}
 
 // Интерфейс для данных сообщения из БД
 export interface MessageData {
@@ -6,7 +33,15 @@ export interface MessageData {
   user_id: number;
   telegram_message_id: number;
   chat_id: number;
-  text: string;
+  text: string; // Текст, подпись к вложению или вопрос опроса ('' - вложение без подписи)
+  message_type: MessageType;
+  media: MessageMedia | null;
+  is_edited: boolean;
+  edit_count: number;
+  edited_at: Date | null;
+  reply_to_message_id: number | null;
+  topic_id: number | null;
+  forward_origin: ForwardOrigin | null;
   created_at: Date;
 }
 
@@ -16,6 +51,51 @@ export interface CreateMessageData {
   telegram_message_id: number;
   chat_id: number;
   text: string;
+  message_type?: MessageType; // По умолчанию 'text'
+  media?: MessageMedia | null;
+  reply_to_message_id?: number | null;
+  topic_id?: number | null;
+  forward_origin?: ForwardOrigin | null;
+}
+
+// Сообщение ветки ответов вместе с автором
+export interface ThreadMessageData extends MessageData {
+  depth: number; // 0 - корень ветки, 1 - ответ на корень и т.д.
+  username: string | null;
+  first_name: string | null;
+}
+
+// Ребро графа взаимодействий: from_user_id отвечал или упоминал to_user_id
+export interface InteractionEdge {
+  from_user_id: number;
+  from_username: string | null;
+  from_first_name: string | null;
+  to_user_id: number;
+  to_username: string | null;
+  to_first_name: string | null;
+  replies: number;
+  mentions: number;
+  weight: number; // replies + mentions
+}
+
+// Активность участника за период на фоне остальных участников
+export interface UserActivity {
+  messageCount: number;
+  totalMessages: number; // Сообщений всех участников за тот же период
+  rank: number | null; // Место по числу сообщений (null - за период ничего не писал)
+  participants: number; // Сколько участников писали за период
+  activeDays: number; // Дней, в которые было хотя бы одно сообщение
+  averageLength: number | null; // Средняя длина текста и подписей (null - только вложения без подписи)
+  lastMessageAt: Date | null; // Последнее сообщение за всё время, без учёта периода
+}
+
+// Правка сообщения: новая версия текста / вложения
+export interface EditMessageData {
+  telegram_message_id: number;
+  chat_id: number;
+  text: string;
+  media?: MessageMedia | null;
+  edited_at: Date;
 }
 
 /**
@@ -23,170 +103,461 @@ export interface CreateMessageData {
  * Инкапсулирует все SQL-запросы для работы с сообщениями
  */
 export class Message {
+  // Максимальная глубина ветки ответов для getThread
+  private static readonly MAX_THREAD_DEPTH = 200;
+
   /**
    * Создать новое сообщение
    * Используем ON CONFLICT для избежания дубликатов (если сообщение уже есть - игнорируем)
+   * Дневной и почасовой агрегаты обновляются тем же запросом - только для действительно нового сообщения;
+   * день и час - по часовому поясу чата
    */
   static async create(data: CreateMessageData): Promise<MessageData | null> {
     const query = `
-      INSERT INTO messages (user_id, telegram_message_id, chat_id, text)
-      VALUES ($1, $2, $3, $4)
-      ON CONFLICT (telegram_message_id, chat_id) DO NOTHING
-      RETURNING *
+      WITH inserted AS (
+        INSERT INTO messages (
+          user_id, telegram_message_id, chat_id, text, message_type, media,
+          reply_to_message_id, topic_id, forward_origin
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (telegram_message_id, chat_id) DO NOTHING
+        RETURNING *
+      ),
+      local AS (
+        SELECT id, ${localTimeSql('created_at', chatTimeZoneSql('$3', '$10'))} AS created_at
+        FROM inserted
+      ),
+      rollup AS (
+        INSERT INTO message_daily_stats (
+          chat_id, user_id, day, message_type, message_count, text_count, text_length,
+          edited_messages, edit_count, first_message_at, last_message_at
+        )
+        SELECT i.chat_id, i.user_id, DATE(l.created_at), i.message_type, 1, (i.text <> '')::int, LENGTH(i.text), 0, 0, i.created_at, i.created_at
+        FROM inserted i JOIN local l ON l.id = i.id
+        ON CONFLICT (chat_id, user_id, day, message_type)
+        DO UPDATE SET
+          message_count = message_daily_stats.message_count + 1,
+          text_count = message_daily_stats.text_count + EXCLUDED.text_count,
+          text_length = message_daily_stats.text_length + EXCLUDED.text_length,
+          first_message_at = LEAST(message_daily_stats.first_message_at, EXCLUDED.first_message_at),
+          last_message_at = GREATEST(message_daily_stats.last_message_at, EXCLUDED.last_message_at)
+      ),
+      hourly AS (
+        INSERT INTO message_hourly_stats (chat_id, user_id, day, hour, message_count)
+        SELECT i.chat_id, i.user_id, DATE(l.created_at), EXTRACT(HOUR FROM l.created_at)::int, 1
+        FROM inserted i JOIN local l ON l.id = i.id
+        ON CONFLICT (chat_id, user_id, day, hour)
+        DO UPDATE SET message_count = message_hourly_stats.message_count + 1
+      )
+      SELECT * FROM inserted
     `;
     const result = await pgPool.query<MessageData>(query, [
       data.user_id,
       data.telegram_message_id,
       data.chat_id,
       data.text,
+      data.message_type ?? 'text',
+      data.media ? JSON.stringify(data.media) : null,
+      data.reply_to_message_id ?? null,
+      data.topic_id ?? null,
+      data.forward_origin ? JSON.stringify(data.forward_origin) : null,
+      getDefaultTimeZone(),
     ]);
     // Если сообщение уже существует (ON CONFLICT), result.rows будет пустым
     return result.rows[0] || null;
   }
 
   /**
-   * Получить сообщения пользователя с фильтром по дате
+   * Применить правку: предыдущая версия уходит в message_revisions, в messages остаётся последняя
+   * Дневной агрегат учитывает правку и длину новой версии текста.
+   * Возвращает null, если исходного сообщения нет в БД (например, отправлено до добавления бота)
    */
-  static async findByUserId(
-    userId: number,
+  static async applyEdit(data: EditMessageData): Promise<MessageData | null> {
+    // Всё одним запросом: строка блокируется, поэтому две правки подряд не потеряют версию
+    const query = `
+      WITH previous AS (
+        SELECT id, chat_id, user_id, created_at, message_type, text, media, is_edited
+        FROM messages
+        WHERE telegram_message_id = $1 AND chat_id = $2
+        FOR UPDATE
+      ),
+      revision AS (
+        INSERT INTO message_revisions (message_id, text, media, replaced_at)
+        SELECT id, text, media, $5 FROM previous
+      ),
+      rollup AS (
+        UPDATE message_daily_stats s
+        SET
+          edit_count = s.edit_count + 1,
+          edited_messages = s.edited_messages + (NOT previous.is_edited)::int,
+          text_count = s.text_count + ($3::text <> '')::int - (previous.text <> '')::int,
+          text_length = s.text_length + LENGTH($3::text) - LENGTH(previous.text)
+        FROM previous
+        WHERE s.chat_id = previous.chat_id
+          AND s.user_id = previous.user_id
+          AND s.day = DATE(${localTimeSql('previous.created_at', chatTimeZoneSql('previous.chat_id', '$6'))})
+          AND s.message_type = previous.message_type
+      )
+      UPDATE messages m
+      SET
+        text = $3,
+        media = $4,
+        is_edited = TRUE,
+        edit_count = m.edit_count + 1,
+        edited_at = $5
+      FROM previous
+      WHERE m.id = previous.id
+      RETURNING m.*
+    `;
+    const result = await pgPool.query<MessageData>(query, [
+      data.telegram_message_id,
+      data.chat_id,
+      data.text,
+      data.media ? JSON.stringify(data.media) : null,
+      data.edited_at,
+      getDefaultTimeZone(),
+    ]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Вся ветка ответов, в которой находится сообщение: от корня через все ответы (в порядке отправки)
+   * Корень - самое раннее сообщение цепочки reply_to, которое есть в БД
+   */
+  static async getThread(chatId: number, telegramMessageId: number): Promise<ThreadMessageData[]> {
+    // Глубина ограничена, чтобы битые данные не зациклили рекурсию
+    const query = `
+      WITH RECURSIVE ancestors AS (
+        SELECT telegram_message_id, reply_to_message_id, 0 AS hops
+        FROM messages
+        WHERE chat_id = $1 AND telegram_message_id = $2
+        UNION ALL
+        SELECT m.telegram_message_id, m.reply_to_message_id, a.hops + 1
+        FROM messages m
+        JOIN ancestors a ON m.chat_id = $1 AND m.telegram_message_id = a.reply_to_message_id
+        WHERE a.hops < $3
+      ),
+      root AS (
+        SELECT telegram_message_id FROM ancestors ORDER BY hops DESC LIMIT 1
+      ),
+      thread AS (
+        SELECT m.*, 0 AS depth
+        FROM messages m
+        JOIN root r ON m.chat_id = $1 AND m.telegram_message_id = r.telegram_message_id
+        UNION ALL
+        SELECT m.*, t.depth + 1
+        FROM messages m
+        JOIN thread t ON m.chat_id = $1 AND m.reply_to_message_id = t.telegram_message_id
+        WHERE t.depth < $3
+      )
+      SELECT thread.*, u.username, u.first_name
+      FROM thread
+      JOIN users u ON u.id = thread.user_id
+      ORDER BY thread.created_at ASC, thread.telegram_message_id ASC
+    `;
+    const result = await pgPool.query<ThreadMessageData>(query, [chatId, telegramMessageId, this.MAX_THREAD_DEPTH]);
+    return result.rows;
+  }
+
+  /**
+   * Кто кому отвечает: пары "автор ответа → автор исходного сообщения" (ответы самому себе не считаются)
+   */
+  static async getReplyPairs(
+    limit: number = 5,
     options?: {
       chatId?: number;
-      limit?: number;
       startDate?: Date;
       endDate?: Date;
     }
-  ): Promise<MessageData[]> {
-    let query = 'SELECT * FROM messages WHERE user_id = $1';
-    const params: any[] = [userId];
-    let paramIndex = 2;
+  ): Promise<
+    Array<{
+      from_user_id: number;
+      from_username: string | null;
+      from_first_name: string | null;
+      to_user_id: number;
+      to_username: string | null;
+      to_first_name: string | null;
+      count: number;
+    }>
+  > {
+    let query = `
+      SELECT
+        m.user_id as from_user_id,
+        fu.username as from_username,
+        fu.first_name as from_first_name,
+        p.user_id as to_user_id,
+        tu.username as to_username,
+        tu.first_name as to_first_name,
+        COUNT(*) as count
+      FROM messages m
+      JOIN messages p ON p.chat_id = m.chat_id AND p.telegram_message_id = m.reply_to_message_id
+      JOIN users fu ON fu.id = m.user_id
+      JOIN users tu ON tu.id = p.user_id
+    `;
+    const params: any[] = [];
+    let paramIndex = 1;
+    const conditions: string[] = ['m.user_id <> p.user_id'];
 
-    // Фильтр по chat_id (если указан)
     if (options?.chatId !== undefined) {
-      query += ` AND chat_id = $${paramIndex}`;
+      conditions.push(`m.chat_id = $${paramIndex}`);
       params.push(options.chatId);
       paramIndex++;
     }
-
-    // Добавляем фильтр по дате начала (если указан)
     if (options?.startDate) {
-      query += ` AND created_at >= $${paramIndex}`;
+      conditions.push(`m.created_at >= $${paramIndex}`);
       params.push(options.startDate);
       paramIndex++;
     }
-
-    // Добавляем фильтр по дате конца (если указан)
     if (options?.endDate) {
-      query += ` AND created_at <= $${paramIndex}`;
+      conditions.push(`m.created_at <= $${paramIndex}`);
       params.push(options.endDate);
       paramIndex++;
     }
 
-    // Сортируем по дате создания (новые сначала)
-    query += ' ORDER BY created_at DESC';
-
-    // Ограничиваем количество результатов (если указано)
-    if (options?.limit) {
-      query += ` LIMIT $${paramIndex}`;
-      params.push(options.limit);
-    }
+    query += ' WHERE ' + conditions.join(' AND ');
+    query += `
+      GROUP BY m.user_id, fu.username, fu.first_name, p.user_id, tu.username, tu.first_name
+      ORDER BY count DESC
+      LIMIT $${paramIndex}
+    `;
+    params.push(limit);
 
-    const result = await pgPool.query<MessageData>(query, params);
-    return result.rows;
+    const result = await pgPool.query(query, params);
+    return result.rows.map((row) => ({
+      from_user_id: row.from_user_id,
+      from_username: row.from_username,
+      from_first_name: row.from_first_name,
+      to_user_id: row.to_user_id,
+      to_username: row.to_username,
+      to_first_name: row.to_first_name,
+      count: parseInt(row.count, 10),
+    }));
   }
 
   /**
-   * Получить количество сообщений пользователя
+   * Граф взаимодействий: ответы и @упоминания между участниками, самые сильные связи первыми
+   * Упоминание засчитывается, если у упомянутого есть username и он писал в этом же чате;
+   * повторное упоминание одного человека в сообщении считается один раз
    */
-  static async countByUserId(
-    userId: number,
+  static async getInteractions(
+    limit: number = 10,
     options?: {
       chatId?: number;
       startDate?: Date;
       endDate?: Date;
     }
-  ): Promise<number> {
-    let query = 'SELECT COUNT(*) as count FROM messages WHERE user_id = $1';
-    const params: any[] = [userId];
-    let paramIndex = 2;
+  ): Promise<InteractionEdge[]> {
+    const params: any[] = [];
+    let paramIndex = 1;
+    const conditions: string[] = [];
 
-    // Фильтр по chat_id (если указан)
     if (options?.chatId !== undefined) {
-      query += ` AND chat_id = $${paramIndex}`;
+      conditions.push(`m.chat_id = $${paramIndex}`);
       params.push(options.chatId);
       paramIndex++;
     }
-
     if (options?.startDate) {
-      query += ` AND created_at >= $${paramIndex}`;
+      conditions.push(`m.created_at >= $${paramIndex}`);
       params.push(options.startDate);
       paramIndex++;
     }
-
     if (options?.endDate) {
-      query += ` AND created_at <= $${paramIndex}`;
+      conditions.push(`m.created_at <= $${paramIndex}`);
       params.push(options.endDate);
       paramIndex++;
     }
 
-    const result = await pgPool.query<{ count: string }>(query, params);
-    return parseInt(result.rows[0].count, 10);
+    // Одни и те же параметры используются в обеих выборках
+    const filter = conditions.length ? `AND ${conditions.join(' AND ')}` : '';
+    const query = `
+      WITH edges AS (
+        SELECT m.user_id as from_user_id, p.user_id as to_user_id, 1 as replies, 0 as mentions
+        FROM messages m
+        JOIN messages p ON p.chat_id = m.chat_id AND p.telegram_message_id = m.reply_to_message_id
+        WHERE m.user_id <> p.user_id ${filter}
+        UNION ALL
+        SELECT m.user_id, u.id, 0, 1
+        FROM messages m
+        CROSS JOIN LATERAL (
+          SELECT DISTINCT lower(mention[1]) as username
+          FROM regexp_matches(m.text, '@([A-Za-z0-9_]{5,32})', 'g') as mention
+        ) mentioned
+        JOIN users u ON lower(u.username) = mentioned.username
+        WHERE u.id <> m.user_id ${filter}
+          AND EXISTS (SELECT 1 FROM messages um WHERE um.user_id = u.id AND um.chat_id = m.chat_id)
+      )
+      SELECT
+        e.from_user_id,
+        fu.username as from_username,
+        fu.first_name as from_first_name,
+        e.to_user_id,
+        tu.username as to_username,
+        tu.first_name as to_first_name,
+        SUM(e.replies) as replies,
+        SUM(e.mentions) as mentions,
+        SUM(e.replies + e.mentions) as weight
+      FROM edges e
+      JOIN users fu ON fu.id = e.from_user_id
+      JOIN users tu ON tu.id = e.to_user_id
+      GROUP BY e.from_user_id, fu.username, fu.first_name, e.to_user_id, tu.username, tu.first_name
+      ORDER BY weight DESC, replies DESC
+      LIMIT $${paramIndex}
+    `;
+    params.push(limit);
+
+    const result = await pgPool.query(query, params);
+    return result.rows.map((row) => ({
+      from_user_id: row.from_user_id,
+      from_username: row.from_username,
+      from_first_name: row.from_first_name,
+      to_user_id: row.to_user_id,
+      to_username: row.to_username,
+      to_first_name: row.to_first_name,
+      replies: parseInt(row.replies, 10),
+      mentions: parseInt(row.mentions, 10),
+      weight: parseInt(row.weight, 10),
+    }));
   }
 
   /**
-   * Получить топ пользователей по количеству сообщений
+   * Получить сообщения пользователя с фильтром по дате
    */
-  static async getTopUsersByMessageCount(
-    limit: number = 10,
+  static async findByUserId(
+    userId: number,
     options?: {
       chatId?: number;
+      limit?: number;
       startDate?: Date;
       endDate?: Date;
+      withTextOnly?: boolean; // Пропускать вложения без подписи (стикеры, голосовые и т.п.)
     }
-  ): Promise<Array<{ user_id: number; count: number; username: string | null; first_name: string | null }>> {
-    let query = `
-      SELECT 
-        m.user_id,
-        COUNT(*) as count,
-        u.username,
-        u.first_name
-      FROM messages m
-      JOIN users u ON m.user_id = u.id
-    `;
-    const params: any[] = [];
-    let paramIndex = 1;
-    const conditions: string[] = [];
+  ): Promise<MessageData[]> {
+    let query = 'SELECT * FROM messages WHERE user_id = $1';
+    const params: any[] = [userId];
+    let paramIndex = 2;
 
-    // Фильтр по chat_id (обязательный)
+    if (options?.withTextOnly) {
+      query += " AND text <> ''";
+    }
+
+    // Фильтр по chat_id (если указан)
     if (options?.chatId !== undefined) {
-      conditions.push(`m.chat_id = $${paramIndex}`);
+      query += ` AND chat_id = $${paramIndex}`;
       params.push(options.chatId);
       paramIndex++;
     }
 
-    // Добавляем фильтр по дате (если указан)
+    // Добавляем фильтр по дате начала (если указан)
     if (options?.startDate) {
-      conditions.push(`m.created_at >= $${paramIndex}`);
+      query += ` AND created_at >= $${paramIndex}`;
       params.push(options.startDate);
       paramIndex++;
     }
+
+    // Добавляем фильтр по дате конца (если указан)
     if (options?.endDate) {
-      conditions.push(`m.created_at <= $${paramIndex}`);
+      query += ` AND created_at <= $${paramIndex}`;
       params.push(options.endDate);
       paramIndex++;
     }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
+    // Сортируем по дате создания (новые сначала)
+    query += ' ORDER BY created_at DESC';
+
+    // Ограничиваем количество результатов (если указано)
+    if (options?.limit) {
+      query += ` LIMIT $${paramIndex}`;
+      params.push(options.limit);
     }
 
-    query += `
-      GROUP BY m.user_id, u.username, u.first_name
+    const result = await pgPool.query<MessageData>(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Получить количество сообщений пользователя
+   */
+  static async countByUserId(userId: number, options?: Omit<ActivityFilter, 'userId'>): Promise<number> {
+    const { cte, params } = DailyStats.source({ ...options, userId });
+    const query = `
+      ${cte}
+      SELECT COALESCE(SUM(message_count), 0) as count FROM activity
+    `;
+    const result = await pgPool.query<{ count: string }>(query, params);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Активность пользователя: сообщения, доля, место, активные дни, средняя длина и последнее сообщение
+   * Место и доля считаются среди всех, кто писал в чате за тот же период
+   */
+  static async getUserActivity(userId: number, options?: Omit<ActivityFilter, 'userId'>): Promise<UserActivity> {
+    const { cte, params, paramIndex } = DailyStats.source(options);
+    const chatCondition = options?.chatId !== undefined ? ' AND chat_id = $1' : '';
+
+    const query = `
+      ${cte},
+      per_user AS (
+        SELECT
+          user_id,
+          SUM(message_count) as count,
+          COUNT(DISTINCT day) as active_days,
+          SUM(text_length)::float8 / NULLIF(SUM(text_count), 0) as average_length
+        FROM activity
+        GROUP BY user_id
+      ),
+      ranked AS (
+        SELECT *, RANK() OVER (ORDER BY count DESC) as rank
+        FROM per_user
+      )
+      SELECT
+        r.count,
+        r.rank,
+        r.active_days,
+        r.average_length,
+        (SELECT COALESCE(SUM(count), 0) FROM per_user) as total_messages,
+        (SELECT COUNT(*) FROM per_user) as participants,
+        (SELECT MAX(last_message_at) FROM message_daily_stats WHERE user_id = $${paramIndex}${chatCondition}) as last_message_at
+      FROM (SELECT 1) as one
+      LEFT JOIN ranked r ON r.user_id = $${paramIndex}
+    `;
+
+    const result = await pgPool.query(query, [...params, userId]);
+    const row = result.rows[0];
+    return {
+      messageCount: parseInt(row.count || '0', 10),
+      totalMessages: parseInt(row.total_messages, 10),
+      rank: row.rank !== null ? parseInt(row.rank, 10) : null,
+      participants: parseInt(row.participants, 10),
+      activeDays: parseInt(row.active_days || '0', 10),
+      averageLength: row.average_length !== null ? Math.round(parseFloat(row.average_length)) : null,
+      lastMessageAt: row.last_message_at,
+    };
+  }
+
+  /**
+   * Получить топ пользователей по количеству сообщений
+   */
+  static async getTopUsersByMessageCount(
+    limit: number = 10,
+    options?: Omit<ActivityFilter, 'userId'>
+  ): Promise<Array<{ user_id: number; count: number; username: string | null; first_name: string | null }>> {
+    const { cte, params, paramIndex } = DailyStats.source(options);
+    const query = `
+      ${cte}
+      SELECT
+        a.user_id,
+        SUM(a.message_count) as count,
+        u.username,
+        u.first_name
+      FROM activity a
+      JOIN users u ON a.user_id = u.id
+      GROUP BY a.user_id, u.username, u.first_name
       ORDER BY count DESC
       LIMIT $${paramIndex}
     `;
-    params.push(limit);
 
-    const result = await pgPool.query(query, params);
+    const result = await pgPool.query(query, [...params, limit]);
     return result.rows.map((row) => ({
       user_id: row.user_id,
       count: parseInt(row.count, 10),
@@ -196,44 +567,71 @@ export class Message {
   }
 
   /**
-   * Получить общую статистику по сообщениям
+   * Кто чаще всех редактирует сообщения: число правок и отредактированных сообщений
    */
-  static async getStats(options?: {
-    chatId?: number;
-    startDate?: Date;
-    endDate?: Date;
-  }): Promise<{ totalMessages: number; totalUsers: number }> {
-    let query = `
-      SELECT 
-        COUNT(DISTINCT m.id) as total_messages,
-        COUNT(DISTINCT m.user_id) as total_users
-      FROM messages m
+  static async getTopEditors(
+    limit: number = 3,
+    options?: Omit<ActivityFilter, 'userId'>
+  ): Promise<Array<{ user_id: number; edits: number; messages: number; username: string | null; first_name: string | null }>> {
+    const { cte, params, paramIndex } = DailyStats.source(options);
+    const query = `
+      ${cte}
+      SELECT
+        a.user_id,
+        SUM(a.edit_count) as edits,
+        SUM(a.edited_messages) as messages,
+        u.username,
+        u.first_name
+      FROM activity a
+      JOIN users u ON a.user_id = u.id
+      GROUP BY a.user_id, u.username, u.first_name
+      HAVING SUM(a.edited_messages) > 0
+      ORDER BY edits DESC
+      LIMIT $${paramIndex}
     `;
-    const params: any[] = [];
-    let paramIndex = 1;
-    const conditions: string[] = [];
 
-    // Фильтр по chat_id (обязательный)
-    if (options?.chatId !== undefined) {
-      conditions.push(`m.chat_id = $${paramIndex}`);
-      params.push(options.chatId);
-      paramIndex++;
-    }
+    const result = await pgPool.query(query, [...params, limit]);
+    return result.rows.map((row) => ({
+      user_id: row.user_id,
+      edits: parseInt(row.edits, 10),
+      messages: parseInt(row.messages, 10),
+      username: row.username,
+      first_name: row.first_name,
+    }));
+  }
 
-    if (options?.startDate) {
-      conditions.push(`m.created_at >= $${paramIndex}`);
-      params.push(options.startDate);
-      paramIndex++;
-    }
-    if (options?.endDate) {
-      conditions.push(`m.created_at <= $${paramIndex}`);
-      params.push(options.endDate);
-      paramIndex++;
-    }
+  /**
+   * Количество сообщений по типам (текст, фото, голосовые...), самые частые сначала
+   */
+  static async getTypeBreakdown(options?: Omit<ActivityFilter, 'userId'>): Promise<Array<{ type: MessageType; count: number }>> {
+    const { cte, params } = DailyStats.source(options);
+    const query = `
+      ${cte}
+      SELECT message_type, SUM(message_count) as count
+      FROM activity
+      GROUP BY message_type
+      ORDER BY count DESC
+    `;
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
+    const result = await pgPool.query<{ message_type: MessageType; count: string }>(query, params);
+    return result.rows.map((row) => ({
+      type: row.message_type,
+      count: parseInt(row.count, 10),
+    }));
+  }
+
+  /**
+   * Получить общую статистику по сообщениям
+   */
+  static async getStats(options?: Omit<ActivityFilter, 'userId'>): Promise<{ totalMessages: number; totalUsers: number }> {
+    const { cte, params } = DailyStats.source(options);
+    const query = `
+      ${cte}
+      SELECT
+        COALESCE(SUM(message_count), 0) as total_messages,
+        COUNT(DISTINCT user_id) as total_users
+      FROM activity
+    `;
 
     const result = await pgPool.query<{ total_messages: string; total_users: string }>(query, params);
     return {
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Reaction } from './Reaction';
+
+// Мокаем pgPool
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+  },
+}));
+
+describe('Reaction Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('должен заменять реакции пользователя новым набором одним запросом', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+    const date = new Date('2026-10-19T10:00:00Z');
+
+    await Reaction.setUserReactions({ chat_id: -100, telegram_message_id: 42, user_id: 7, emojis: ['👍', '🔥'], date });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('DELETE FROM message_reactions');
+    expect(query).toContain('ON CONFLICT (chat_id, telegram_message_id, user_id, emoji) DO NOTHING');
+    expect(params).toEqual([-100, 42, 7, ['👍', '🔥'], date]);
+  });
+
+  it('должен передавать счётчики анонимных реакций параллельными массивами', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+    const date = new Date('2026-10-19T10:00:00Z');
+
+    await Reaction.setCounts(-100, 42, [{ emoji: '👍', total_count: 5 }, { emoji: 'custom:123', total_count: 1 }], date);
+
+    const [, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(params).toEqual([-100, 42, ['👍', 'custom:123'], [5, 1], date]);
+  });
+
+  it('должен считать полученные реакции без реакций на свои сообщения', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ user_id: 2, username: null, first_name: 'Мария', count: '12' }],
+    } as any);
+
+    const result = await Reaction.getTopReceivers(3, { chatId: -100 });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('WHERE chat_id = $1');
+    expect(query).toContain('r.user_id IS DISTINCT FROM m.user_id');
+    expect(query).toContain('LIMIT $2');
+    expect(params).toEqual([-100, 3]);
+    expect(result).toEqual([{ user_id: 2, username: null, first_name: 'Мария', count: 12 }]);
+  });
+});
@@ -0,0 +1,235 @@
+import { pgPool } from '../config/database';
+
+// Реакции пользователя на сообщение после изменения (message_reaction)
+export interface SetUserReactionsData {
+  chat_id: number;
+  telegram_message_id: number;
+  user_id: number;
+  emojis: string[]; // Новый набор реакций пользователя; [] - все реакции сняты
+  date: Date;
+}
+
+// Счётчик анонимной реакции (message_reaction_count)
+export interface ReactionCountData {
+  emoji: string;
+  total_count: number;
+}
+
+// Фильтр для рейтингов: чат и период (по времени реакции)
+export interface ReactionFilter {
+  chatId?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Сообщение с наибольшим числом реакций
+export interface TopReactedMessage {
+  chat_id: number;
+  telegram_message_id: number;
+  text: string | null; // null - сообщения нет в БД (отправлено до добавления бота)
+  username: string | null;
+  first_name: string | null;
+  total: number;
+}
+
+// Участник в рейтинге реакций (кто ставит / кто получает)
+export interface ReactionUserStat {
+  user_id: number;
+  username: string | null;
+  first_name: string | null;
+  count: number;
+}
+
+/**
+ * Модель Reaction - работа с таблицами message_reactions и message_reaction_counts
+ * Реакции с автором хранятся построчно, анонимные - счётчиками по эмодзи
+ */
+export class Reaction {
+  /**
+   * Заменить реакции пользователя на сообщение новым набором
+   * Уже стоявшие реакции сохраняют исходное время, снятые удаляются
+   */
+  static async setUserReactions(data: SetUserReactionsData): Promise<void> {
+    const query = `
+      WITH removed AS (
+        DELETE FROM message_reactions
+        WHERE chat_id = $1 AND telegram_message_id = $2 AND user_id = $3 AND NOT (emoji = ANY($4::text[]))
+      )
+      INSERT INTO message_reactions (chat_id, telegram_message_id, user_id, emoji, created_at)
+      SELECT $1, $2, $3, emoji, $5
+      FROM unnest($4::text[]) AS emoji
+      ON CONFLICT (chat_id, telegram_message_id, user_id, emoji) DO NOTHING
+    `;
+    await pgPool.query(query, [data.chat_id, data.telegram_message_id, data.user_id, data.emojis, data.date]);
+  }
+
+  /**
+   * Заменить счётчики анонимных реакций на сообщение (Telegram присылает полный список)
+   */
+  static async setCounts(
+    chatId: number,
+    telegramMessageId: number,
+    counts: ReactionCountData[],
+    date: Date
+  ): Promise<void> {
+    const query = `
+      WITH removed AS (
+        DELETE FROM message_reaction_counts
+        WHERE chat_id = $1 AND telegram_message_id = $2 AND NOT (emoji = ANY($3::text[]))
+      )
+      INSERT INTO message_reaction_counts (chat_id, telegram_message_id, emoji, total_count, updated_at)
+      SELECT $1, $2, r.emoji, r.total_count, $5
+      FROM unnest($3::text[], $4::int[]) AS r(emoji, total_count)
+      ON CONFLICT (chat_id, telegram_message_id, emoji)
+      DO UPDATE SET total_count = EXCLUDED.total_count, updated_at = EXCLUDED.updated_at
+    `;
+    await pgPool.query(query, [
+      chatId,
+      telegramMessageId,
+      counts.map((count) => count.emoji),
+      counts.map((count) => count.total_count),
+      date,
+    ]);
+  }
+
+  /**
+   * Все реакции одним набором: построчные (count = 1) и анонимные счётчики (user_id = NULL)
+   * Фильтры чата и периода применяются внутри, дальше параметры продолжаются с paramIndex.
+   * У анонимных счётчиков нет времени каждой реакции - в период они попадают по времени последнего изменения
+   */
+  private static reactionsSource(options?: ReactionFilter): { cte: string; params: any[]; paramIndex: number } {
+    const params: any[] = [];
+    let paramIndex = 1;
+    const conditions: string[] = [];
+
+    if (options?.chatId !== undefined) {
+      conditions.push(`chat_id = $${paramIndex}`);
+      params.push(options.chatId);
+      paramIndex++;
+    }
+    if (options?.startDate) {
+      conditions.push(`reacted_at >= $${paramIndex}`);
+      params.push(options.startDate);
+      paramIndex++;
+    }
+    if (options?.endDate) {
+      conditions.push(`reacted_at <= $${paramIndex}`);
+      params.push(options.endDate);
+      paramIndex++;
+    }
+
+    const cte = `
+      WITH reactions AS (
+        SELECT * FROM (
+          SELECT chat_id, telegram_message_id, user_id, emoji, 1 as count, created_at as reacted_at
+          FROM message_reactions
+          UNION ALL
+          SELECT chat_id, telegram_message_id, NULL, emoji, total_count, updated_at
+          FROM message_reaction_counts
+        ) r
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      )
+    `;
+    return { cte, params, paramIndex };
+  }
+
+  /**
+   * Сообщения, собравшие больше всего реакций
+   */
+  static async getTopMessages(limit: number = 3, options?: ReactionFilter): Promise<TopReactedMessage[]> {
+    const { cte, params, paramIndex } = this.reactionsSource(options);
+    const query = `
+      ${cte}
+      SELECT
+        r.chat_id,
+        r.telegram_message_id,
+        m.text,
+        u.username,
+        u.first_name,
+        SUM(r.count) as total
+      FROM reactions r
+      LEFT JOIN messages m ON m.chat_id = r.chat_id AND m.telegram_message_id = r.telegram_message_id
+      LEFT JOIN users u ON u.id = m.user_id
+      GROUP BY r.chat_id, r.telegram_message_id, m.text, u.username, u.first_name
+      ORDER BY total DESC
+      LIMIT $${paramIndex}
+    `;
+    const result = await pgPool.query(query, [...params, limit]);
+    return result.rows.map((row) => ({
+      chat_id: Number(row.chat_id),
+      telegram_message_id: Number(row.telegram_message_id),
+      text: row.text,
+      username: row.username,
+      first_name: row.first_name,
+      total: parseInt(row.total, 10),
+    }));
+  }
+
+  /**
+   * Кто чаще всех ставит реакции (анонимные реакции не учитываются)
+   */
+  static async getTopGivers(limit: number = 3, options?: ReactionFilter): Promise<ReactionUserStat[]> {
+    const { cte, params, paramIndex } = this.reactionsSource(options);
+    const query = `
+      ${cte}
+      SELECT r.user_id, u.username, u.first_name, SUM(r.count) as count
+      FROM reactions r
+      JOIN users u ON u.id = r.user_id
+      GROUP BY r.user_id, u.username, u.first_name
+      ORDER BY count DESC
+      LIMIT $${paramIndex}
+    `;
+    const result = await pgPool.query(query, [...params, limit]);
+    return result.rows.map((row) => ({
+      user_id: row.user_id,
+      username: row.username,
+      first_name: row.first_name,
+      count: parseInt(row.count, 10),
+    }));
+  }
+
+  /**
+   * Кто получает больше всего реакций на свои сообщения (реакции на свои сообщения не считаются)
+   */
+  static async getTopReceivers(limit: number = 3, options?: ReactionFilter): Promise<ReactionUserStat[]> {
+    const { cte, params, paramIndex } = this.reactionsSource(options);
+    const query = `
+      ${cte}
+      SELECT m.user_id, u.username, u.first_name, SUM(r.count) as count
+      FROM reactions r
+      JOIN messages m ON m.chat_id = r.chat_id AND m.telegram_message_id = r.telegram_message_id
+      JOIN users u ON u.id = m.user_id
+      WHERE r.user_id IS DISTINCT FROM m.user_id
+      GROUP BY m.user_id, u.username, u.first_name
+      ORDER BY count DESC
+      LIMIT $${paramIndex}
+    `;
+    const result = await pgPool.query(query, [...params, limit]);
+    return result.rows.map((row) => ({
+      user_id: row.user_id,
+      username: row.username,
+      first_name: row.first_name,
+      count: parseInt(row.count, 10),
+    }));
+  }
+
+  /**
+   * Самые популярные реакции
+   */
+  static async getTopEmoji(limit: number = 5, options?: ReactionFilter): Promise<Array<{ emoji: string; count: number }>> {
+    const { cte, params, paramIndex } = this.reactionsSource(options);
+    const query = `
+      ${cte}
+      SELECT emoji, SUM(count) as count
+      FROM reactions
+      GROUP BY emoji
+      ORDER BY count DESC
+      LIMIT $${paramIndex}
+    `;
+    const result = await pgPool.query(query, [...params, limit]);
+    return result.rows.map((row) => ({
+      emoji: row.emoji,
+      count: parseInt(row.count, 10),
+    }));
+  }
+}
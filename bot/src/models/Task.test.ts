@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { Task } from './Task';
+
+// Мокаем pgPool
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+  },
+}));
+
+describe('Task Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('должен сохранять задачи дайджеста одним запросом', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    await Task.createMany([
+      { chat_id: -1, text: 'Выкатить релиз', assignee_telegram_id: 101, assignee_name: '@ivan', digest_id: 7 },
+      { chat_id: -1, text: 'Обновить документацию', due_date: '2026-10-21' },
+    ]);
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('VALUES ($1, $2, $3, $4, $5, $6, $7), ($8, $9, $10, $11, $12, $13, $14)');
+    expect(params).toEqual([
+      -1, 'Выкатить релиз', 101, '@ivan', 7, null, null,
+      -1, 'Обновить документацию', null, null, null, null, '2026-10-21',
+    ]);
+  });
+
+  it('не должен обращаться к БД, если задач нет', async () => {
+    const { pgPool } = await import('../config/database');
+
+    const result = await Task.createMany([]);
+
+    expect(result).toEqual([]);
+    expect(pgPool.query).not.toHaveBeenCalled();
+  });
+
+  it('должен запоминать, кто закрыл задачу', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [{ id: 3, status: 'done' }] } as any);
+
+    const result = await Task.setStatus(3, 'done', 555);
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain("completed_by = CASE WHEN $2::varchar = 'done' THEN $3::bigint ELSE NULL END");
+    expect(params).toEqual([3, 'done', 555]);
+    expect(result?.status).toBe('done');
+  });
+});
+
+/**
+ * Те же запросы на настоящем PostgreSQL (PGlite, в памяти) со схемой из db/init.sql:
+ * строковое сравнение с моком не ловит ошибки, которые PostgreSQL находит только при разборе запроса
+ */
+describe('Task Model - PostgreSQL', () => {
+  // Пустая БД по db/init.sql, запросы pgPool уходят в неё
+  async function createDatabase(): Promise<PGlite> {
+    const { pgPool } = await import('../config/database');
+    const db = new PGlite();
+    await db.exec(fs.readFileSync(path.resolve(__dirname, '../../../db/init.sql'), 'utf8'));
+    vi.mocked(pgPool.query).mockImplementation(((text: string, params?: unknown[]) => db.query(text, params)) as any);
+    return db;
+  }
+
+  it('должен закрывать задачу и возвращать её в работу', async () => {
+    const db = await createDatabase();
+
+    const [task] = await Task.createMany([{ chat_id: -1001234567890, text: 'Выкатить релиз' }]);
+    const done = await Task.setStatus(task.id, 'done', 555);
+    const reopened = await Task.setStatus(task.id, 'open', 555);
+
+    expect(done).toMatchObject({ status: 'done', completed_by: 555, chat_id: -1001234567890 });
+    expect(done?.completed_at).toBeInstanceOf(Date);
+    expect(reopened).toMatchObject({ status: 'open', completed_at: null, completed_by: null });
+    expect(await Task.setStatus(task.id + 1, 'done', 555)).toBeNull();
+    await db.close();
+    // Запуск PostgreSQL в WebAssembly занимает несколько секунд
+  }, 30000);
+
+  it('должен находить задачи дайджестов, пересекающихся с периодом', async () => {
+    const db = await createDatabase();
+    await db.exec(`
+      INSERT INTO digests (chat_id, period_key, period_label, period_start, period_end, message_count, result)
+      VALUES (-1, 'today', 'сегодня', '2026-10-19 00:00', '2026-10-19 12:00', 5, '{}'),
+             (-1, 'yesterday', 'вчера', '2026-10-18 00:00', '2026-10-18 23:59:59', 5, '{}');
+    `);
+    await Task.createMany([
+      { chat_id: -1, text: 'Сегодняшняя', digest_id: 1 },
+      { chat_id: -1, text: 'Вчерашняя', digest_id: 2 },
+      { chat_id: -1, text: 'Без дайджеста' },
+    ]);
+
+    const tasks = await Task.findForDigestPeriod(-1, new Date('2026-10-19T00:00:00'), new Date('2026-10-19T18:00:00'));
+
+    expect(tasks.map((task) => task.text)).toEqual(['Сегодняшняя']);
+    await db.close();
+  }, 30000);
+});
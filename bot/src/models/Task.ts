@@ -0,0 +1,187 @@
+import { pgPool } from '../config/database';
+
+export type TaskStatus = 'open' | 'done';
+
+// Интерфейс для задачи из БД
+// due_date храним строкой "YYYY-MM-DD" (как даты в DigestSchedule)
+export interface TaskData {
+  id: number;
+  chat_id: number;
+  text: string;
+  assignee_telegram_id: number | null;
+  assignee_name: string | null;
+  digest_id: number | null;
+  source_message_id: number | null;
+  status: TaskStatus;
+  due_date: string | null;
+  completed_at: Date | null;
+  completed_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Интерфейс для создания новой задачи
+export interface CreateTaskData {
+  chat_id: number;
+  text: string;
+  assignee_telegram_id?: number | null;
+  assignee_name?: string | null;
+  digest_id?: number | null;
+  source_message_id?: number | null;
+  due_date?: string | null;
+}
+
+// Колонки с приведением DATE к строке и BIGINT к числу
+const COLUMNS = `
+  id,
+  chat_id::float8 AS chat_id,
+  text,
+  assignee_telegram_id::float8 AS assignee_telegram_id,
+  assignee_name,
+  digest_id,
+  source_message_id::float8 AS source_message_id,
+  status,
+  TO_CHAR(due_date, 'YYYY-MM-DD') AS due_date,
+  completed_at,
+  completed_by::float8 AS completed_by,
+  created_at,
+  updated_at
+`;
+
+/**
+ * Модель Task - работа с таблицей tasks
+ * Action items из дайджестов, которые отслеживаются через /tasks
+ */
+export class Task {
+  /**
+   * Сохранить задачи одним запросом (задачи одного дайджеста)
+   */
+  static async createMany(items: CreateTaskData[]): Promise<TaskData[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const params: any[] = [];
+    let paramIndex = 1;
+    const values = items.map((item) => {
+      params.push(
+        item.chat_id,
+        item.text,
+        item.assignee_telegram_id ?? null,
+        item.assignee_name ?? null,
+        item.digest_id ?? null,
+        item.source_message_id ?? null,
+        item.due_date ?? null,
+      );
+      const placeholders = Array.from({ length: 7 }, (_, offset) => `$${paramIndex + offset}`);
+      paramIndex += 7;
+      return `(${placeholders.join(', ')})`;
+    });
+
+    const query = `
+      INSERT INTO tasks (chat_id, text, assignee_telegram_id, assignee_name, digest_id, source_message_id, due_date)
+      VALUES ${values.join(', ')}
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<TaskData>(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Найти задачу по id
+   */
+  static async findById(id: number): Promise<TaskData | null> {
+    const query = `SELECT ${COLUMNS} FROM tasks WHERE id = $1`;
+    const result = await pgPool.query<TaskData>(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Задачи чата с заданным статусом
+   * Открытые - от старых к новым (давно висящие видны первыми), выполненные - последние выполненные сначала
+   */
+  static async findByChatId(
+    chatId: number,
+    options?: { status?: TaskStatus; limit?: number; offset?: number }
+  ): Promise<TaskData[]> {
+    const status = options?.status ?? 'open';
+    const order = status === 'open' ? 'created_at ASC, id ASC' : 'completed_at DESC, id DESC';
+    const query = `
+      SELECT ${COLUMNS}
+      FROM tasks
+      WHERE chat_id = $1 AND status = $2
+      ORDER BY ${order}
+      LIMIT $3 OFFSET $4
+    `;
+    const result = await pgPool.query<TaskData>(query, [
+      chatId,
+      status,
+      options?.limit ?? 10,
+      options?.offset ?? 0,
+    ]);
+    return result.rows;
+  }
+
+  /**
+   * Задачи (в любом статусе) из дайджестов чата, период которых пересекается с [startDate, endDate]
+   * По ним повторный дайджест того же периода (/digest today ещё раз, refresh) не создаёт задачи заново
+   */
+  static async findForDigestPeriod(chatId: number, startDate: Date, endDate: Date): Promise<TaskData[]> {
+    const query = `
+      SELECT ${COLUMNS}
+      FROM tasks
+      WHERE chat_id = $1
+        AND digest_id IN (
+          SELECT id FROM digests WHERE chat_id = $1 AND period_start <= $3 AND period_end >= $2
+        )
+      ORDER BY id ASC
+    `;
+    const result = await pgPool.query<TaskData>(query, [chatId, startDate, endDate]);
+    return result.rows;
+  }
+
+  /**
+   * Количество задач чата с заданным статусом
+   */
+  static async countByChatId(chatId: number, status: TaskStatus = 'open'): Promise<number> {
+    const query = 'SELECT COUNT(*)::int AS count FROM tasks WHERE chat_id = $1 AND status = $2';
+    const result = await pgPool.query<{ count: number }>(query, [chatId, status]);
+    return result.rows[0].count;
+  }
+
+  /**
+   * Отметить задачу выполненной или вернуть в работу
+   * Возвращает null, если задачи нет
+   * $2 приведён к varchar явно: без этого PostgreSQL выводит для него разные типы (колонка и сравнение) и отклоняет запрос
+   */
+  static async setStatus(id: number, status: TaskStatus, changedBy: number | null): Promise<TaskData | null> {
+    const query = `
+      UPDATE tasks
+      SET
+        status = $2::varchar,
+        completed_at = CASE WHEN $2::varchar = 'done' THEN CURRENT_TIMESTAMP ELSE NULL END,
+        completed_by = CASE WHEN $2::varchar = 'done' THEN $3::bigint ELSE NULL END
+      WHERE id = $1
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<TaskData>(query, [id, status, changedBy]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Передать задачу другому участнику (null - снять ответственного)
+   */
+  static async reassign(
+    id: number,
+    assignee: { telegram_id: number; name: string } | null
+  ): Promise<TaskData | null> {
+    const query = `
+      UPDATE tasks
+      SET assignee_telegram_id = $2, assignee_name = $3
+      WHERE id = $1
+      RETURNING ${COLUMNS}
+    `;
+    const result = await pgPool.query<TaskData>(query, [id, assignee?.telegram_id ?? null, assignee?.name ?? null]);
+    return result.rows[0] || null;
+  }
+}
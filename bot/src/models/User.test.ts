@@ -96,4 +96,21 @@ describe('User Model', () => {
       ['anotheruser']
     );
   });
+
+  it('должен возвращать участников чата постранично вместе с общим числом', async () => {
+    const { pgPool } = await import('../config/database');
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [{ id: 3, username: 'quiet', first_name: 'Тихий', message_count: '0', total: '12' }],
+    } as any);
+
+    const result = await User.findByChat(-100, { limit: 8, offset: 8 });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('SELECT user_id FROM chat_members');
+    expect(params).toEqual([-100, 8, 8]);
+    expect(result).toEqual({
+      users: [{ id: 3, username: 'quiet', first_name: 'Тихий', message_count: 0 }],
+      total: 12,
+    });
+  });
 });
@@ -11,6 +11,14 @@ export interface UserData {
   updated_at: Date;
 }
 
+// Участник чата в списке выбора: сколько сообщений написал в этом чате
+export interface ChatUser {
+  id: number;
+  username: string | null;
+  first_name: string | null;
+  message_count: number;
+}
+
 // Интерфейс для создания нового пользователя
 export interface CreateUserData {
   telegram_id: number;
@@ -66,6 +74,15 @@ export class User {
     return insertResult.rows[0];
   }
 
+  /**
+   * Найти пользователя по id в таблице users
+   */
+  static async findById(id: number): Promise<UserData | null> {
+    const query = 'SELECT * FROM users WHERE id = $1';
+    const result = await pgPool.query<UserData>(query, [id]);
+    return result.rows[0] || null;
+  }
+
   /**
    * Найти пользователя по telegram_id
    */
@@ -84,6 +101,39 @@ export class User {
     return result.rows[0] || null;
   }
 
+  /**
+   * Участники чата постранично: все, кто писал в чате, и те, кто состоит в нём, но молчит
+   * Самые активные первыми
+   */
+  static async findByChat(
+    chatId: number,
+    options?: { limit?: number; offset?: number }
+  ): Promise<{ users: ChatUser[]; total: number }> {
+    const query = `
+      SELECT u.id, u.username, u.first_name, COALESCE(SUM(s.message_count), 0) as message_count, COUNT(*) OVER() as total
+      FROM users u
+      LEFT JOIN message_daily_stats s ON s.user_id = u.id AND s.chat_id = $1
+      WHERE u.id IN (
+        SELECT user_id FROM message_daily_stats WHERE chat_id = $1
+        UNION
+        SELECT user_id FROM chat_members WHERE chat_id = $1 AND status NOT IN ('left', 'kicked')
+      )
+      GROUP BY u.id, u.username, u.first_name
+      ORDER BY message_count DESC, u.id ASC
+      LIMIT $2 OFFSET $3
+    `;
+    const result = await pgPool.query(query, [chatId, options?.limit ?? 10, options?.offset ?? 0]);
+    return {
+      users: result.rows.map((row) => ({
+        id: row.id,
+        username: row.username,
+        first_name: row.first_name,
+        message_count: parseInt(row.message_count, 10),
+      })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total, 10) : 0,
+    };
+  }
+
   /**
    * Получить всех пользователей
    */
@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import path from 'path';
+// Загружаем .env так же, как бот: из корня проекта, затем из папки bot/
+dotenv.config({ path: path.resolve(process.cwd(), '../.env') });
+dotenv.config();
+import { pgPool } from '../config/database';
+import { DailyStats } from '../models/DailyStats';
+
+/**
+ * Пересчёт дневных агрегатов message_daily_stats по уже сохранённым сообщениям
+ * Запуск: npm run backfill:daily-stats [-- <chat_id>] - без chat_id пересчитываются все чаты.
+ * Бот можно не останавливать: новые сообщения ждут пересчёта текущего месяца и не теряются
+ */
+async function main() {
+  const chatArg = process.argv[2];
+  const chatId = chatArg !== undefined ? Number(chatArg) : undefined;
+  if (chatId !== undefined && !Number.isInteger(chatId)) {
+    console.error(`❌ Некорректный chat_id: ${chatArg}`);
+    process.exit(1);
+  }
+
+  console.log(`📊 Пересчёт агрегатов ${chatId !== undefined ? `чата ${chatId}` : 'всех чатов'}...`);
+  const result = await DailyStats.backfill({ chatId });
+  console.log(`✅ Готово: чатов ${result.chats}, месяцев ${result.batches}, строк ${result.rows}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Ошибка пересчёта агрегатов:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pgPool.end());
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { findPeak, formatHourRange, summarizeHeatmap } from './activityHeatmap';
+
+function emptyCells(): number[][] {
+  return Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+}
+
+describe('activityHeatmap', () => {
+  it('должен находить пик и описывать время суток и дни недели', () => {
+    const cells = emptyCells();
+    cells[2][21] = 6; // Среда, вечер
+    cells[2][10] = 2; // Среда, утро
+    cells[5][23] = 2; // Суббота, поздний вечер
+
+    expect(findPeak(cells)).toEqual({ weekday: 2, hour: 21, count: 6 });
+    expect(summarizeHeatmap(cells)).toEqual([
+      'Пик: Ср, 21:00–22:00 (сообщений: 6)',
+      'Время суток: ночь 0%, утро 20%, день 0%, вечер 80%',
+      'Самый активный день: Ср (80%), самый тихий: Пн (0%)',
+      'Будни: 80%, выходные: 20%',
+    ]);
+  });
+
+  it('должен возвращать пустую сводку, если сообщений нет', () => {
+    expect(findPeak(emptyCells())).toBeNull();
+    expect(summarizeHeatmap(emptyCells())).toEqual([]);
+  });
+
+  it('должен показывать последний час суток до полуночи', () => {
+    expect(formatHourRange(9)).toBe('09:00–10:00');
+    expect(formatHourRange(23)).toBe('23:00–00:00');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalysisService } from './analysisService';
+import { LLMService } from './llmService';
+import { LLMError } from './llm/errors';
+import { User } from '../models/User';
+import { Message, MessageData } from '../models/Message';
+import { Analysis } from '../models/Analysis';
+import { DailyStats } from '../models/DailyStats';
+import { Chat } from '../models/Chat';
+import { parsePeriod } from './periodParser';
+
+vi.mock('../config/database', () => ({
+  pgPool: { query: vi.fn() },
+  redisClient: {},
+}));
+
+vi.mock('./llmService', () => ({
+  LLMService: { generate: vi.fn() },
+}));
+
+const validJson = JSON.stringify({
+  style: 'неформальный, дружелюбный',
+  topics: ['технологии', 'еда'],
+  activity: 'вечер',
+  tone: 'позитивная',
+  features: 'много эмодзи',
+});
+
+// Текстовое сообщение пользователя 1 в чате -1
+function messageRow(id: number, text: string, createdAt: Date): MessageData {
+  return {
+    id,
+    user_id: 1,
+    telegram_message_id: id,
+    chat_id: -1,
+    text,
+    message_type: 'text',
+    media: null,
+    is_edited: false,
+    edit_count: 0,
+    edited_at: null,
+    reply_to_message_id: null,
+    topic_id: null,
+    forward_origin: null,
+    created_at: createdAt,
+  };
+}
+
+function llmResponse(text: string) {
+  return { text, provider: 'qwen' as const, model: 'qwen-plus' };
+}
+
+describe('AnalysisService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(User, 'findByTelegramId').mockResolvedValue({
+      id: 1,
+      telegram_id: 100,
+      username: 'john',
+      first_name: 'John',
+      last_name: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+    vi.spyOn(Message, 'findByUserId').mockResolvedValue([
+      messageRow(2, 'как дела?', new Date('2026-01-02T10:00:00Z')),
+      messageRow(1, 'привет', new Date('2026-01-01T10:00:00Z')),
+    ]);
+    vi.spyOn(Analysis, 'create').mockResolvedValue({} as any);
+    // Оба сообщения - в среду в 21 час
+    const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    cells[2][21] = 2;
+    vi.spyOn(DailyStats, 'getHeatmap').mockResolvedValue({ cells, total: 2 });
+    vi.spyOn(Chat, 'getTimeZone').mockResolvedValue('UTC');
+  });
+
+  it('должен разбирать валидный JSON (в том числе в ```json блоке)', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValueOnce(llmResponse('```json\n' + validJson + '\n```'));
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1 });
+
+    expect(result?.outputStatus).toBe('valid');
+    expect(result?.analysis.topics).toBe('технологии, еда');
+    expect(result?.analysis.messageCount).toBe(2);
+    expect(LLMService.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('должен сохранять результат в историю с провайдером и окном сообщений', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValueOnce(llmResponse(validJson));
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1 });
+
+    expect(Analysis.create).toHaveBeenCalledWith({
+      user_id: 1,
+      chat_id: -1,
+      provider: 'qwen',
+      model: 'qwen-plus',
+      message_count: 2,
+      window_start: new Date('2026-01-01T10:00:00Z'),
+      window_end: new Date('2026-01-02T10:00:00Z'),
+      result: result?.analysis,
+    });
+  });
+
+  it('должен передавать в промпт активность по часам за окно проанализированных сообщений', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValueOnce(llmResponse(validJson));
+
+    await AnalysisService.analyzeUser(100, { chatId: -1 });
+
+    expect(DailyStats.getHeatmap).toHaveBeenCalledWith({
+      chatId: -1,
+      userId: 1,
+      startDate: new Date('2026-01-01T10:00:00Z'),
+      endDate: undefined,
+      timeZone: 'UTC',
+    });
+    const { prompt } = vi.mocked(LLMService.generate).mock.calls[0][0];
+    expect(prompt).toContain('Активность по времени отправки сообщений (посчитано по базе, не по тексту):');
+    expect(prompt).toContain('- Пик: Ср, 21:00–22:00 (сообщений: 2)');
+    expect(prompt).toContain('"activity": "когда пользователь активен - своими словами по данным об активности выше"');
+  });
+
+  it('должен считать активность и даты в поясе чата', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue(llmResponse(validJson));
+    vi.mocked(Chat.getTimeZone).mockResolvedValue('Asia/Dushanbe');
+    // 21:30 UTC 1 января - в Душанбе уже 2 января
+    vi.mocked(Message.findByUserId).mockResolvedValueOnce([
+      messageRow(2, 'как дела?', new Date('2026-01-02T10:00:00Z')),
+      messageRow(1, 'привет', new Date('2026-01-01T21:30:00Z')),
+    ]);
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1 });
+    await AnalysisService.analyzeUser(100, { chatId: null });
+
+    expect(Chat.getTimeZone).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(DailyStats.getHeatmap).mock.calls[0][0]).toMatchObject({ chatId: -1, timeZone: 'Asia/Dushanbe' });
+    expect(vi.mocked(DailyStats.getHeatmap).mock.calls[1][0]).toMatchObject({ chatId: undefined, timeZone: 'UTC' });
+    expect(result?.analysis.period).toBe('02.01.2026');
+  });
+
+  it('должен брать сообщения только из текущего чата, а в режиме "все чаты" - без фильтра', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue(llmResponse(validJson));
+
+    await AnalysisService.analyzeUser(100, { chatId: -1 });
+    await AnalysisService.analyzeUser(100, { chatId: null });
+
+    expect(Message.findByUserId).toHaveBeenNthCalledWith(1, 1, { chatId: -1, limit: 30, withTextOnly: true });
+    expect(Message.findByUserId).toHaveBeenNthCalledWith(2, 1, { chatId: undefined, limit: 30, withTextOnly: true });
+  });
+
+  it('должен передавать период в выборку и показывать его в результате', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValueOnce(llmResponse(validJson));
+    const period = parsePeriod('2026-09-01..2026-09-30')!;
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1, period });
+
+    expect(Message.findByUserId).toHaveBeenCalledWith(1, {
+      chatId: -1,
+      limit: AnalysisService.MAX_MESSAGES,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      withTextOnly: true,
+    });
+    expect(result?.analysis.period).toBe('01.09.2026 — 30.09.2026');
+  });
+
+  it('должен подписывать обрезанную по лимиту выборку из периода фактическими датами', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue(llmResponse(validJson));
+    const period = parsePeriod('2026-01-01..2026-01-31')!;
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1, period, limit: 2 });
+
+    expect(result?.analysis.period).toBe('01.01.2026 — 02.01.2026 (последние 2 из сообщений за 01.01.2026 — 31.01.2026)');
+  });
+
+  it('должен ограничивать last:N сверху и описывать период по датам сообщений', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue(llmResponse(validJson));
+
+    await AnalysisService.analyzeUser(100, { chatId: -1, limit: 200 });
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1, limit: 100000 });
+
+    expect(vi.mocked(Message.findByUserId).mock.calls[0][1]).toMatchObject({ limit: 200 });
+    expect(vi.mocked(Message.findByUserId).mock.calls[1][1]).toMatchObject({ limit: AnalysisService.MAX_MESSAGES });
+    expect(result?.analysis.period).toBe('01.01.2026 — 02.01.2026');
+  });
+
+  it('должен суммировать большой набор сообщений по частям вместо обрезки', async () => {
+    const rows = Array.from({ length: 500 }, (_, i) =>
+      messageRow(i, `сообщение номер ${i}`.padEnd(60, '.'), new Date(Date.UTC(2026, 0, 1, 0, 500 - i))),
+    );
+    vi.mocked(Message.findByUserId).mockResolvedValueOnce(rows);
+    vi.mocked(LLMService.generate).mockImplementation(async (request) =>
+      llmResponse(request.json ? validJson : 'заметки по части'),
+    );
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1, limit: 500 });
+
+    const prompts = vi.mocked(LLMService.generate).mock.calls.map(([request]) => request.prompt);
+    const mapPrompts = prompts.slice(0, -1);
+    expect(mapPrompts.length).toBeGreaterThan(1);
+    // Все сообщения попали в части, от старых к новым
+    expect(mapPrompts[0]).toContain('сообщение номер 499.');
+    expect(mapPrompts[mapPrompts.length - 1]).toContain('сообщение номер 0.');
+    expect(prompts[prompts.length - 1]).toContain(`разбиты на ${mapPrompts.length} частей`);
+    expect(result?.analysis.messageCount).toBe(500);
+  });
+
+  it('должен делать repair-запрос к тому же провайдеру при невалидном JSON', async () => {
+    vi.mocked(LLMService.generate)
+      .mockResolvedValueOnce(llmResponse('{"style": "неформальный"}'))
+      .mockResolvedValueOnce(llmResponse(validJson));
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1 });
+
+    expect(result?.outputStatus).toBe('repaired');
+    expect(result?.analysis.tone).toBe('позитивная');
+    expect(vi.mocked(LLMService.generate).mock.calls[1][1]).toEqual({ provider: 'qwen' });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('[INVALID_OUTPUT] provider=qwen'));
+  });
+
+  it('должен использовать построчный парсер как последний fallback', async () => {
+    vi.mocked(LLMService.generate)
+      .mockResolvedValueOnce(llmResponse('Стиль: формальный\nТональность: нейтральная'))
+      .mockResolvedValueOnce(llmResponse('всё ещё не JSON'));
+
+    const result = await AnalysisService.analyzeUser(100, { chatId: -1 });
+
+    expect(result?.outputStatus).toBe('fallback');
+    expect(result?.analysis.style).toBe('формальный');
+    expect(result?.analysis.topics).toBe('Не указаны');
+  });
+
+  it('должен выбрасывать INVALID_OUTPUT, если ответ не удалось разобрать', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue(llmResponse('Извините, не могу помочь'));
+
+    const error = await AnalysisService.analyzeUser(100, { chatId: -1 }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.code).toBe('INVALID_OUTPUT');
+    expect(error.provider).toBe('qwen');
+  });
+});
@@ -0,0 +1,455 @@
+import { LLMProviderId } from '../config/llm';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Analysis, AnalysisData } from '../models/Analysis';
+import { Chat } from '../models/Chat';
+import { DailyStats } from '../models/DailyStats';
+import { Message, MessageData } from '../models/Message';
+import { User } from '../models/User';
+import { summarizeHeatmap } from './activityHeatmap';
+import { LLMService } from './llmService';
+import { LLMError } from './llm/errors';
+import { JsonSchema, validateJsonOutput } from './llm/jsonOutput';
+import { formatDateRange, ParsedPeriod } from './periodParser';
+import { CondensedText, SummarizationService } from './summarizationService';
+
+// Интерфейс для результата анализа
+export interface UserAnalysis {
+  style: string; // Стиль общения
+  topics: string; // Основные темы
+  averageLength: string; // Средняя длина сообщений
+  activity: string; // Активность по времени суток
+  tone: string; // Тональность
+  features: string; // Особенности
+  messageCount: number; // Количество проанализированных сообщений
+  period: string; // Период анализа
+}
+
+// Поля, которые LLM должна вернуть в JSON
+export type AnalysisField = 'style' | 'topics' | 'activity' | 'tone' | 'features';
+
+const ANALYSIS_SCHEMA: JsonSchema<AnalysisField> = {
+  style: 'string',
+  topics: 'string_or_list',
+  activity: 'string',
+  tone: 'string',
+  features: 'string_or_list',
+};
+
+// Как был получен результат: валидный JSON, JSON после repair-запроса или построчный парсер
+export type AnalysisOutputStatus = 'valid' | 'repaired' | 'fallback';
+
+// Результат анализа вместе с информацией о том, кто его выполнил
+export interface UserAnalysisResult {
+  analysis: UserAnalysis;
+  provider: LLMProviderId | null; // null - LLM не вызывался (нет сообщений)
+  model: string | null;
+  outputStatus: AnalysisOutputStatus | null;
+}
+
+export interface AnalyzeUserOptions {
+  chatId: number | null; // Чат, по сообщениям которого строится анализ (null - все чаты, только для админов)
+  period?: ParsedPeriod; // Период (week, 2026-09-01..2026-09-30); без него - последние сообщения
+  limit?: number; // last:N - сколько последних сообщений взять (не больше MAX_MESSAGES)
+  provider?: LLMProviderId; // Принудительно использовать одного провайдера
+}
+
+// Окно выборки сообщений для анализа
+interface MessageWindow {
+  chatId: number | null;
+  limit: number;
+  startDate?: Date;
+  endDate?: Date;
+  timeZone: string; // Пояс чата (для всех чатов - по умолчанию): в нём дни агрегатов и даты в подписи периода
+}
+
+/**
+ * Сервис анализа стиля общения пользователя
+ * Загружает сообщения, строит промпт и парсит ответ; сам вызов LLM делегирует LLMService
+ */
+export class AnalysisService {
+  // По умолчанию 30 последних сообщений - для более стабильной работы бесплатных API
+  private static readonly DEFAULT_MESSAGES = 30;
+  // Верхняя граница для last:N и для периода без last:N
+  static readonly MAX_MESSAGES = 500;
+  // Бюджет на сообщения в одном промпте (~6000 символов); больше - map-reduce по частям
+  private static readonly PROMPT_TOKEN_BUDGET = 2000;
+  private static readonly SYSTEM_PROMPT =
+    'Ты помощник, который анализирует сообщения из Telegram-чата и отвечает коротко и структурированно на русском языке.';
+
+  /**
+   * Получить последние сообщения пользователя в окне (чат, период, лимит)
+   * Стикеры, голосовые и вложения без подписи для анализа стиля бесполезны и не учитываются
+   */
+  private static async getUserMessages(userId: number, window: MessageWindow): Promise<MessageData[]> {
+    return Message.findByUserId(userId, {
+      chatId: window.chatId ?? undefined,
+      limit: window.limit,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      withTextOnly: true,
+    });
+  }
+
+  /**
+   * Окно выборки из опций: last:N ограничивает количество, период - даты
+   * Если задан только период, берём до MAX_MESSAGES последних сообщений из него
+   */
+  private static async resolveWindow(options: AnalyzeUserOptions): Promise<MessageWindow> {
+    const defaultLimit = options.period ? this.MAX_MESSAGES : this.DEFAULT_MESSAGES;
+    return {
+      chatId: options.chatId,
+      limit: Math.min(options.limit || defaultLimit, this.MAX_MESSAGES),
+      startDate: options.period?.startDate,
+      endDate: options.period?.endDate,
+      timeZone: options.chatId !== null ? await Chat.getTimeZone(options.chatId) : getDefaultTimeZone(),
+    };
+  }
+
+  /**
+   * Описание периода для UserAnalysis.period
+   * Явный период - его название; иначе фактический диапазон дат проанализированных сообщений (в поясе timeZone).
+   * Если выборка из периода упёрлась в limit, анализ покрывает не весь период - тогда тоже фактические даты
+   */
+  static describePeriod(
+    period: ParsedPeriod | undefined,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+    timeZone: string = getDefaultTimeZone(),
+    limit?: number,
+  ): string {
+    const truncated = limit !== undefined && rows.length > 0 && rows.length >= limit;
+    if (period && !truncated) {
+      return period.label;
+    }
+    if (rows.length === 0) {
+      return 'все время';
+    }
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    const range = formatDateRange(new Date(Math.min(...timestamps)), new Date(Math.max(...timestamps)), timeZone);
+    return period ? `${range} (последние ${rows.length} из сообщений за ${period.label})` : range;
+  }
+
+  /**
+   * Сводка активности по дням недели и часам за то же окно (от первого проанализированного сообщения)
+   * Считается по времени отправки всех сообщений пользователя; ошибка не ломает анализ - LLM просто не получит данных
+   */
+  private static async getActivitySummary(
+    userId: number,
+    window: MessageWindow,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+  ): Promise<string[]> {
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    try {
+      const heatmap = await DailyStats.getHeatmap({
+        chatId: window.chatId ?? undefined,
+        userId,
+        startDate: window.startDate ?? new Date(Math.min(...timestamps)),
+        endDate: window.endDate,
+        timeZone: window.timeZone,
+      });
+      return summarizeHeatmap(heatmap.cells);
+    } catch (error) {
+      console.error('❌ Не удалось посчитать активность по часам:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Сжать сообщения до бюджета промпта: если не помещаются - заметки по частям (map)
+   */
+  private static async condenseMessages(
+    messages: string[],
+    displayName: string,
+    provider?: LLMProviderId,
+  ): Promise<CondensedText> {
+    return SummarizationService.condense(messages, {
+      tokenBudget: this.PROMPT_TOKEN_BUDGET,
+      system: this.SYSTEM_PROMPT,
+      provider,
+      mapPrompt: (chunk, index, total) => `Это часть ${index + 1} из ${total} сообщений ${displayName}.
+Кратко (5-7 пунктов) опиши наблюдения по этой части: стиль общения, темы, тональность, частые слова, эмодзи и выражения.
+Приводи характерные примеры, не пересказывай сообщения целиком.
+
+Сообщения:
+${chunk}`,
+      mergePrompt: (notes) => `Объедини заметки о стиле общения ${displayName} в одну короткую сводку (5-7 пунктов), сохрани характерные примеры:
+
+${notes}`,
+    });
+  }
+
+  /**
+   * Создать промпт для анализа пользователя
+   * material - сами сообщения или заметки по частям, если сообщений слишком много;
+   * activity - сводка тепловой карты: время отправки известно точно, угадывать его по тексту не нужно
+   */
+  static createAnalysisPrompt(
+    material: CondensedText,
+    username: string | null,
+    firstName: string | null,
+    activity: string[] = [],
+  ): string {
+    const displayName = username ? `@${username}` : firstName || 'Пользователь';
+    const source = material.condensed
+      ? `по заметкам о его сообщениях (сообщения разбиты на ${material.chunks} частей, заметки по каждой части)`
+      : 'по сообщениям';
+    const activitySection = activity.length
+      ? `\n\nАктивность по времени отправки сообщений (посчитано по базе, не по тексту):\n${activity.map((line) => `- ${line}`).join('\n')}`
+      : '';
+    const activityHint = activity.length
+      ? 'когда пользователь активен - своими словами по данным об активности выше'
+      : 'время суток активности, если видно';
+
+    return `Проанализируй стиль общения ${displayName} ${source}:
+
+${material.text}${activitySection}
+
+Ответь строго одним JSON-объектом без markdown и пояснений:
+{
+  "style": "формальный/неформальный, дружелюбный/строгий",
+  "topics": "основные темы через запятую",
+  "activity": "${activityHint}",
+  "tone": "позитивная/нейтральная/негативная",
+  "features": "частые слова, эмодзи, выражения"
+}
+
+Все поля обязательны, значения - короткие строки на русском. Кратко и конкретно.`;
+  }
+
+  /**
+   * Промпт для исправления ответа, не прошедшего валидацию
+   */
+  private static createRepairPrompt(invalidOutput: string, errors: string[]): string {
+    return `Твой предыдущий ответ не соответствует требуемому формату.
+
+Ошибки:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Предыдущий ответ:
+${invalidOutput}
+
+Верни исправленный ответ строго одним JSON-объектом с полями "style", "topics", "activity", "tone", "features" (все - непустые строки на русском), без markdown и пояснений.`;
+  }
+
+  /**
+   * Собрать UserAnalysis из провалидированных полей
+   */
+  private static buildAnalysis(
+    fields: Record<AnalysisField, string>,
+    messageCount: number,
+    averageLength: number,
+    period: string,
+  ): UserAnalysis {
+    return {
+      ...fields,
+      averageLength: `${averageLength} символов`,
+      messageCount,
+      period,
+    };
+  }
+
+  /**
+   * Парсинг ответа LLM по строкам "Стиль: ..." (последний fallback, если JSON не удался)
+   * Возвращает null, если не распознано ни одного поля
+   */
+  static parseAnalysisFields(responseText: string): Record<AnalysisField, string> | null {
+    const lines = responseText.split('\n').map((line) => line.trim()).filter((line) => line);
+    const prefixes: Record<AnalysisField, string> = {
+      style: 'стиль:',
+      topics: 'темы:',
+      activity: 'активность:',
+      tone: 'тональность:',
+      features: 'особенности:',
+    };
+
+    const fields: Record<AnalysisField, string> = {
+      style: 'Не указан',
+      topics: 'Не указаны',
+      activity: 'Не указана',
+      tone: 'Не указана',
+      features: 'Не указаны',
+    };
+    let recognized = 0;
+
+    for (const line of lines) {
+      for (const field of Object.keys(prefixes) as AnalysisField[]) {
+        if (line.toLowerCase().startsWith(prefixes[field])) {
+          fields[field] = line.slice(prefixes[field].length).trim();
+          recognized++;
+          break;
+        }
+      }
+    }
+
+    return recognized > 0 ? fields : null;
+  }
+
+  /**
+   * Анализировать пользователя и сохранить результат в историю
+   * Возвращает null, если пользователь не найден
+   */
+  static async analyzeUser(
+    telegramUserId: number,
+    options: AnalyzeUserOptions,
+  ): Promise<UserAnalysisResult | null> {
+    const user = await User.findByTelegramId(telegramUserId);
+    if (!user) {
+      return null;
+    }
+
+    const window = await this.resolveWindow(options);
+    const rows = await this.getUserMessages(user.id, window);
+    const messages = rows.map((msg) => msg.text);
+    const period = this.describePeriod(options.period, rows, window.timeZone, window.limit);
+
+    if (messages.length === 0) {
+      return {
+        analysis: {
+          style: 'Недостаточно данных',
+          topics: 'Нет сообщений для анализа',
+          averageLength: '0',
+          activity: 'Недостаточно данных',
+          tone: 'Недостаточно данных',
+          features: 'Нет данных',
+          messageCount: 0,
+          period,
+        },
+        provider: null,
+        model: null,
+        outputStatus: null,
+      };
+    }
+
+    // Вычисляем среднюю длину сообщений
+    const totalLength = messages.reduce((sum, msg) => sum + msg.length, 0);
+    const averageLength = Math.round(totalLength / messages.length);
+
+    // Сообщения приходят от новых к старым - для пересказа по частям нужен хронологический порядок
+    const displayName = user.username ? `@${user.username}` : user.first_name || 'Пользователь';
+    const material = await this.condenseMessages([...messages].reverse(), displayName, options.provider);
+    const activity = await this.getActivitySummary(user.id, window, rows);
+    const prompt = this.createAnalysisPrompt(material, user.username, user.first_name, activity);
+
+    console.log(
+      `🤖 Анализ пользователя ${telegramUserId} (${messages.length} сообщений, чат: ${options.chatId ?? 'все'}, период: ${period})`,
+    );
+    const { fields, provider, model, outputStatus } = await this.requestAnalysis(prompt, options.provider);
+    const analysis = this.buildAnalysis(fields, messages.length, averageLength, period);
+
+    await this.saveAnalysis(user.id, options.chatId, analysis, provider, model, rows);
+
+    return {
+      analysis,
+      provider,
+      model,
+      outputStatus,
+    };
+  }
+
+  /**
+   * История анализов пользователя (новые сначала)
+   * Возвращает null, если пользователь не найден
+   */
+  static async getHistory(
+    telegramUserId: number,
+    options?: { chatId?: number; limit?: number },
+  ): Promise<AnalysisData<UserAnalysis>[] | null> {
+    const user = await User.findByTelegramId(telegramUserId);
+    if (!user) {
+      return null;
+    }
+    return Analysis.findByUserId<UserAnalysis>(user.id, options);
+  }
+
+  /**
+   * Сохранить результат в таблицу analyses (ошибка сохранения не ломает сам анализ)
+   */
+  private static async saveAnalysis(
+    userId: number,
+    chatId: number | null,
+    analysis: UserAnalysis,
+    provider: LLMProviderId,
+    model: string,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+  ): Promise<void> {
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    try {
+      await Analysis.create({
+        user_id: userId,
+        chat_id: chatId,
+        provider,
+        model,
+        message_count: analysis.messageCount,
+        window_start: timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null,
+        window_end: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null,
+        result: analysis,
+      });
+    } catch (error) {
+      console.error('❌ Не удалось сохранить анализ в БД:', error);
+    }
+  }
+
+  /**
+   * Запросить анализ у LLM и провалидировать JSON
+   * Если JSON невалиден - один repair-запрос к тому же провайдеру, затем построчный парсер
+   */
+  private static async requestAnalysis(
+    prompt: string,
+    providerId?: LLMProviderId,
+  ): Promise<{
+    fields: Record<AnalysisField, string>;
+    provider: LLMProviderId;
+    model: string;
+    outputStatus: AnalysisOutputStatus;
+  }> {
+    const system = `${this.SYSTEM_PROMPT} Отвечай только валидным JSON.`;
+    const response = await LLMService.generate({ system, prompt, json: true }, { provider: providerId });
+    const { provider, model } = response;
+
+    const validation = validateJsonOutput(response.text, ANALYSIS_SCHEMA);
+    if (validation.ok) {
+      return { fields: validation.value, provider, model, outputStatus: 'valid' };
+    }
+
+    this.reportInvalidOutput(provider, model, validation.errors, 'первый ответ');
+
+    // Repair: просим того же провайдера исправить ответ
+    try {
+      const repaired = await LLMService.generate(
+        { system, prompt: this.createRepairPrompt(response.text, validation.errors), json: true },
+        { provider },
+      );
+      const repairedValidation = validateJsonOutput(repaired.text, ANALYSIS_SCHEMA);
+      if (repairedValidation.ok) {
+        return { fields: repairedValidation.value, provider, model: repaired.model, outputStatus: 'repaired' };
+      }
+      this.reportInvalidOutput(provider, repaired.model, repairedValidation.errors, 'после repair');
+    } catch (error) {
+      console.error(`❌ Repair-запрос к ${provider} не удался:`, error instanceof Error ? error.message : error);
+    }
+
+    // Последний fallback: построчный парсер по исходному ответу
+    const fields = this.parseAnalysisFields(response.text);
+    if (!fields) {
+      throw new LLMError('INVALID_OUTPUT', `${provider} (${model}) вернул ответ, который не удалось разобрать`, {
+        provider,
+      });
+    }
+
+    return { fields, provider, model, outputStatus: 'fallback' };
+  }
+
+  /**
+   * Залогировать ответ, не прошедший валидацию, с указанием провайдера и модели
+   * Отдельный префикс [INVALID_OUTPUT] позволяет искать в логах, какой провайдер отвечает плохо
+   */
+  private static reportInvalidOutput(
+    provider: LLMProviderId,
+    model: string,
+    errors: string[],
+    stage: string,
+  ): void {
+    console.warn(
+      `⚠️ [INVALID_OUTPUT] provider=${provider} model=${model} (${stage}): ${errors.join('; ')}`,
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { ChartService } from './chartService';
+
+// Размеры и пиксели PNG: IHDR и распакованный IDAT (у всех строк фильтр 0)
+function decodePng(png: Buffer) {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatStart = png.indexOf('IDAT');
+  const idatLength = png.readUInt32BE(idatStart - 4);
+  const raw = inflateSync(png.subarray(idatStart + 4, idatStart + 4 + idatLength));
+  const pixel = (x: number, y: number) => {
+    const offset = y * (width * 3 + 1) + 1 + x * 3;
+    return [raw[offset], raw[offset + 1], raw[offset + 2]];
+  };
+  return { width, height, raw, pixel };
+}
+
+describe('ChartService', () => {
+  it('должен рисовать тепловую карту валидным PNG', () => {
+    const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    cells[0][0] = 10;
+
+    const png = ChartService.renderHeatmap(cells);
+    const { width, height, raw, pixel } = decodePng(png);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.subarray(png.length - 8, png.length - 4).toString('ascii')).toBe('IEND');
+    expect(raw.length).toBe((width * 3 + 1) * height);
+    expect(width).toBeGreaterThan(24 * 20);
+    expect(height).toBeGreaterThan(7 * 20);
+    // Левый верхний угол - фон, в картинке есть и пик (тёмно-зелёный), и пустые клетки (серые)
+    expect(pixel(0, 0)).toEqual([255, 255, 255]);
+    const colors = new Set<string>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        colors.add(pixel(x, y).join(','));
+      }
+    }
+    expect(colors).toContain(ChartService.heatColor(10, 10).join(','));
+    expect(colors).toContain(ChartService.heatColor(0, 10).join(','));
+  });
+
+  it('должен темнеть от редкой активности к пику', () => {
+    const low = ChartService.heatColor(1, 100);
+    const high = ChartService.heatColor(100, 100);
+
+    expect(ChartService.heatColor(0, 100)).toEqual([235, 237, 240]);
+    expect(high).toEqual([25, 97, 39]);
+    expect(low[1]).toBeGreaterThan(high[1]);
+  });
+
+  it('должен рисовать столбец на каждого участника длиной по числу сообщений', () => {
+    const three = decodePng(ChartService.renderBarChart([40, 20, 10]));
+    const five = decodePng(ChartService.renderBarChart([40, 20, 10, 5, 1]));
+
+    expect(five.width).toBe(three.width);
+    expect(five.height).toBeGreaterThan(three.height);
+    // Ширина столбца в строке по его середине: первый вдвое длиннее второго
+    const barWidth = (row: number) => {
+      let width = 0;
+      for (let x = 0; x < three.width; x++) {
+        if (three.pixel(x, row).join(',') === '64,145,78') width++;
+      }
+      return width;
+    };
+    const firstBar = barWidth(12 + 11);
+    expect(firstBar).toBeGreaterThan(0);
+    expect(Math.abs(barWidth(12 + 11 + 28) * 2 - firstBar)).toBeLessThanOrEqual(1);
+  });
+
+  it('должен рисовать график по дням, в том числе из одной точки', () => {
+    const points = [
+      { date: '2026-09-01', count: 3 },
+      { date: '2026-09-02', count: 0 },
+      { date: '2026-09-03', count: 7 },
+    ];
+
+    for (const chart of [ChartService.renderLineChart(points), ChartService.renderLineChart(points.slice(0, 1))]) {
+      const { width, height, raw, pixel } = decodePng(chart);
+      expect(raw.length).toBe((width * 3 + 1) * height);
+      const colors = new Set<string>();
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          colors.add(pixel(x, y).join(','));
+        }
+      }
+      expect(colors).toContain('25,97,39');
+    }
+  });
+});
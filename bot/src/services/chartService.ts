@@ -0,0 +1,171 @@
+import { HEATMAP_WEEKDAYS } from './activityHeatmap';
+import { Canvas, Color } from './charts/canvas';
+
+// Палитра графиков
+const BACKGROUND: Color = [255, 255, 255];
+const TEXT: Color = [87, 96, 106];
+const EMPTY: Color = [235, 237, 240];
+const LOW: Color = [198, 228, 139];
+const HIGH: Color = [25, 97, 39];
+const BAR: Color = [64, 145, 78];
+const GRID: Color = [225, 228, 232];
+
+// Точка графика активности по дням
+export interface DailyPoint {
+  date: string; // YYYY-MM-DD
+  count: number;
+}
+
+/**
+ * Сервис графиков для Telegram: рисует PNG прямо в процессе бота, без внешних сервисов и нативных модулей
+ */
+export class ChartService {
+  private static readonly PADDING = 12;
+  private static readonly FONT_SCALE = 2; // Шрифт 5×7 в два раза крупнее
+  private static readonly CELL = 22;
+  private static readonly GAP = 2;
+  private static readonly WIDTH = 640; // Ширина столбчатой диаграммы и графика по дням
+  private static readonly BAR_HEIGHT = 22;
+  private static readonly PLOT_HEIGHT = 200;
+
+  /**
+   * Цвет клетки: серый - сообщений нет, дальше от светло- до тёмно-зелёного
+   * Корень сглаживает разброс, чтобы редкая активность рядом с пиком оставалась заметной
+   */
+  static heatColor(count: number, max: number): Color {
+    if (count <= 0 || max <= 0) {
+      return EMPTY;
+    }
+    const t = Math.sqrt(count / max);
+    return LOW.map((low, channel) => Math.round(low + (HIGH[channel] - low) * t)) as Color;
+  }
+
+  /**
+   * Тепловая карта "день недели × час": строки - дни с понедельника, столбцы - часы, внизу шкала 0..максимум
+   */
+  static renderHeatmap(cells: number[][]): Buffer {
+    const { PADDING, FONT_SCALE, CELL, GAP } = this;
+    const step = CELL + GAP;
+    const fontHeight = 7 * FONT_SCALE;
+    const left = PADDING + Canvas.textWidth('Пн', FONT_SCALE) + 10;
+    const top = PADDING + fontHeight + 8;
+    const gridWidth = 24 * step - GAP;
+    const gridHeight = 7 * step - GAP;
+    const legendTop = top + gridHeight + 12;
+
+    const canvas = new Canvas(left + gridWidth + PADDING, legendTop + fontHeight + PADDING, BACKGROUND);
+    const max = Math.max(0, ...cells.flat());
+
+    // Часы над сеткой - каждые три часа
+    for (let hour = 0; hour < 24; hour += 3) {
+      const label = String(hour);
+      canvas.drawText(label, left + hour * step + (CELL - Canvas.textWidth(label, FONT_SCALE)) / 2, PADDING, TEXT, FONT_SCALE);
+    }
+
+    HEATMAP_WEEKDAYS.forEach((name, weekday) => {
+      const y = top + weekday * step;
+      canvas.drawText(name, PADDING, y + (CELL - fontHeight) / 2, TEXT, FONT_SCALE);
+      for (let hour = 0; hour < 24; hour++) {
+        canvas.fillRect(left + hour * step, y, CELL, CELL, this.heatColor(cells[weekday]?.[hour] ?? 0, max));
+      }
+    });
+
+    // Шкала: 0, пять оттенков и максимум
+    canvas.drawText('0', left, legendTop, TEXT, FONT_SCALE);
+    const scaleLeft = left + Canvas.textWidth('0', FONT_SCALE) + 8;
+    const shades = [0, 0.1, 0.3, 0.6, 1];
+    shades.forEach((share, index) => {
+      const color = share === 0 ? EMPTY : this.heatColor(share, 1);
+      canvas.fillRect(scaleLeft + index * (fontHeight + GAP), legendTop, fontHeight, fontHeight, color);
+    });
+    canvas.drawText(String(max), scaleLeft + shades.length * (fontHeight + GAP) + 6, legendTop, TEXT, FONT_SCALE);
+
+    return canvas.toPng();
+  }
+
+  /**
+   * Подпись даты на оси: 15.09, а если график захватывает несколько лет - 15.09.26
+   */
+  private static formatAxisDate(date: string, withYear: boolean): string {
+    const [year, month, day] = date.split('-');
+    return withYear ? `${day}.${month}.${year.slice(2)}` : `${day}.${month}`;
+  }
+
+  /**
+   * Столбчатая диаграмма топа участников: слева место, справа число сообщений
+   * Имён на картинке нет (растровый шрифт их не покажет) - место расшифровывается в подписи к картинке
+   */
+  static renderBarChart(values: number[]): Buffer {
+    const { PADDING, FONT_SCALE, GAP, WIDTH, BAR_HEIGHT } = this;
+    const fontHeight = 7 * FONT_SCALE;
+    const step = BAR_HEIGHT + GAP * 3;
+    const max = Math.max(0, ...values);
+    const left = PADDING + Canvas.textWidth(String(values.length), FONT_SCALE) + 10;
+    const barSpace = WIDTH - left - PADDING - Canvas.textWidth(String(max), FONT_SCALE) - 8;
+
+    const canvas = new Canvas(WIDTH, PADDING * 2 + Math.max(1, values.length) * step - GAP * 3, BACKGROUND);
+    values.forEach((value, index) => {
+      const y = PADDING + index * step;
+      const textY = y + (BAR_HEIGHT - fontHeight) / 2;
+      const label = String(index + 1);
+      canvas.drawText(label, left - 10 - Canvas.textWidth(label, FONT_SCALE), textY, TEXT, FONT_SCALE);
+      // Даже у самого маленького значения виден кусочек столбца
+      const barWidth = max > 0 ? Math.max(2, Math.round((value / max) * barSpace)) : 0;
+      canvas.fillRect(left, y, barWidth, BAR_HEIGHT, BAR);
+      canvas.drawText(String(value), left + barWidth + 8, textY, TEXT, FONT_SCALE);
+    });
+
+    return canvas.toPng();
+  }
+
+  /**
+   * График сообщений по дням: линия по точкам, сетка 0 / середина / максимум, даты начала, середины и конца
+   * points - подряд идущие дни, дни без сообщений - с нулём
+   */
+  static renderLineChart(points: DailyPoint[]): Buffer {
+    const { PADDING, FONT_SCALE, WIDTH, PLOT_HEIGHT } = this;
+    const fontHeight = 7 * FONT_SCALE;
+    const max = Math.max(0, ...points.map((point) => point.count));
+    // Шкала не меньше единицы, чтобы пустой период рисовался линией по нулю
+    const scaleMax = Math.max(1, max);
+    const left = PADDING + Canvas.textWidth(String(scaleMax), FONT_SCALE) + 8;
+    const right = WIDTH - PADDING;
+    const top = PADDING + fontHeight / 2;
+    const bottom = top + PLOT_HEIGHT;
+
+    const canvas = new Canvas(WIDTH, bottom + 8 + fontHeight + PADDING, BACKGROUND);
+    const yOf = (count: number) => bottom - (count / scaleMax) * PLOT_HEIGHT;
+    const xOf = (index: number) => (points.length > 1 ? left + (index / (points.length - 1)) * (right - left) : (left + right) / 2);
+
+    for (const value of new Set([0, Math.round(scaleMax / 2), scaleMax])) {
+      const y = Math.round(yOf(value));
+      canvas.fillRect(left, y, right - left, 1, GRID);
+      const label = String(value);
+      canvas.drawText(label, left - 8 - Canvas.textWidth(label, FONT_SCALE), y - fontHeight / 2, TEXT, FONT_SCALE);
+    }
+
+    points.forEach((point, index) => {
+      if (index > 0) {
+        canvas.drawLine(xOf(index - 1), yOf(points[index - 1].count), xOf(index), yOf(point.count), HIGH, 3);
+      }
+      // Отдельные точки видны, только пока дней немного
+      if (points.length <= 31) {
+        canvas.fillRect(xOf(index) - 3, yOf(point.count) - 3, 6, 6, HIGH);
+      }
+    });
+
+    if (points.length > 0) {
+      const withYear = points[0].date.slice(0, 4) !== points[points.length - 1].date.slice(0, 4);
+      const labelIndexes = [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])];
+      labelIndexes.forEach((index) => {
+        const label = this.formatAxisDate(points[index].date, withYear);
+        const width = Canvas.textWidth(label, FONT_SCALE);
+        // Подписи не выходят за края картинки
+        const x = Math.min(Math.max(xOf(index) - width / 2, PADDING), WIDTH - PADDING - width);
+        canvas.drawText(label, x, bottom + 8, TEXT, FONT_SCALE);
+      });
+    }
+
+    return canvas.toPng();
+  }
+}
@@ -0,0 +1,76 @@
+import { GLYPH_HEIGHT, GLYPH_WIDTH, GLYPHS } from './font';
+import { encodePng } from './png';
+
+// Цвет RGB, каналы 0-255
+export type Color = [number, number, number];
+
+/**
+ * Холст для графиков: прямоугольники и подписи растровым шрифтом, результат - PNG
+ * Рисование вне холста обрезается
+ */
+export class Canvas {
+  private readonly pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number, background: Color) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  /**
+   * Ширина подписи в пикселях (между символами - один пустой столбец)
+   */
+  static textWidth(text: string, scale: number = 1): number {
+    return text.length === 0 ? 0 : (text.length * (GLYPH_WIDTH + 1) - 1) * scale;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+    for (let row = top; row < bottom; row++) {
+      for (let column = left; column < right; column++) {
+        const offset = (row * this.width + column) * 3;
+        this.pixels[offset] = color[0];
+        this.pixels[offset + 1] = color[1];
+        this.pixels[offset + 2] = color[2];
+      }
+    }
+  }
+
+  /**
+   * Отрезок толщиной thickness: квадраты по шагам вдоль самой длинной оси
+   */
+  drawLine(x0: number, y0: number, x1: number, y1: number, color: Color, thickness: number = 1): void {
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+    const offset = thickness / 2;
+    for (let step = 0; step <= steps; step++) {
+      const t = step / steps;
+      this.fillRect(x0 + (x1 - x0) * t - offset, y0 + (y1 - y0) * t - offset, thickness, thickness, color);
+    }
+  }
+
+  /**
+   * Подпись с левым верхним углом в (x, y); символы, которых нет в шрифте, рисуются пробелом
+   */
+  drawText(text: string, x: number, y: number, color: Color, scale: number = 1): void {
+    [...text].forEach((char, index) => {
+      const glyph = GLYPHS[char];
+      if (!glyph) {
+        return;
+      }
+      const left = x + index * (GLYPH_WIDTH + 1) * scale;
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if (glyph[row][column] === '#') {
+            this.fillRect(left + column * scale, y + row * scale, scale, scale, color);
+          }
+        }
+      }
+    });
+  }
+
+  toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
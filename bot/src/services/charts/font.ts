@@ -0,0 +1,34 @@
+/**
+ * Растровый шрифт 5×7 для подписей на графиках
+ * Только символы, которые встречаются в подписях: цифры, знаки, даты и сокращения дней недели
+ */
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+// '#' - закрашенный пиксель
+export const GLYPHS: Record<string, string[]> = {
+  '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['#####', '...#.', '..#..', '...#.', '....#', '#...#', '.###.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+  ':': ['.....', '.##..', '.##..', '.....', '.##..', '.##..', '.....'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '.##..', '.##..'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+  'П': ['#####', '#...#', '#...#', '#...#', '#...#', '#...#', '#...#'],
+  'В': ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+  'С': ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+  'Ч': ['#...#', '#...#', '#...#', '.####', '....#', '....#', '....#'],
+  'н': ['.....', '.....', '#...#', '#...#', '#####', '#...#', '#...#'],
+  'т': ['.....', '.....', '#####', '..#..', '..#..', '..#..', '..#..'],
+  'р': ['.....', '.....', '####.', '#...#', '####.', '#....', '#....'],
+  'б': ['..###', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  'с': ['.....', '.....', '.###.', '#....', '#....', '#....', '.###.'],
+};
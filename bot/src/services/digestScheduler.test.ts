@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DigestScheduler } from './digestScheduler';
+import { DigestService } from './digestService';
+import { DigestSchedule, DigestScheduleData } from '../models/DigestSchedule';
+import { Chat } from '../models/Chat';
+
+vi.mock('../config/database', () => ({
+  pgPool: { query: vi.fn() },
+  redisClient: {},
+}));
+
+const digest = {
+  summary: 'обсуждали релиз',
+  actionItems: [{ text: 'выкатить', assignee: null, sourceMessageId: null, dueDate: null }],
+  openTasks: [],
+  topics: 'релиз',
+  tone: 'позитивный',
+};
+const run = {
+  id: 1,
+  digest,
+  provider: 'qwen' as const,
+  model: 'qwen-plus',
+  messageCount: 10,
+  cached: false,
+  createdAt: new Date(),
+};
+
+function schedule(overrides: Partial<DigestScheduleData> = {}): DigestScheduleData {
+  return {
+    chat_id: -1,
+    send_time: '21:00',
+    enabled: true,
+    last_sent_date: '2026-10-18',
+    created_by: 100,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('DigestScheduler', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Chat, 'getTimeZone').mockResolvedValue('UTC');
+  });
+
+  it('должен разбирать время отправки', () => {
+    expect(DigestScheduler.parseTime('9:05')).toBe('09:05');
+    expect(DigestScheduler.parseTime('21:00')).toBe('21:00');
+    expect(DigestScheduler.parseTime('24:00')).toBeNull();
+    expect(DigestScheduler.parseTime('вечером')).toBeNull();
+  });
+
+  it('должен отправлять сегодняшний дайджест после наступления времени и только один раз', () => {
+    const evening = new Date(2026, 9, 19, 21, 0);
+
+    expect(DigestScheduler.getDueRun(schedule(), new Date(2026, 9, 19, 20, 59))).toBeNull();
+    expect(DigestScheduler.getDueRun(schedule(), evening)).toEqual({ date: '2026-10-19', period: 'today' });
+    expect(DigestScheduler.getDueRun(schedule({ last_sent_date: '2026-10-19' }), evening)).toBeNull();
+  });
+
+  it('должен догонять пропущенный вчерашний дайджест после перезапуска', () => {
+    const morning = new Date(2026, 9, 19, 8, 0);
+
+    expect(DigestScheduler.getDueRun(schedule({ last_sent_date: '2026-10-17' }), morning)).toEqual({
+      date: '2026-10-18',
+      period: 'yesterday',
+    });
+  });
+
+  it('не должен отправлять дайджест сразу при включении, если время сегодня уже прошло', () => {
+    const now = new Date(2026, 9, 19, 22, 0);
+
+    expect(DigestScheduler.initialSentDate('21:00', now)).toBe('2026-10-19');
+    expect(DigestScheduler.initialSentDate('23:00', now)).toBe('2026-10-18');
+  });
+
+  it('должен отправлять дайджест только если удалось занять день в БД', async () => {
+    const now = new Date(2026, 9, 19, 21, 5);
+    vi.spyOn(DigestSchedule, 'findEnabled').mockResolvedValue([schedule({ chat_id: -1 }), schedule({ chat_id: -2 })]);
+    vi.spyOn(DigestSchedule, 'claimRun').mockImplementation(async (chatId) => chatId === -1);
+    vi.spyOn(DigestService, 'generateDigest').mockResolvedValue(run);
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    await DigestScheduler.tick(send, now);
+
+    expect(DigestSchedule.claimRun).toHaveBeenCalledWith(-1, '2026-10-19');
+    expect(DigestSchedule.claimRun).toHaveBeenCalledWith(-2, '2026-10-19');
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(-1, digest, expect.objectContaining({ key: 'today', label: 'сегодня' }));
+  });
+
+  it('должен откатывать отметку при ошибке отправки и не повторять сразу', async () => {
+    const now = new Date(2026, 9, 19, 21, 5);
+    vi.spyOn(DigestSchedule, 'findEnabled').mockResolvedValue([schedule({ chat_id: -3 })]);
+    vi.spyOn(DigestSchedule, 'claimRun').mockResolvedValue(true);
+    vi.spyOn(DigestSchedule, 'releaseRun').mockResolvedValue();
+    vi.spyOn(DigestService, 'generateDigest').mockResolvedValue(run);
+    const send = vi.fn().mockRejectedValue(new Error('network'));
+
+    await DigestScheduler.tick(send, now);
+    await DigestScheduler.tick(send, new Date(2026, 9, 19, 21, 6));
+
+    expect(DigestSchedule.releaseRun).toHaveBeenCalledWith(-3, '2026-10-19', '2026-10-18');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('должен считать время отправки и дни по часовому поясу чата', () => {
+    // 21:30 UTC - в Москве уже 00:30 следующего дня
+    const now = new Date('2026-10-19T21:30:00Z');
+
+    expect(DigestScheduler.getDueRun(schedule(), now, 'UTC')).toEqual({ date: '2026-10-19', period: 'today' });
+    expect(DigestScheduler.getDueRun(schedule(), now, 'Europe/Moscow')).toEqual({ date: '2026-10-19', period: 'yesterday' });
+    expect(DigestScheduler.initialSentDate('23:00', now, 'Europe/Moscow')).toBe('2026-10-19');
+    expect(DigestScheduler.initialSentDate('00:15', now, 'Europe/Moscow')).toBe('2026-10-20');
+  });
+
+  it('должен отправлять дайджест, если время попало на перевод часов вперёд', () => {
+    // Берлин, 29.03.2026: в 02:00 часы переводятся на 03:00, 02:30 не наступает
+    const daily = schedule({ send_time: '02:30', last_sent_date: '2026-03-28' });
+
+    expect(DigestScheduler.getDueRun(daily, new Date('2026-03-29T00:59:00Z'), 'Europe/Berlin')).toBeNull();
+    expect(DigestScheduler.getDueRun(daily, new Date('2026-03-29T01:00:00Z'), 'Europe/Berlin')).toEqual({
+      date: '2026-03-29',
+      period: 'today',
+    });
+  });
+
+  it('не должен отправлять дайджест дважды, когда время повторяется при переводе часов назад', () => {
+    // Берлин, 25.10.2026: 02:30 наступает в 00:30 UTC (летнее время) и ещё раз в 01:30 UTC (зимнее)
+    const daily = schedule({ send_time: '02:30', last_sent_date: '2026-10-24' });
+
+    expect(DigestScheduler.getDueRun(daily, new Date('2026-10-25T00:30:00Z'), 'Europe/Berlin')).toEqual({
+      date: '2026-10-25',
+      period: 'today',
+    });
+    expect(
+      DigestScheduler.getDueRun({ ...daily, last_sent_date: '2026-10-25' }, new Date('2026-10-25T01:30:00Z'), 'Europe/Berlin')
+    ).toBeNull();
+  });
+
+  it('должен собирать дайджест за день в поясе чата', async () => {
+    // 19:05 UTC - в Душанбе (UTC+5) 00:05 20 октября, время отправки 00:00
+    const now = new Date('2026-10-19T19:05:00Z');
+    vi.mocked(Chat.getTimeZone).mockResolvedValue('Asia/Dushanbe');
+    vi.spyOn(DigestSchedule, 'findEnabled').mockResolvedValue([schedule({ chat_id: -4, send_time: '00:00', last_sent_date: '2026-10-19' })]);
+    vi.spyOn(DigestSchedule, 'claimRun').mockResolvedValue(true);
+    vi.spyOn(DigestService, 'generateDigest').mockResolvedValue(run);
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    await DigestScheduler.tick(send, now);
+
+    expect(DigestSchedule.claimRun).toHaveBeenCalledWith(-4, '2026-10-20');
+    expect(DigestService.generateDigest).toHaveBeenCalledWith({
+      chatId: -4,
+      timeZone: 'Asia/Dushanbe',
+      period: expect.objectContaining({ key: 'today', startDate: new Date('2026-10-19T19:00:00Z'), endDate: now }),
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Chat } from '../models/Chat';
+import { DigestSchedule, DigestScheduleData } from '../models/DigestSchedule';
+import { ChatDigestResult, DigestService } from './digestService';
+import { ParsedPeriod, parsePeriod } from './periodParser';
+import { getZonedTime, toZonedDateKey } from './timeZone';
+
+// Отправка готового дайджеста в чат (форматирование и Telegram API - на стороне бота)
+export type DigestSender = (chatId: number, digest: ChatDigestResult, period: ParsedPeriod) => Promise<void>;
+
+// Запуск, который нужно выполнить для расписания
+export interface DueDigestRun {
+  date: string; // День дайджеста, YYYY-MM-DD
+  period: 'today' | 'yesterday';
+}
+
+/**
+ * Планировщик автоматических дайджестов (внутри процесса бота)
+ * Раз в минуту проверяет включённые расписания из digest_schedules и отправляет дайджест,
+ * если наступило время, а за этот день он ещё не отправлен. Время и дни - в часовом поясе чата. После перезапуска догоняет
+ * пропущенный запуск: сегодняшний (если время уже прошло) или вчерашний (если бот лежал вечером)
+ */
+export class DigestScheduler {
+  private static readonly TICK_INTERVAL = 60 * 1000;
+  // Пауза перед повтором после неудачной отправки (чтобы не дёргать LLM каждую минуту)
+  private static readonly RETRY_DELAY = 15 * 60 * 1000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+  private static retryAfter = new Map<number, number>();
+
+  /**
+   * Разобрать время "21:00" → "21:00" (нормализованное), null если формат неверный
+   */
+  static parseTime(value: string): string | null {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      return null;
+    }
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  /**
+   * Дата в формате YYYY-MM-DD в часовом поясе чата
+   */
+  static toDateKey(date: Date, timeZone: string = getDefaultTimeZone()): string {
+    return toZonedDateKey(date, timeZone);
+  }
+
+  /**
+   * Вчерашний день в часовом поясе чата, YYYY-MM-DD
+   */
+  private static previousDateKey(now: Date, timeZone: string): string {
+    const { year, month, day } = getZonedTime(now, timeZone);
+    return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Наступило ли сегодня время отправки (по часам чата)
+   * В день перехода на летнее время пропущенное время (02:30 при переводе с 02:00 на 03:00) наступает в 03:00,
+   * а повторяющееся при переводе назад срабатывает один раз - день уже отмечен в last_sent_date
+   */
+  private static isTimeReached(sendTime: string, now: Date, timeZone: string): boolean {
+    const [hours, minutes] = sendTime.split(':').map((part) => parseInt(part, 10));
+    const local = getZonedTime(now, timeZone);
+    return local.hour * 60 + local.minute >= hours * 60 + minutes;
+  }
+
+  /**
+   * С какого дня считать дайджест уже отправленным при включении расписания
+   * Если время сегодня уже прошло - первый дайджест будет завтра, а не сразу после команды
+   */
+  static initialSentDate(sendTime: string, now: Date = new Date(), timeZone: string = getDefaultTimeZone()): string {
+    if (this.isTimeReached(sendTime, now, timeZone)) {
+      return this.toDateKey(now, timeZone);
+    }
+    return this.previousDateKey(now, timeZone);
+  }
+
+  /**
+   * Какой дайджест должен быть отправлен сейчас (null - ничего)
+   * После времени отправки - сегодняшний; до него - вчерашний, если его пропустили
+   */
+  static getDueRun(
+    schedule: Pick<DigestScheduleData, 'send_time' | 'last_sent_date'>,
+    now: Date,
+    timeZone: string = getDefaultTimeZone(),
+  ): DueDigestRun | null {
+    const run: DueDigestRun = this.isTimeReached(schedule.send_time, now, timeZone)
+      ? { date: this.toDateKey(now, timeZone), period: 'today' }
+      : { date: this.previousDateKey(now, timeZone), period: 'yesterday' };
+
+    // YYYY-MM-DD сравниваются как строки
+    if (schedule.last_sent_date && schedule.last_sent_date >= run.date) {
+      return null;
+    }
+    return run;
+  }
+
+  /**
+   * Запустить планировщик: сразу одна проверка (догоняем пропуски), затем раз в минуту
+   */
+  static start(send: DigestSender): void {
+    if (this.timer) {
+      return;
+    }
+    console.log('⏰ Планировщик дайджестов запущен');
+    void this.tick(send);
+    this.timer = setInterval(() => void this.tick(send), this.TICK_INTERVAL);
+  }
+
+  /**
+   * Остановить планировщик
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Одна проверка всех расписаний
+   * Проверки не пересекаются: если предыдущая ещё генерирует дайджесты, текущая пропускается
+   */
+  static async tick(send: DigestSender, now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const schedules = await DigestSchedule.findEnabled();
+      for (const schedule of schedules) {
+        const timeZone = await Chat.getTimeZone(schedule.chat_id);
+        const run = this.getDueRun(schedule, now, timeZone);
+        if (!run || (this.retryAfter.get(schedule.chat_id) ?? 0) > now.getTime()) {
+          continue;
+        }
+        await this.runDigest(schedule, run, send, now, timeZone);
+      }
+    } catch (error) {
+      console.error('❌ Ошибка планировщика дайджестов:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Сгенерировать и отправить дайджест по расписанию
+   */
+  private static async runDigest(
+    schedule: DigestScheduleData,
+    run: DueDigestRun,
+    send: DigestSender,
+    now: Date,
+    timeZone: string,
+  ): Promise<void> {
+    const chatId = schedule.chat_id;
+
+    // Сначала занимаем день в БД - второй дайджест за тот же день не уйдёт
+    if (!(await DigestSchedule.claimRun(chatId, run.date))) {
+      return;
+    }
+
+    try {
+      console.log(`⏰ Дайджест по расписанию: чат ${chatId}, день ${run.date} (${run.period})`);
+      const period = parsePeriod(run.period, now, timeZone)!;
+      const result = await DigestService.generateDigest({ chatId, period, timeZone });
+      if (!result) {
+        console.log(`📭 Дайджест по расписанию пропущен: в чате ${chatId} нет сообщений за ${run.date}`);
+        return;
+      }
+      await send(chatId, result.digest, period);
+      this.retryAfter.delete(chatId);
+    } catch (error: any) {
+      // Бота удалили из чата - выключаем расписание, повторять бессмысленно
+      if (error?.response?.error_code === 403) {
+        console.warn(`⚠️ Нет доступа к чату ${chatId}, расписание дайджеста выключено`);
+        await DigestSchedule.disable(chatId);
+        return;
+      }
+      console.error(`❌ Не удалось отправить дайджест по расписанию в чат ${chatId}:`, error);
+      await DigestSchedule.releaseRun(chatId, run.date, schedule.last_sent_date);
+      this.retryAfter.set(chatId, now.getTime() + this.RETRY_DELAY);
+    }
+  }
+}
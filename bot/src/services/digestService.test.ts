@@ -0,0 +1,344 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DigestService } from './digestService';
+import { LLMService } from './llmService';
+import { parsePeriod } from './periodParser';
+import { pgPool } from '../config/database';
+import { Digest, DigestData } from '../models/Digest';
+import { Task, TaskData } from '../models/Task';
+
+vi.mock('../config/database', () => ({
+  pgPool: { query: vi.fn() },
+  redisClient: {},
+}));
+
+vi.mock('./llmService', () => ({
+  LLMService: { generate: vi.fn() },
+}));
+
+const now = new Date(2026, 9, 19, 15, 30);
+const digestText = `Summary:
+- Обсудили релиз
+
+Action items:
+- [@ivan] Выкатить версию (#11)
+- [Мария] Прогнать тесты (до 2026-10-21) (#999)
+- [—] Обновить документацию
+
+Context:
+- Темы: релиз, тесты
+- Тон: рабочий`;
+
+describe('DigestService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(pgPool.query).mockResolvedValue({
+      rows: [
+        {
+          telegram_message_id: '11',
+          text: 'выкатываем завтра',
+          message_type: 'text',
+          media: null,
+          reply_to_message_id: null,
+          topic_id: null,
+          forward_origin: null,
+          created_at: new Date(2026, 9, 14, 12, 0),
+          telegram_id: '101',
+          username: 'ivan',
+          first_name: 'Иван',
+          last_name: null,
+        },
+        {
+          telegram_message_id: '10',
+          text: 'тесты зелёные',
+          message_type: 'text',
+          media: null,
+          reply_to_message_id: null,
+          topic_id: null,
+          forward_origin: null,
+          created_at: new Date(2026, 9, 13, 12, 5),
+          telegram_id: '102',
+          username: null,
+          first_name: 'Мария',
+          last_name: 'Петрова',
+        },
+      ],
+    } as any);
+    vi.mocked(LLMService.generate).mockResolvedValue({ text: digestText, provider: 'qwen', model: 'qwen-plus' });
+    vi.spyOn(Digest, 'findForPeriod').mockResolvedValue(null);
+    vi.spyOn(Digest, 'create').mockImplementation(async (data) => ({
+      ...(data as any),
+      id: 7,
+      created_at: new Date(2026, 9, 19, 15, 31),
+    }));
+    vi.spyOn(Task, 'findByChatId').mockResolvedValue([]);
+    vi.spyOn(Task, 'createMany').mockResolvedValue([]);
+    vi.spyOn(Task, 'findForDigestPeriod').mockResolvedValue([]);
+  });
+
+  it('должен отличать длинные периоды от дневных', () => {
+    expect(DigestService.isLongPeriod(parsePeriod('today', now)!)).toBe(false);
+    expect(DigestService.isLongPeriod(parsePeriod('yesterday', now)!)).toBe(false);
+    expect(DigestService.isLongPeriod(parsePeriod('2026-10-01..2026-10-01', now)!)).toBe(false);
+    expect(DigestService.isLongPeriod(parsePeriod('week', now)!)).toBe(true);
+    expect(DigestService.isLongPeriod(parsePeriod('2026-10-01..2026-10-07', now)!)).toBe(true);
+  });
+
+  it('должен строить дайджест недели по промпту итогов периода с датами сообщений', async () => {
+    const period = parsePeriod('week', now)!;
+
+    const run = await DigestService.generateDigest({ chatId: -1, period });
+
+    const [query, params] = vi.mocked(pgPool.query).mock.calls[0] as unknown as [string, unknown[]];
+    expect(query).toContain('JOIN users u ON u.id = m.user_id');
+    expect(query).toContain('ORDER BY m.created_at DESC');
+    expect(params).toEqual([-1, period.startDate, period.endDate, 3000]);
+
+    const prompt = vi.mocked(LLMService.generate).mock.calls[0][0].prompt;
+    expect(prompt).toContain('повторяющиеся темы');
+    expect(prompt).toContain('[#10 13.10 12:05] Мария: тесты зелёные\n[#11 14.10 12:00] @ivan: выкатываем завтра');
+    expect(run?.digest.summary).toBe('- Обсудили релиз');
+    expect(run?.digest.topics).toBe('релиз, тесты');
+    expect(run?.digest.tone).toBe('рабочий');
+  });
+
+  it('должен сопоставлять ответственных с авторами и проверять номера исходных сообщений', async () => {
+    const run = await DigestService.generateDigest({ chatId: -1, period: parsePeriod('week', now)! });
+
+    expect(run?.digest.actionItems).toEqual([
+      {
+        text: 'Выкатить версию',
+        assignee: { name: '@ivan', username: 'ivan', telegramId: 101 },
+        sourceMessageId: 11,
+        dueDate: null,
+      },
+      {
+        // Сообщения #999 нет в периоде - ссылку не сохраняем
+        text: 'Прогнать тесты',
+        assignee: { name: 'Мария', username: null, telegramId: 102 },
+        sourceMessageId: null,
+        dueDate: '2026-10-21',
+      },
+      { text: 'Обновить документацию', assignee: null, sourceMessageId: null, dueDate: null },
+    ]);
+  });
+
+  it('должен сохранять новые задачи в tasks со ссылкой на дайджест', async () => {
+    await DigestService.generateDigest({ chatId: -1, period: parsePeriod('week', now)! });
+
+    const saved = vi.mocked(Task.createMany).mock.calls[0][0];
+    expect(saved).toHaveLength(3);
+    expect(saved[1]).toEqual({
+      chat_id: -1,
+      text: 'Прогнать тесты',
+      assignee_telegram_id: 102,
+      assignee_name: 'Мария',
+      digest_id: 7,
+      source_message_id: null,
+      due_date: '2026-10-21',
+    });
+  });
+
+  it('не должен заново создавать задачи, уже взятые из дайджеста того же периода', async () => {
+    const period = parsePeriod('week', now)!;
+    // Первая уже выполнена, вторая сформулирована иначе, но взята из того же сообщения #11
+    vi.mocked(Task.findForDigestPeriod).mockResolvedValue([
+      { id: 5, text: 'прогнать тесты!', source_message_id: null, status: 'done' },
+      { id: 6, text: 'Подготовить релиз', source_message_id: 11, status: 'open' },
+    ] as unknown as TaskData[]);
+
+    const run = await DigestService.generateDigest({ chatId: -1, period, refresh: true });
+
+    expect(Task.findForDigestPeriod).toHaveBeenCalledWith(-1, period.startDate, period.endDate);
+    expect(run?.digest.actionItems).toHaveLength(3);
+    expect(vi.mocked(Task.createMany).mock.calls[0][0].map((task) => task.text)).toEqual(['Обновить документацию']);
+  });
+
+  it('должен передавать открытые задачи в промпт и не извлекать их повторно', async () => {
+    const openTask = {
+      id: 5,
+      chat_id: -1,
+      text: 'Выкатить версию.',
+      assignee_name: '@ivan',
+      due_date: null,
+      status: 'open',
+    } as unknown as TaskData;
+    vi.mocked(Task.findByChatId).mockResolvedValue([openTask]);
+
+    const run = await DigestService.generateDigest({ chatId: -1, period: parsePeriod('week', now)! });
+
+    const prompt = vi.mocked(LLMService.generate).mock.calls[0][0].prompt;
+    expect(Task.findByChatId).toHaveBeenCalledWith(-1, { status: 'open', limit: 20 });
+    expect(prompt).toContain('не добавляй их в Action items повторно');
+    expect(prompt).toContain('- [@ivan] Выкатить версию.');
+    expect(run?.digest.actionItems.map((item) => item.text)).toEqual(['Прогнать тесты', 'Обновить документацию']);
+    expect(run?.digest.openTasks).toEqual([{ id: 5, text: 'Выкатить версию.', assigneeName: '@ivan', dueDate: null }]);
+  });
+
+  it('должен возвращать пустой список задач, если LLM ответила "Нет явных задач"', async () => {
+    vi.mocked(LLMService.generate).mockResolvedValue({
+      text: digestText.replace(/Action items:[\s\S]*?Context:/, 'Action items:\n- [—] Нет явных задач\n\nContext:'),
+      provider: 'qwen',
+      model: 'qwen-plus',
+    });
+
+    const run = await DigestService.generateDigest({ chatId: -1, period: parsePeriod('yesterday', now)! });
+
+    expect(run?.digest.actionItems).toEqual([]);
+  });
+
+  it('должен сохранять дайджест в архив с провайдером и диапазоном исходных сообщений', async () => {
+    const period = parsePeriod('week', now)!;
+
+    const run = await DigestService.generateDigest({ chatId: -1, period });
+
+    expect(Digest.create).toHaveBeenCalledWith({
+      chat_id: -1,
+      period_key: 'week',
+      period_label: 'последние 7 дней',
+      period_start: period.startDate,
+      period_end: period.endDate,
+      provider: 'qwen',
+      model: 'qwen-plus',
+      message_count: 2,
+      first_message_id: 10,
+      last_message_id: 11,
+      first_message_at: new Date(2026, 9, 13, 12, 5),
+      last_message_at: new Date(2026, 9, 14, 12, 0),
+      result: run?.digest,
+    });
+    expect(run).toMatchObject({ id: 7, cached: false, provider: 'qwen', messageCount: 2 });
+  });
+
+  it('должен возвращать сохранённый дайджест закрытого периода без вызова LLM', async () => {
+    const period = parsePeriod('yesterday', now)!;
+    const stored = {
+      id: 3,
+      chat_id: -1,
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      message_count: 40,
+      // Старый формат: action items строками
+      result: { summary: 'вчерашний', actionItems: ['выкатить'], topics: 'т', tone: 'т' },
+      created_at: new Date(2026, 9, 18, 21, 0),
+    } as unknown as DigestData;
+    vi.mocked(Digest.findForPeriod).mockResolvedValue(stored);
+
+    const run = await DigestService.generateDigest({ chatId: -1, period });
+
+    expect(Digest.findForPeriod).toHaveBeenCalledWith(-1, period.startDate, period.endDate);
+    expect(run).toMatchObject({ id: 3, cached: true, provider: 'gemini', messageCount: 40 });
+    expect(run?.digest.summary).toBe('вчерашний');
+    expect(run?.digest.actionItems).toEqual([{ text: 'выкатить', assignee: null, sourceMessageId: null, dueDate: null }]);
+    expect(run?.digest.openTasks).toEqual([]);
+    expect(LLMService.generate).not.toHaveBeenCalled();
+  });
+
+  it('должен пересобирать дайджест закрытого периода при refresh и не искать архив для открытого', async () => {
+    await DigestService.generateDigest({ chatId: -1, period: parsePeriod('yesterday', now)!, refresh: true });
+    // Часы стоят: "сегодня" заканчивается текущим моментом и остаётся открытым
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    try {
+      await DigestService.generateDigest({ chatId: -1, period: parsePeriod('today')! });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(Digest.findForPeriod).not.toHaveBeenCalled();
+    expect(LLMService.generate).toHaveBeenCalledTimes(2);
+    expect(Digest.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('должен использовать дневной промпт без дат для одного дня', async () => {
+    await DigestService.generateDigest({ chatId: -1, period: parsePeriod('yesterday', now)! });
+
+    const prompt = vi.mocked(LLMService.generate).mock.calls[0][0].prompt;
+    expect(prompt).toContain('сообщения за период: вчера');
+    expect(prompt).not.toContain('повторяющиеся темы');
+    expect(prompt).toContain('[#10 12:05] Мария: тесты зелёные\n[#11 12:00] @ivan: выкатываем завтра');
+  });
+
+  it('должен описывать вложения в промпте: тип, подпись, эмодзи стикера', async () => {
+    const author = {
+      telegram_id: '101',
+      username: 'ivan',
+      first_name: 'Иван',
+      last_name: null,
+      reply_to_message_id: null,
+      topic_id: null,
+      forward_origin: null,
+    };
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [
+        {
+          ...author,
+          telegram_message_id: '22',
+          text: '',
+          message_type: 'sticker',
+          media: { emoji: '😂' },
+          created_at: new Date(2026, 9, 18, 10, 2),
+        },
+        {
+          ...author,
+          telegram_message_id: '21',
+          text: 'макет главной',
+          message_type: 'photo',
+          media: { width: 1280, height: 720 },
+          created_at: new Date(2026, 9, 18, 10, 1),
+        },
+      ],
+    } as any);
+
+    await DigestService.generateDigest({ chatId: -1, period: parsePeriod('yesterday', now)! });
+
+    const prompt = vi.mocked(LLMService.generate).mock.calls[0][0].prompt;
+    expect(prompt).toContain('[#21 10:01] @ivan: [фото] макет главной\n[#22 10:02] @ivan: [стикер 😂]');
+  });
+
+  it('должен группировать сообщения по темам форума и веткам ответов', async () => {
+    const row = (id: number, minute: number, text: string, extra: Record<string, unknown> = {}) => ({
+      telegram_message_id: String(id),
+      text,
+      message_type: 'text',
+      media: null,
+      reply_to_message_id: null,
+      topic_id: '5',
+      forward_origin: null,
+      created_at: new Date(2026, 9, 18, 10, minute),
+      telegram_id: '101',
+      username: 'ivan',
+      first_name: 'Иван',
+      last_name: null,
+      ...extra,
+    });
+    // От новых к старым, как возвращает запрос
+    vi.mocked(pgPool.query).mockResolvedValueOnce({
+      rows: [
+        row(34, 4, 'в пятницу', { reply_to_message_id: '32' }),
+        row(33, 3, 'обед?', { topic_id: null }),
+        row(32, 2, 'когда?', { reply_to_message_id: '31' }),
+        row(31, 1, 'релиз', { forward_origin: { type: 'channel', name: 'Новости', sender_id: -200 } }),
+      ],
+    } as any);
+
+    await DigestService.generateDigest({ chatId: -1, period: parsePeriod('yesterday', now)! });
+
+    const prompt = vi.mocked(LLMService.generate).mock.calls[0][0].prompt;
+    expect(prompt).toContain(`Тема #5:
+[#31 10:01] @ivan (переслано от Новости): релиз
+↳ [#32 10:02] @ivan (ответ на #31): когда?
+  ↳ [#34 10:04] @ivan (ответ на #32): в пятницу
+Вне тем:
+[#33 10:03] @ivan: обед?`);
+  });
+
+  it('должен возвращать null, если сообщений нет', async () => {
+    vi.mocked(pgPool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const run = await DigestService.generateDigest({ chatId: -1 });
+
+    expect(run).toBeNull();
+    expect(LLMService.generate).not.toHaveBeenCalled();
+  });
+});
@@ -1,59 +1,143 @@
-import { Message } from '../models/Message';
-import { GeminiService } from './geminiService';
-import { QwenService } from './qwenService';
-import { DeepSeekService } from './deepseekService';
+import { LLMProviderId } from '../config/llm';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Digest, DigestData } from '../models/Digest';
+import { Task, TaskData } from '../models/Task';
+import { ForwardOrigin, MessageMedia, MessageType } from '../models/Message';
+import { LLMService } from './llmService';
+import { CondensedText, SummarizationService } from './summarizationService';
+import { describeMessageContent } from './messageContent';
+import { formatDate, parseIsoDate, ParsedPeriod, parsePeriod } from './periodParser';
 
 export interface ChatDigestOptions {
   chatId: number;
-  period?: 'today' | 'yesterday';
+  period?: ParsedPeriod; // today, yesterday, week, month или диапазон дат (по умолчанию - сегодня)
   maxMessages?: number;
+  refresh?: boolean; // Сформировать заново, даже если для закрытого периода есть сохранённый дайджест
+  timeZone?: string; // Часовой пояс чата: в нём время сообщений в промпте и "сегодня" (по умолчанию - DEFAULT_TIMEZONE)
+}
+
+// Ответственный за задачу из дайджеста
+export interface DigestAssignee {
+  name: string; // Отображаемое имя: @username или имя
+  username: string | null;
+  telegramId: number | null; // null - LLM назвала человека, которого нет среди авторов сообщений
+}
+
+// Задача из дайджеста: кто делает и из какого сообщения она взялась
+export interface DigestActionItem {
+  text: string;
+  assignee: DigestAssignee | null;
+  sourceMessageId: number | null; // telegram_message_id исходного сообщения
+  dueDate: string | null; // Срок YYYY-MM-DD, если он прозвучал в переписке
+}
+
+// Задача из прошлых дайджестов, которая на момент дайджеста ещё открыта (таблица tasks)
+export interface DigestOpenTask {
+  id: number;
+  text: string;
+  assigneeName: string | null;
+  dueDate: string | null;
 }
 
 export interface ChatDigestResult {
   summary: string;
-  actionItems: string[];
+  actionItems: DigestActionItem[]; // Новые задачи - сохраняются в tasks
+  openTasks: DigestOpenTask[]; // Уже отслеживаемые задачи, повторно не извлекаются
   topics: string;
   tone: string;
 }
 
+// Дайджест вместе с информацией о том, как он получен
+export interface ChatDigestRun {
+  id: number | null; // id в таблице digests (null - сохранить не удалось)
+  digest: ChatDigestResult;
+  provider: LLMProviderId | null;
+  model: string | null;
+  messageCount: number;
+  cached: boolean; // true - взят из архива, LLM не вызывался
+  createdAt: Date;
+}
+
+// Сообщение чата для дайджеста вместе с автором
+interface DigestMessageRow {
+  telegram_message_id: number;
+  text: string;
+  message_type: MessageType;
+  media: MessageMedia | null;
+  reply_to_message_id: number | null;
+  topic_id: number | null;
+  forward_origin: ForwardOrigin | null;
+  created_at: Date;
+  telegram_id: number;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
 export class DigestService {
+  // Сколько сообщений максимум берём за период (большие наборы суммируются по частям)
+  private static readonly MAX_MESSAGES = 3000;
+  // Бюджет на сообщения в одном промпте (~8000 символов); больше - map-reduce по частям
+  private static readonly PROMPT_TOKEN_BUDGET = 2700;
+  private static readonly SYSTEM_PROMPT =
+    'Ты помощник, который делает структурированный дайджест группового чата на русском языке.';
+  // Периоды длиннее суток получают "недельный" промпт и даты у сообщений
+  private static readonly LONG_PERIOD_MS = 36 * 60 * 60 * 1000;
+  // Секция задач в ответе LLM: ответственный в квадратных скобках, источник в конце (разбирает parseActionItem)
+  private static readonly ACTION_ITEMS_FORMAT = `Action items:
+- [@username или имя ответственного; "—", если не назначен] задача (до ГГГГ-ММ-ДД, только если срок назван) (#номер сообщения)
+- [...] следующая задача (#номер)
+- если новых задач нет, напиши один пункт "Нет явных задач"`;
+  // Сколько открытых задач передаём в промпт и показываем в дайджесте
+  private static readonly OPEN_TASKS_LIMIT = 20;
+
   /**
-   * Получить временной диапазон для периода
+   * Длинный ли период (неделя, месяц, диапазон из нескольких дней)
    */
-  private static getDateRange(period: 'today' | 'yesterday'): {
-    startDate: Date;
-    endDate: Date;
-  } {
-    const now = new Date();
-    if (period === 'yesterday') {
-      const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
-      const end = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      return { startDate: start, endDate: end };
+  static isLongPeriod(period: ParsedPeriod): boolean {
+    if (!period.startDate || !period.endDate) {
+      return true;
     }
+    return period.endDate.getTime() - period.startDate.getTime() > this.LONG_PERIOD_MS;
+  }
 
-    // today
-    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    return { startDate: start, endDate: now };
+  /**
+   * Закрыт ли период: он целиком в прошлом, и новых сообщений в нём уже не будет
+   */
+  static isClosedPeriod(period: ParsedPeriod, now: Date = new Date()): boolean {
+    return !!period.startDate && !!period.endDate && period.endDate.getTime() < now.getTime();
   }
 
   /**
-   * Собрать сообщения из чата за период
+   * Собрать сообщения из чата за период (от старых к новым)
    */
-  private static async getChatMessages({
-    chatId,
-    period = 'today',
-    maxMessages = 200,
-  }: ChatDigestOptions): Promise<string[]> {
-    const { startDate, endDate } = this.getDateRange(period);
-
-    // Берём сообщения всех пользователей по chatId и диапазону дат
+  private static async getChatMessages(
+    chatId: number,
+    period: ParsedPeriod,
+    maxMessages: number,
+  ): Promise<DigestMessageRow[]> {
+    // Берём сообщения всех пользователей по chatId и диапазону дат;
+    // если их больше лимита - сохраняем самые свежие
     const queryMessages = `
-      SELECT text
-      FROM messages
-      WHERE chat_id = $1
-        AND created_at >= $2
-        AND created_at <= $3
-      ORDER BY created_at ASC
+      SELECT
+        m.telegram_message_id,
+        m.text,
+        m.message_type,
+        m.media,
+        m.reply_to_message_id,
+        m.topic_id,
+        m.forward_origin,
+        m.created_at,
+        u.telegram_id,
+        u.username,
+        u.first_name,
+        u.last_name
+      FROM messages m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.chat_id = $1
+        AND m.created_at >= $2
+        AND m.created_at <= $3
+      ORDER BY m.created_at DESC
       LIMIT $4
     `;
 
@@ -62,39 +146,171 @@ export class DigestService {
     // Однако у нас нет прямого экспорта pgPool здесь, поэтому опираемся на Message.getStats как на шаблон.
     const { pgPool } = await import('../config/database');
 
-    const res = await pgPool.query<{ text: string }>(queryMessages, [
+    const res = await pgPool.query<DigestMessageRow>(queryMessages, [
       chatId,
-      startDate,
-      endDate,
+      period.startDate ?? new Date(0),
+      period.endDate ?? new Date(),
       maxMessages,
     ]);
 
-    return res.rows.map((row) => row.text);
+    if (res.rows.length >= maxMessages) {
+      console.warn(`⚠️ Дайджест чата ${chatId} за ${period.label}: взяты последние ${maxMessages} сообщений`);
+    }
+
+    // pg возвращает BIGINT строкой
+    return res.rows.reverse().map((row) => ({
+      ...row,
+      telegram_message_id: Number(row.telegram_message_id),
+      reply_to_message_id: row.reply_to_message_id !== null ? Number(row.reply_to_message_id) : null,
+      topic_id: row.topic_id !== null ? Number(row.topic_id) : null,
+      telegram_id: Number(row.telegram_id),
+    }));
+  }
+
+  /**
+   * Имя автора в промпте: @username или имя
+   */
+  private static getDisplayName(row: Pick<DigestMessageRow, 'username' | 'first_name'>): string {
+    return row.username ? `@${row.username}` : row.first_name || 'Неизвестный';
+  }
+
+  /**
+   * Строки сообщений для промпта: [#id ЧЧ:ММ] Автор: текст (вложения - "[фото] подпись", "[стикер 😂]")
+   * Номер сообщения нужен, чтобы LLM сослалась на источник задачи;
+   * для длинных периодов добавляется дата, чтобы LLM видела динамику по дням.
+   * Сообщения сгруппированы по темам форума и веткам ответов: ответ идёт сразу под исходным сообщением с отступом.
+   * Время - по часам чата (timeZone)
+   */
+  private static formatMessages(rows: DigestMessageRow[], period: ParsedPeriod, timeZone: string): string[] {
+    const withDates = this.isLongPeriod(period);
+    const formatRow = (row: DigestMessageRow, depth: number): string => {
+      const createdAt = new Date(row.created_at);
+      const time = createdAt.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', timeZone });
+      const stamp = withDates
+        ? `${createdAt.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', timeZone })} ${time}`
+        : time;
+      const prefix = depth > 0 ? `${'  '.repeat(Math.min(depth, 3) - 1)}↳ ` : '';
+      const notes = [
+        row.reply_to_message_id !== null ? `ответ на #${row.reply_to_message_id}` : null,
+        row.forward_origin ? `переслано от ${row.forward_origin.name}` : null,
+      ].filter(Boolean);
+      const content = describeMessageContent(row.message_type, row.text, row.media);
+      const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+      return `${prefix}[#${row.telegram_message_id} ${stamp}] ${this.getDisplayName(row)}${suffix}: ${content}`;
+    };
+
+    // Темы форума в порядке первого сообщения; сообщения вне тем - отдельной группой
+    const topics = new Map<number | null, DigestMessageRow[]>();
+    for (const row of rows) {
+      const group = topics.get(row.topic_id) ?? [];
+      group.push(row);
+      topics.set(row.topic_id, group);
+    }
+    const withTopics = [...topics.keys()].some((topicId) => topicId !== null);
+
+    const lines: string[] = [];
+    for (const [topicId, group] of topics) {
+      if (withTopics) {
+        lines.push(topicId !== null ? `Тема #${topicId}:` : 'Вне тем:');
+      }
+
+      // Ветки ответов: корень - сообщение без ответа или ответ на сообщение вне выборки
+      const ids = new Set(group.map((row) => row.telegram_message_id));
+      const replies = new Map<number, DigestMessageRow[]>();
+      const roots: DigestMessageRow[] = [];
+      for (const row of group) {
+        if (row.reply_to_message_id !== null && ids.has(row.reply_to_message_id)) {
+          const children = replies.get(row.reply_to_message_id) ?? [];
+          children.push(row);
+          replies.set(row.reply_to_message_id, children);
+        } else {
+          roots.push(row);
+        }
+      }
+
+      // Обход в глубину без рекурсии: длинная переписка в ответах не упрётся в стек
+      const stack = roots.map((row) => ({ row, depth: 0 })).reverse();
+      while (stack.length > 0) {
+        const { row, depth } = stack.pop()!;
+        lines.push(formatRow(row, depth));
+        const children = replies.get(row.telegram_message_id) ?? [];
+        for (let i = children.length - 1; i >= 0; i--) {
+          stack.push({ row: children[i], depth: depth + 1 });
+        }
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Сжать сообщения до бюджета промпта: если не помещаются - пересказ по частям (map)
+   */
+  private static async condenseMessages(
+    messages: string[],
+    periodLabel: string,
+    longPeriod: boolean,
+  ): Promise<CondensedText> {
+    const focus = longPeriod
+      ? `- главные события и решения с датами и тем, кто их предложил;
+- задачи, договорённости и открытые вопросы: кто отвечает и номер сообщения (#номер);
+- темы, которые обсуждали несколько раз, и настроение участников.`
+      : `- о чём говорили и кто что предлагал (2-3 предложения);
+- задачи, договорённости и action items (если есть): кто отвечает и номер сообщения (#номер);
+- темы и настроение участников.`;
+
+    return SummarizationService.condense(messages, {
+      tokenBudget: this.PROMPT_TOKEN_BUDGET,
+      system: this.SYSTEM_PROMPT,
+      mapPrompt: (chunk, index, total) => `Это часть ${index + 1} из ${total} переписки группового чата за период: ${periodLabel}.
+Кратко перескажи эту часть без markdown:
+${focus}
+
+Сообщения:
+${chunk}`,
+      mergePrompt: (notes) => `Объедини пересказы частей переписки группового чата в один короткий пересказ без markdown.
+Сохрани все задачи и договорённости вместе с ответственными и номерами сообщений (#номер), темы и настроение:
+
+${notes}`,
+    });
   }
 
   /**
    * Сформировать промпт для дайджеста
+   * material - сами сообщения или пересказы частей, если сообщений слишком много
    */
   private static createDigestPrompt(
-    messages: string[],
+    material: CondensedText,
     periodLabel: string,
+    longPeriod: boolean = false,
+    openTasks: TaskData[] = [],
+    timeZone: string = getDefaultTimeZone(),
   ): string {
-    const joined = messages.join('\n');
-    const maxLength = 8000;
-    let text = joined;
-
-    if (text.length > maxLength) {
-      // Берём середину + конец, чтобы захватить разные участки обсуждений
-      const sliceSize = Math.floor(messages.length * 0.6);
-      text = messages.slice(-sliceSize).join('\n');
+    const source = material.condensed
+      ? `Ниже — пересказы ${material.chunks} частей переписки за период: ${periodLabel} (чат слишком большой, чтобы передать его целиком).`
+      : `Ниже — сообщения за период: ${periodLabel}.`;
+    const format = `${longPeriod
+      ? 'Каждое сообщение имеет вид [#номер ДД.ММ ЧЧ:ММ] Автор: текст.'
+      : 'Каждое сообщение имеет вид [#номер ЧЧ:ММ] Автор: текст.'} Ответы стоят под исходным сообщением со стрелкой ↳ и пометкой (ответ на #номер), сообщения тем форума - под заголовком "Тема #номер:". Сегодня ${formatDate(new Date(), timeZone)}.`;
+    const tracked = openTasks.length
+      ? `Открытые задачи из прошлых дайджестов (они уже отслеживаются - не добавляй их в Action items повторно):
+${openTasks.map((task) => `- [${task.assignee_name || '—'}] ${task.text}`).join('\n')}
+
+`
+      : '';
+    const body = `${tracked}${material.condensed ? 'Пересказы частей чата' : 'Сообщения чата'}:
+${material.text}`;
+
+    if (longPeriod) {
+      return this.createLongPeriodPrompt(`${source}\n${format}`, body);
     }
 
     return `Ты помощник, который делает дайджест группового чата Telegram.
-Ниже — сообщения за период: ${periodLabel}.
+${source}
+${format}
 
 Твоя задача:
-1) Кратко пересказать, что обсуждали (2–4 предложения).
-2) Выделить список action items / задач (по пунктам).
+1) Кратко пересказать, что обсуждали (2–4 предложения), упоминая участников по именам.
+2) Выделить список action items / задач (по пунктам) с ответственным и номером сообщения, где задача появилась.
 3) Описать основные темы и общее настроение участников.
 
 Формат ответа (строго придерживайся структуры, без markdown, только текст):
@@ -102,136 +318,297 @@ export class DigestService {
 Summary:
 - [краткий пересказ в 2–4 предложениях]
 
-Action items:
-- [задача 1]
-- [задача 2]
-- [и т.д.; если задач нет, напиши один пункт "Нет явных задач"]
+${this.ACTION_ITEMS_FORMAT}
 
 Context:
 - Темы: [перечисли основные темы через запятую]
 - Тон: [кратко опиши общее настроение: позитивное / нейтральное / напряжённое и т.п.]
 
-Сообщения чата:
-${text}`;
+${body}`;
   }
 
   /**
-   * Вызвать LLM‑провайдера по приоритету: Qwen → Gemini → DeepSeek (как fallback)
+   * Промпт для недели, месяца и диапазона дат: не пересказ дня, а итоги периода
+   * Секции те же (Summary / Action items / Context), чтобы работал общий парсер
    */
-  private static async generateWithLLM(prompt: string): Promise<string> {
-    const providers: Array<'Qwen' | 'Gemini' | 'DeepSeek'> = [
-      'Qwen',
-      'Gemini',
-      'DeepSeek',
-    ];
-
-    let lastError: Error | null = null;
-
-    for (const provider of providers) {
-      try {
-        if (provider === 'Qwen' && QwenService.isAvailable()) {
-          console.log('🧠 Digest: вызываю Qwen API…');
-          // Переиспользуем analyzeUser?“ Нет, тут другой промпт → сделаем прямой вызов через QwenService.getClient
-          const { default: OpenAI } = await import('openai');
-          const client = new OpenAI({
-            apiKey: process.env.DASHSCOPE_API_KEY,
-            baseURL:
-              process.env.DASHSCOPE_BASE_URL ||
-              'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
-          });
-
-          const completion = await client.chat.completions.create({
-            model: process.env.DASHSCOPE_MODEL || 'qwen-plus',
-            messages: [
-              {
-                role: 'system',
-                content:
-                  'Ты помощник, который делает структурированный дайджест группового чата на русском языке.',
-              },
-              { role: 'user', content: prompt },
-            ],
-          });
-
-          const content = completion.choices[0]?.message?.content;
-          if (!content) throw new Error('Пустой ответ от Qwen');
-          return typeof content === 'string' ? content : JSON.stringify(content);
-        }
+  private static createLongPeriodPrompt(source: string, body: string): string {
+    return `Ты помощник, который подводит итоги группового чата Telegram за длинный период.
+${source}
 
-        if (provider === 'Gemini' && GeminiService.isAvailable()) {
-          console.log('🧠 Digest: вызываю Gemini API…');
-          // Используем существующую инициализацию Gemini
-          // но здесь вызываем generateContent напрямую
-          const { GoogleGenerativeAI } = await import('@google/generative-ai');
-          const apiKey = process.env.GEMINI_API_KEY!;
-          const genAI = new GoogleGenerativeAI(apiKey);
-          const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-          const result = await model.generateContent(prompt);
-          const response = await result.response;
-          return response.text();
-        }
+Твоя задача:
+1) Описать главное за период: ключевые события и принятые решения, по возможности с датами и авторами (4–6 предложений).
+2) Выделить решения, задачи и открытые вопросы, которые остались на конец периода, с ответственным и номером сообщения.
+3) Назвать повторяющиеся темы (которые поднимались несколько раз) и как менялось настроение участников.
 
-        if (provider === 'DeepSeek' && DeepSeekService.isAvailable()) {
-          console.log('🧠 Digest: вызываю DeepSeek API…');
-          // Небольшой direct fetch, как в deepseekService
-          const url =
-            process.env.DEESEEK_API_URL || 'https://api.deepseek.com/v1/chat/completions';
-          const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-            },
-            body: JSON.stringify({
-              model: 'deepseek-chat',
-              messages: [
-                {
-                  role: 'user',
-                  content: prompt,
-                },
-              ],
-            }),
-          });
-          const data = (await res.json()) as {
-            choices?: Array<{
-              message?: { content?: string };
-            }>;
-          };
-          const text = data.choices?.[0]?.message?.content || '';
-          if (!text) throw new Error('Пустой ответ от DeepSeek');
-          return text;
-        }
-      } catch (err: any) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        console.error(`❌ Digest: ошибка провайдера ${provider}:`, lastError.message);
-      }
-    }
+Формат ответа (строго придерживайся структуры, без markdown, только текст):
+
+Summary:
+- [итоги периода: ключевые события и решения в 4–6 предложениях]
+
+${this.ACTION_ITEMS_FORMAT}
 
-    throw lastError || new Error('Все LLM‑провайдеры недоступны для дайджеста');
+Context:
+- Темы: [повторяющиеся темы через запятую]
+- Тон: [общее настроение и как оно менялось за период]
+
+${body}`;
   }
 
   /**
-   * Сгенерировать дайджест чата
+   * Сгенерировать дайджест чата и сохранить его в архив
+   * Для закрытого периода (вчера, прошедший диапазон) возвращается сохранённый дайджест, если refresh не задан
+   * Возвращает null, если за период нет сообщений
    */
   static async generateDigest(
     options: ChatDigestOptions,
-  ): Promise<ChatDigestResult | null> {
-    const period = options.period || 'today';
-    const periodLabel = period === 'today' ? 'сегодня' : 'вчера';
+  ): Promise<ChatDigestRun | null> {
+    const timeZone = options.timeZone ?? getDefaultTimeZone();
+    const period = options.period ?? parsePeriod('today', new Date(), timeZone)!;
+    const longPeriod = this.isLongPeriod(period);
+
+    if (!options.refresh && this.isClosedPeriod(period)) {
+      const stored = await Digest.findForPeriod<ChatDigestResult>(options.chatId, period.startDate!, period.endDate!);
+      if (stored) {
+        console.log(`🗄 Дайджест чата ${options.chatId} за ${period.label} взят из архива (#${stored.id})`);
+        return this.fromStored(stored);
+      }
+    }
 
-    const messages = await this.getChatMessages({
-      chatId: options.chatId,
+    const rows = await this.getChatMessages(
+      options.chatId,
       period,
-      maxMessages: options.maxMessages ?? 200,
+      options.maxMessages ?? this.MAX_MESSAGES,
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const openTasks = await Task.findByChatId(options.chatId, { status: 'open', limit: this.OPEN_TASKS_LIMIT });
+    const material = await this.condenseMessages(this.formatMessages(rows, period, timeZone), period.label, longPeriod);
+    const prompt = this.createDigestPrompt(material, period.label, longPeriod, openTasks, timeZone);
+    const { text: raw, provider, model } = await LLMService.generate({
+      system: this.SYSTEM_PROMPT,
+      prompt,
+      maxTokens: 2000,
+    });
+
+    const digest = this.parseDigest(raw, rows, openTasks);
+    const saved = await this.saveDigest(options.chatId, period, digest, provider, model, rows);
+    await this.saveTasks(options.chatId, saved?.id ?? null, digest.actionItems, {
+      start: period.startDate ?? new Date(rows[0].created_at),
+      end: period.endDate ?? new Date(rows[rows.length - 1].created_at),
     });
 
-    if (messages.length === 0) {
+    return {
+      id: saved?.id ?? null,
+      digest,
+      provider,
+      model,
+      messageCount: rows.length,
+      cached: false,
+      createdAt: saved ? new Date(saved.created_at) : new Date(),
+    };
+  }
+
+  /**
+   * Архив дайджестов чата (новые сначала) и общее количество - для постраничного просмотра
+   */
+  static async getHistory(
+    chatId: number,
+    options?: { limit?: number; offset?: number },
+  ): Promise<{ items: DigestData<ChatDigestResult>[]; total: number }> {
+    const [items, total] = await Promise.all([
+      Digest.findByChatId<ChatDigestResult>(chatId, options),
+      Digest.countByChatId(chatId),
+    ]);
+    return {
+      items: items.map((item) => ({ ...item, result: this.normalizeDigest(item.result) })),
+      total,
+    };
+  }
+
+  /**
+   * Привести сохранённый дайджест к текущему формату
+   * В старых записях action items хранились строками - без ответственного и источника
+   */
+  static normalizeDigest(digest: ChatDigestResult): ChatDigestResult {
+    const actionItems = (digest.actionItems as Array<DigestActionItem | string>).map((item) =>
+      typeof item === 'string'
+        ? { text: item, assignee: null, sourceMessageId: null, dueDate: null }
+        : { ...item, dueDate: item.dueDate ?? null },
+    );
+    return { ...digest, actionItems, openTasks: digest.openTasks ?? [] };
+  }
+
+  /**
+   * ChatDigestRun из записи архива
+   */
+  private static fromStored(stored: DigestData<ChatDigestResult>): ChatDigestRun {
+    return {
+      id: stored.id,
+      digest: this.normalizeDigest(stored.result),
+      provider: stored.provider as LLMProviderId | null,
+      model: stored.model,
+      messageCount: stored.message_count,
+      cached: true,
+      createdAt: new Date(stored.created_at),
+    };
+  }
+
+  /**
+   * Сохранить дайджест в таблицу digests вместе с диапазоном исходных сообщений
+   * Ошибка сохранения не ломает сам дайджест
+   */
+  private static async saveDigest(
+    chatId: number,
+    period: ParsedPeriod,
+    digest: ChatDigestResult,
+    provider: LLMProviderId,
+    model: string,
+    rows: DigestMessageRow[],
+  ): Promise<DigestData<ChatDigestResult> | null> {
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    try {
+      return await Digest.create({
+        chat_id: chatId,
+        period_key: period.key,
+        period_label: period.label,
+        period_start: period.startDate ?? new Date(first.created_at),
+        period_end: period.endDate ?? new Date(last.created_at),
+        provider,
+        model,
+        message_count: rows.length,
+        first_message_id: first.telegram_message_id,
+        last_message_id: last.telegram_message_id,
+        first_message_at: first.created_at,
+        last_message_at: last.created_at,
+        result: digest,
+      });
+    } catch (error) {
+      console.error('❌ Не удалось сохранить дайджест в БД:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Сохранить новые задачи дайджеста в tasks (для /tasks и следующих дайджестов)
+   * Задачи, уже созданные дайджестами того же периода (в том числе выполненные), не повторяются:
+   * совпадение - тот же текст или то же исходное сообщение. Ошибка сохранения не ломает сам дайджест
+   */
+  private static async saveTasks(
+    chatId: number,
+    digestId: number | null,
+    items: DigestActionItem[],
+    period: { start: Date; end: Date },
+  ): Promise<void> {
+    try {
+      if (items.length === 0) {
+        return;
+      }
+      const known = await Task.findForDigestPeriod(chatId, period.start, period.end);
+      const fresh = items.filter(
+        (item) =>
+          !known.some(
+            (task) =>
+              this.normalizeTaskText(task.text) === this.normalizeTaskText(item.text) ||
+              (item.sourceMessageId !== null && task.source_message_id === item.sourceMessageId),
+          ),
+      );
+      if (fresh.length < items.length) {
+        console.log(`🗂 Задач дайджеста чата ${chatId} уже в списке за этот период: ${items.length - fresh.length}`);
+      }
+
+      await Task.createMany(
+        fresh.map((item) => ({
+          chat_id: chatId,
+          text: item.text,
+          assignee_telegram_id: item.assignee?.telegramId ?? null,
+          assignee_name: item.assignee?.name ?? null,
+          digest_id: digestId,
+          source_message_id: item.sourceMessageId,
+          due_date: item.dueDate,
+        })),
+      );
+    } catch (error) {
+      console.error('❌ Не удалось сохранить задачи дайджеста в БД:', error);
+    }
+  }
+
+  /**
+   * Задача из строки "[@ivan] починить деплой (до 2026-10-21) (#123)"
+   * Ответственный сопоставляется с авторами сообщений, номер - с сообщениями периода;
+   * то, что сопоставить не удалось, остаётся без telegramId / sourceMessageId
+   */
+  private static parseActionItem(line: string, rows: DigestMessageRow[]): DigestActionItem {
+    let text = line;
+    let assignee: DigestAssignee | null = null;
+    let sourceMessageId: number | null = null;
+    let dueDate: string | null = null;
+
+    const sourceMatch = text.match(/\s*\(#(\d+)\)\s*$/);
+    if (sourceMatch) {
+      const id = parseInt(sourceMatch[1], 10);
+      sourceMessageId = rows.some((row) => row.telegram_message_id === id) ? id : null;
+      text = text.slice(0, sourceMatch.index).trim();
+    }
+
+    const dueMatch = text.match(/\s*\(до (\d{4}-\d{2}-\d{2})\)\s*$/i);
+    if (dueMatch) {
+      dueDate = parseIsoDate(dueMatch[1]) ? dueMatch[1] : null;
+      text = text.slice(0, dueMatch.index).trim();
+    }
+
+    const assigneeMatch = text.match(/^\[([^\]]*)\]\s*/);
+    if (assigneeMatch) {
+      assignee = this.resolveAssignee(assigneeMatch[1], rows);
+      text = text.slice(assigneeMatch[0].length).trim();
+    }
+
+    return { text, assignee, sourceMessageId, dueDate };
+  }
+
+  /**
+   * Найти ответственного среди авторов сообщений по @username или имени
+   */
+  private static resolveAssignee(raw: string, rows: DigestMessageRow[]): DigestAssignee | null {
+    const name = raw.trim();
+    if (!name || /^(—|-|нет|не назначен)$/i.test(name)) {
       return null;
     }
 
-    const prompt = this.createDigestPrompt(messages, periodLabel);
-    const raw = await this.generateWithLLM(prompt);
+    const key = name.replace(/^@/, '').toLowerCase();
+    const author = rows.find(
+      (row) =>
+        row.username?.toLowerCase() === key ||
+        row.first_name?.toLowerCase() === key ||
+        [row.first_name, row.last_name].filter(Boolean).join(' ').toLowerCase() === key,
+    );
+
+    if (!author) {
+      return { name, username: null, telegramId: null };
+    }
+    return { name: this.getDisplayName(author), username: author.username, telegramId: author.telegram_id };
+  }
 
-    // Простой парсинг по секциям Summary / Action items / Context
+  /**
+   * Текст задачи для сравнения: без регистра, пунктуации и лишних пробелов
+   */
+  private static normalizeTaskText(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Простой парсинг ответа LLM по секциям Summary / Action items / Context
+   * rows - сообщения периода, по ним определяются ответственные и источники задач
+   * openTasks - уже отслеживаемые задачи: если LLM всё же повторила их, повтор отбрасывается
+   */
+  private static parseDigest(raw: string, rows: DigestMessageRow[], openTasks: TaskData[] = []): ChatDigestResult {
     const summaryMatch = raw.match(/Summary:\s*([\s\S]*?)(?:Action items:|$)/i);
     const actionMatch = raw.match(/Action items:\s*([\s\S]*?)(?:Context:|$)/i);
     const contextMatch = raw.match(/Context:\s*([\s\S]*)$/i);
@@ -239,12 +616,14 @@ ${text}`;
     const summary = (summaryMatch?.[1] || raw).trim();
 
     const actionBlock = (actionMatch?.[1] || '').trim();
+    // "Нет явных задач" - не задача: пустой список форматируется как отсутствие задач
     const actionItems = actionBlock
-      ? actionBlock
-          .split('\n')
-          .map((line) => line.replace(/^-+\s*/, '').trim())
-          .filter(Boolean)
-      : ['Нет явных задач.'];
+      .split('\n')
+      .map((line) => line.replace(/^-+\s*/, '').trim())
+      .filter(Boolean)
+      .map((line) => this.parseActionItem(line, rows))
+      .filter((item) => item.text && !/^нет явных задач/i.test(item.text))
+      .filter((item) => !openTasks.some((task) => this.normalizeTaskText(task.text) === this.normalizeTaskText(item.text)));
 
     let topics = 'Не указаны';
     let tone = 'Не указан';
@@ -260,9 +639,14 @@ ${text}`;
     return {
       summary,
       actionItems,
+      openTasks: openTasks.map((task) => ({
+        id: task.id,
+        text: task.text,
+        assigneeName: task.assignee_name,
+        dueDate: task.due_date,
+      })),
       topics,
       tone,
     };
   }
 }
-
@@ -0,0 +1,76 @@
+import { LLMProviderConfig } from '../../config/llm';
+import { LLMError, toLLMError } from './errors';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Провайдер DeepSeek (OpenAI-совместимый REST API, вызывается напрямую через fetch)
+ */
+export class DeepSeekProvider implements LLMProvider {
+  readonly id = 'deepseek' as const;
+  readonly label: string;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.label = config.label;
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.config.apiKey) {
+      throw new LLMError('NOT_CONFIGURED', 'DEEPSEEK_API_KEY не установлен', { provider: this.id });
+    }
+
+    const model = this.config.models[0];
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: request.temperature ?? this.config.temperature,
+          max_tokens: request.maxTokens ?? this.config.maxTokens,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+    } catch (error) {
+      throw toLLMError(error, this.id);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ DeepSeek API ошибка: ${response.status} ${response.statusText}`);
+      console.error(`   Детали: ${errorText}`);
+      throw toLLMError(
+        { status: response.status, message: `DeepSeek API ошибка: ${response.status} - ${errorText}` },
+        this.id,
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{
+        message?: {
+          content?: string;
+        };
+      }>;
+    };
+    const text = data.choices?.[0]?.message?.content || '';
+
+    if (!text) {
+      throw new LLMError('EMPTY_RESPONSE', 'Пустой ответ от DeepSeek API', { provider: this.id });
+    }
+
+    return { text, provider: this.id, model };
+  }
+}
@@ -0,0 +1,120 @@
+import { getLLMProviderLabel, LLMProviderId } from '../../config/llm';
+
+/**
+ * Единая таксономия ошибок LLM-провайдеров
+ * Все провайдеры приводят свои ошибки к этим кодам, чтобы бот и веб
+ * одинаково решали, пробовать ли следующего провайдера и что показать пользователю
+ */
+export type LLMErrorCode =
+  | 'NOT_CONFIGURED' // Не задан API ключ
+  | 'INSUFFICIENT_BALANCE' // Недостаточно средств на счету (DeepSeek 402)
+  | 'RATE_LIMIT' // Превышен лимит запросов (429)
+  | 'AUTH' // Неверный ключ или доступ запрещен (401/403)
+  | 'BAD_REQUEST' // Запрос отклонен, обычно слишком много данных (400)
+  | 'MODEL_NOT_FOUND' // Модель недоступна (404)
+  | 'EMPTY_RESPONSE' // Провайдер вернул пустой ответ
+  | 'INVALID_OUTPUT' // Ответ не прошел валидацию по схеме (даже после repair)
+  | 'PROVIDER_ERROR' // Любая другая ошибка провайдера
+  | 'ALL_FAILED'; // Ни один провайдер не справился
+
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly provider?: LLMProviderId;
+  readonly status?: number;
+  // Ошибки отдельных провайдеров (заполняется для ALL_FAILED)
+  readonly causes: LLMError[];
+
+  constructor(
+    code: LLMErrorCode,
+    message: string,
+    options?: { provider?: LLMProviderId; status?: number; causes?: LLMError[] },
+  ) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.provider = options?.provider;
+    this.status = options?.status;
+    this.causes = options?.causes ?? [];
+  }
+
+  /**
+   * Имеет ли смысл повторить запрос к тому же провайдеру с задержкой
+   */
+  get isRetryable(): boolean {
+    return this.code === 'RATE_LIMIT';
+  }
+}
+
+/**
+ * Привести произвольную ошибку SDK / fetch к LLMError
+ */
+export function toLLMError(error: unknown, provider: LLMProviderId): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const err = error as { status?: number; message?: string } | undefined;
+  const message = err?.message || String(error);
+  const status = typeof err?.status === 'number' ? err.status : extractStatus(message);
+
+  if (status === 402 || /insufficient balance/i.test(message)) {
+    return new LLMError('INSUFFICIENT_BALANCE', message, { provider, status });
+  }
+  if (status === 429) {
+    return new LLMError('RATE_LIMIT', message, { provider, status });
+  }
+  if (status === 401 || status === 403) {
+    return new LLMError('AUTH', message, { provider, status });
+  }
+  if (status === 400) {
+    return new LLMError('BAD_REQUEST', message, { provider, status });
+  }
+  if (status === 404) {
+    return new LLMError('MODEL_NOT_FOUND', message, { provider, status });
+  }
+
+  return new LLMError('PROVIDER_ERROR', message, { provider, status });
+}
+
+/**
+ * Достать HTTP статус из текста ошибки (Gemini SDK пишет его как "[404 Not Found]")
+ */
+function extractStatus(message: string): number | undefined {
+  const match = message.match(/\[(\d{3})[^\]]*\]|\b(4\d{2}|5\d{2})\b/);
+  const raw = match?.[1] || match?.[2];
+  return raw ? parseInt(raw, 10) : undefined;
+}
+
+/**
+ * Понятное пользователю сообщение об ошибке (одинаковое для бота и веба)
+ */
+export function describeLLMError(error: unknown): string {
+  if (!(error instanceof LLMError)) {
+    return 'Произошла ошибка при обращении к LLM. Попробуйте позже.';
+  }
+
+  // Для ALL_FAILED показываем самую информативную из причин
+  const codes = error.code === 'ALL_FAILED' ? error.causes.map((cause) => cause.code) : [error.code];
+
+  if (codes.length === 0 || codes.every((code) => code === 'NOT_CONFIGURED')) {
+    return 'Ни один LLM‑провайдер не настроен. Проверьте ключи API.';
+  }
+  if (error.code === 'INVALID_OUTPUT') {
+    const label = error.provider ? getLLMProviderLabel(error.provider) : 'LLM';
+    return `${label} вернул ответ в неверном формате. Попробуйте снова или выберите другого провайдера.`;
+  }
+  if (codes.includes('RATE_LIMIT')) {
+    return 'Превышен лимит запросов к API. Подождите минуту и попробуйте снова.';
+  }
+  if (codes.includes('BAD_REQUEST')) {
+    return 'Запрос слишком большой. Попробуйте уменьшить количество сообщений.';
+  }
+  if (codes.includes('INSUFFICIENT_BALANCE')) {
+    return 'DeepSeek API: недостаточно средств на счету, остальные провайдеры недоступны.';
+  }
+  if (codes.includes('AUTH')) {
+    return 'Проблема с доступом к API. Проверьте API ключ.';
+  }
+
+  return 'Ни один LLM‑провайдер не смог обработать запрос. Попробуйте позже.';
+}
@@ -0,0 +1,77 @@
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { LLMProviderConfig } from '../../config/llm';
+import { LLMError, toLLMError } from './errors';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+// Safety Settings для избежания блокировок при анализе сообщений из групп
+// BLOCK_ONLY_HIGH - блокирует только высокий уровень опасности
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+/**
+ * Провайдер Google Gemini
+ * Если модель не найдена (404), пробует следующую из config.models
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  readonly label: string;
+  private genAI: GoogleGenerativeAI | null = null;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.label = config.label;
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.config.apiKey) {
+      throw new LLMError('NOT_CONFIGURED', 'GEMINI_API_KEY не установлен', { provider: this.id });
+    }
+    if (!this.genAI) {
+      this.genAI = new GoogleGenerativeAI(this.config.apiKey);
+    }
+    return this.genAI;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const genAI = this.getClient();
+    let lastError: LLMError | null = null;
+
+    for (const modelName of this.config.models) {
+      try {
+        const model = genAI.getGenerativeModel({
+          model: modelName,
+          safetySettings: SAFETY_SETTINGS,
+          systemInstruction: request.system,
+          generationConfig: {
+            temperature: request.temperature ?? this.config.temperature,
+            maxOutputTokens: request.maxTokens ?? this.config.maxTokens,
+            responseMimeType: request.json ? 'application/json' : undefined,
+          },
+        });
+
+        const result = await model.generateContent(request.prompt);
+        const text = result.response.text();
+        if (!text) {
+          throw new LLMError('EMPTY_RESPONSE', 'Пустой ответ от Gemini API', { provider: this.id });
+        }
+
+        return { text, provider: this.id, model: modelName };
+      } catch (error) {
+        lastError = toLLMError(error, this.id);
+        if (lastError.code !== 'MODEL_NOT_FOUND') {
+          throw lastError;
+        }
+        console.log(`⚠️ Модель ${modelName} недоступна, пробую следующую...`);
+      }
+    }
+
+    throw lastError || new LLMError('MODEL_NOT_FOUND', 'Все модели Gemini недоступны', { provider: this.id });
+  }
+}
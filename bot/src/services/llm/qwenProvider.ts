@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import { LLMProviderConfig } from '../../config/llm';
+import { LLMError, toLLMError } from './errors';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Провайдер Qwen (Alibaba Model Studio, OpenAI‑совместимый API)
+ */
+export class QwenProvider implements LLMProvider {
+  readonly id = 'qwen' as const;
+  readonly label: string;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly config: LLMProviderConfig) {
+    this.label = config.label;
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  /**
+   * Ленивая инициализация клиента
+   */
+  private getClient(): OpenAI {
+    if (!this.config.apiKey) {
+      throw new LLMError('NOT_CONFIGURED', 'DASHSCOPE_API_KEY не установлен', { provider: this.id });
+    }
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseUrl,
+      });
+    }
+    return this.client;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const client = this.getClient();
+    const model = this.config.models[0];
+
+    let completion: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      completion = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+          { role: 'user' as const, content: request.prompt },
+        ],
+        temperature: request.temperature ?? this.config.temperature,
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+    } catch (error) {
+      throw toLLMError(error, this.id);
+    }
+
+    // content может прийти строкой или массивом частей
+    const content = completion.choices?.[0]?.message?.content as unknown;
+    let text = '';
+    if (typeof content === 'string') {
+      text = content;
+    } else if (Array.isArray(content)) {
+      text = content
+        .map((part: any) => (typeof part === 'string' ? part : part?.text ?? ''))
+        .join('');
+    }
+
+    if (!text) {
+      throw new LLMError('EMPTY_RESPONSE', 'Пустой ответ от Qwen API', { provider: this.id });
+    }
+
+    return { text, provider: this.id, model };
+  }
+}
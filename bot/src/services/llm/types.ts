@@ -0,0 +1,29 @@
+import { LLMProviderId } from '../../config/llm';
+
+// Запрос к LLM (общий для всех провайдеров)
+export interface LLMRequest {
+  prompt: string;
+  system?: string; // Системная инструкция (провайдеры без system role добавляют её к промпту)
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Попросить провайдера вернуть JSON (response_format / responseMimeType)
+}
+
+// Ответ LLM
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+}
+
+/**
+ * Интерфейс LLM-провайдера
+ * Провайдер отвечает только за транспорт: отправить промпт и вернуть текст.
+ * Загрузка сообщений, промпты и парсинг живут в сервисах (AnalysisService, DigestService)
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly label: string;
+  isAvailable(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
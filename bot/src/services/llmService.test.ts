@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LLMService } from './llmService';
+import { LLMRegistry } from './llm/registry';
+import { describeLLMError, LLMError, toLLMError } from './llm/errors';
+import type { LLMProvider } from './llm/types';
+import type { LLMProviderId } from '../config/llm';
+
+// Фейковый провайдер с управляемым поведением
+function createProvider(id: LLMProviderId, options: { available?: boolean; error?: unknown } = {}): LLMProvider {
+  return {
+    id,
+    label: id,
+    isAvailable: () => options.available ?? true,
+    generate: vi.fn(async () => {
+      if (options.error) {
+        throw options.error;
+      }
+      return { text: `ответ ${id}`, provider: id, model: `${id}-model` };
+    }),
+  };
+}
+
+describe('LLMService', () => {
+  beforeEach(() => {
+    LLMRegistry.clear();
+    process.env.LLM_PROVIDER_ORDER = 'deepseek,qwen,gemini';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER_ORDER;
+    vi.restoreAllMocks();
+  });
+
+  it('должен переключаться на следующего провайдера при недостатке средств DeepSeek', async () => {
+    const deepseek = createProvider('deepseek', { error: { status: 402, message: 'Insufficient Balance' } });
+    const qwen = createProvider('qwen');
+    LLMRegistry.register(deepseek);
+    LLMRegistry.register(qwen);
+    LLMRegistry.register(createProvider('gemini'));
+
+    const response = await LLMService.generate({ prompt: 'test' });
+
+    expect(response.provider).toBe('qwen');
+    expect(deepseek.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('должен пропускать ненастроенных провайдеров и соблюдать LLM_PROVIDER_ORDER', async () => {
+    process.env.LLM_PROVIDER_ORDER = 'gemini,qwen';
+    LLMRegistry.register(createProvider('deepseek'));
+    LLMRegistry.register(createProvider('qwen'));
+    LLMRegistry.register(createProvider('gemini', { available: false }));
+
+    const response = await LLMService.generate({ prompt: 'test' });
+
+    expect(response.provider).toBe('qwen');
+  });
+
+  it('должен возвращать ALL_FAILED с причинами, если никто не ответил', async () => {
+    LLMRegistry.register(createProvider('deepseek', { error: { status: 402, message: 'Insufficient Balance' } }));
+    LLMRegistry.register(createProvider('qwen', { available: false }));
+    LLMRegistry.register(createProvider('gemini', { error: new Error('[403 Forbidden] bad key') }));
+
+    const error = await LLMService.generate({ prompt: 'test' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.code).toBe('ALL_FAILED');
+    expect(error.causes.map((cause: LLMError) => cause.code)).toEqual([
+      'INSUFFICIENT_BALANCE',
+      'NOT_CONFIGURED',
+      'AUTH',
+    ]);
+  });
+
+  it('должен использовать только выбранного провайдера без fallback', async () => {
+    const qwen = createProvider('qwen', { error: new Error('boom') });
+    const gemini = createProvider('gemini');
+    LLMRegistry.register(qwen);
+    LLMRegistry.register(gemini);
+
+    await expect(LLMService.generate({ prompt: 'test' }, { provider: 'qwen' })).rejects.toThrow(LLMError);
+    expect(gemini.generate).not.toHaveBeenCalled();
+  });
+});
+
+describe('LLM errors', () => {
+  it('должен классифицировать ошибки по статусу', () => {
+    expect(toLLMError({ status: 429, message: 'Too Many Requests' }, 'qwen').code).toBe('RATE_LIMIT');
+    expect(toLLMError(new Error('[404 Not Found] models/gemini-pro'), 'gemini').code).toBe('MODEL_NOT_FOUND');
+    expect(toLLMError(new Error('socket hang up'), 'deepseek').code).toBe('PROVIDER_ERROR');
+  });
+
+  it('должен формировать понятное сообщение для недостатка средств', () => {
+    const error = new LLMError('ALL_FAILED', 'fail', {
+      causes: [
+        new LLMError('INSUFFICIENT_BALANCE', 'no money', { provider: 'deepseek' }),
+        new LLMError('NOT_CONFIGURED', 'no key', { provider: 'qwen' }),
+      ],
+    });
+
+    expect(describeLLMError(error)).toContain('недостаточно средств');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { describeMessageContent, extractMessageContent, extractMessageLinks, reactionKey } from './messageContent';
+
+// Общие поля сообщения Telegram
+const base = {
+  message_id: 1,
+  date: 1760000000,
+  chat: { id: -100, type: 'supergroup', title: 'Команда' },
+  from: { id: 101, is_bot: false, first_name: 'Иван' },
+};
+
+describe('messageContent', () => {
+  it('должен сохранять подпись к фото как текст и брать самый большой размер', () => {
+    const content = extractMessageContent({
+      ...base,
+      caption: 'макет главной',
+      photo: [
+        { file_id: 'small', file_unique_id: 's', width: 90, height: 60, file_size: 1000 },
+        { file_id: 'large', file_unique_id: 'l', width: 1280, height: 720, file_size: 120000 },
+      ],
+    } as any);
+
+    expect(content).toEqual({
+      type: 'photo',
+      text: 'макет главной',
+      media: { file_id: 'large', file_unique_id: 'l', width: 1280, height: 720, file_size: 120000 },
+    });
+  });
+
+  it('должен распознавать GIF раньше документа и сохранять длительность голосовых', () => {
+    const gif = extractMessageContent({
+      ...base,
+      animation: { file_id: 'a', file_unique_id: 'a', width: 320, height: 240, duration: 3 },
+      document: { file_id: 'a', file_unique_id: 'a' },
+    } as any);
+    const voice = extractMessageContent({
+      ...base,
+      voice: { file_id: 'v', file_unique_id: 'v', duration: 42, mime_type: 'audio/ogg', file_size: 52000 },
+    } as any);
+
+    expect(gif?.type).toBe('animation');
+    expect(voice).toEqual({
+      type: 'voice',
+      text: '',
+      media: { file_id: 'v', file_unique_id: 'v', duration: 42, mime_type: 'audio/ogg', file_size: 52000 },
+    });
+  });
+
+  it('должен сохранять вопрос опроса как текст, а варианты - в метаданных', () => {
+    const content = extractMessageContent({
+      ...base,
+      poll: {
+        id: 'p1',
+        question: 'Когда релиз?',
+        options: [
+          { text: 'Пятница', voter_count: 0 },
+          { text: 'Понедельник', voter_count: 0 },
+        ],
+        total_voter_count: 0,
+        is_closed: false,
+        is_anonymous: true,
+        type: 'regular',
+        allows_multiple_answers: false,
+      },
+    } as any);
+
+    expect(content?.text).toBe('Когда релиз?');
+    expect(content?.media?.options).toEqual(['Пятница', 'Понедельник']);
+    expect(describeMessageContent('poll', content!.text, content!.media)).toBe(
+      '[опрос] Когда релиз? (Пятница / Понедельник)',
+    );
+  });
+
+  it('должен пропускать служебные сообщения', () => {
+    const content = extractMessageContent({
+      ...base,
+      new_chat_members: [{ id: 102, is_bot: false, first_name: 'Мария' }],
+    } as any);
+
+    expect(content).toBeNull();
+  });
+
+  it('должен описывать стикер эмодзи, а текст оставлять как есть', () => {
+    expect(describeMessageContent('sticker', '', { emoji: '😂' })).toBe('[стикер 😂]');
+    expect(describeMessageContent('document', 'отчёт', { file_name: 'q3.pdf' })).toBe('[файл q3.pdf] отчёт');
+    expect(describeMessageContent('text', 'привет', null)).toBe('привет');
+  });
+
+  it('должен сохранять ответ и тему, но не считать ответом ссылку на начало темы форума', () => {
+    const inTopic = { ...base, is_topic_message: true, message_thread_id: 7, text: 'ок' };
+
+    expect(extractMessageLinks({ ...inTopic, reply_to_message: { ...base, message_id: 7 } } as any)).toEqual({
+      reply_to_message_id: null,
+      topic_id: 7,
+      forward_origin: null,
+    });
+    expect(extractMessageLinks({ ...inTopic, reply_to_message: { ...base, message_id: 9 } } as any)).toMatchObject({
+      reply_to_message_id: 9,
+      topic_id: 7,
+    });
+  });
+
+  it('должен упрощать источник пересылки до имени и ID', () => {
+    const links = extractMessageLinks({
+      ...base,
+      text: 'новость',
+      forward_origin: { type: 'channel', date: 1760000000, chat: { id: -200, type: 'channel', title: 'Новости' }, message_id: 3 },
+    } as any);
+
+    expect(links.reply_to_message_id).toBeNull();
+    expect(links.forward_origin).toEqual({
+      type: 'channel',
+      name: 'Новости',
+      sender_id: -200,
+      date: new Date(1760000000 * 1000),
+    });
+  });
+
+  it('должен сохранять кастомные и платные реакции отдельными ключами', () => {
+    expect(reactionKey({ type: 'emoji', emoji: '🔥' })).toBe('🔥');
+    expect(reactionKey({ type: 'custom_emoji', custom_emoji_id: '5368324170671202286' })).toBe('custom:5368324170671202286');
+    expect(reactionKey({ type: 'paid' })).toBe('⭐');
+  });
+});
@@ -0,0 +1,286 @@
+import type { Message as TelegramMessage, ReactionType } from 'telegraf/types';
+import { ForwardOrigin, MessageMedia, MessageType } from '../models/Message';
+
+// Содержимое сообщения для сохранения в таблицу messages
+export interface MessageContent {
+  type: MessageType;
+  text: string; // Текст, подпись к вложению или вопрос опроса
+  media: MessageMedia | null;
+}
+
+// Связи сообщения: ответ, тема форума, пересылка
+export interface MessageLinks {
+  reply_to_message_id: number | null;
+  topic_id: number | null;
+  forward_origin: ForwardOrigin | null;
+}
+
+// Подписи типов для /stats, промптов и логов
+export const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
+  text: '💬 Текст',
+  photo: '🖼 Фото',
+  video: '🎬 Видео',
+  animation: '🎞 GIF',
+  document: '📎 Файлы',
+  audio: '🎵 Аудио',
+  voice: '🎤 Голосовые',
+  video_note: '⏺ Кружочки',
+  sticker: '🙂 Стикеры',
+  poll: '📊 Опросы',
+};
+
+/**
+ * Извлечь тип, текст и метаданные вложения из сообщения Telegram
+ * Возвращает null для служебных сообщений (вступление в чат, закреп и т.п.) и неподдерживаемых типов
+ */
+export function extractMessageContent(message: TelegramMessage): MessageContent | null {
+  const caption = 'caption' in message && message.caption ? message.caption : '';
+
+  if ('text' in message) {
+    return { type: 'text', text: message.text, media: null };
+  }
+
+  if ('photo' in message && message.photo.length > 0) {
+    // Telegram присылает несколько размеров - берём самый большой
+    const photo = message.photo[message.photo.length - 1];
+    return {
+      type: 'photo',
+      text: caption,
+      media: {
+        file_id: photo.file_id,
+        file_unique_id: photo.file_unique_id,
+        width: photo.width,
+        height: photo.height,
+        file_size: photo.file_size ?? null,
+      },
+    };
+  }
+
+  // animation проверяем раньше document: в GIF-сообщениях Telegram заполняет оба поля
+  if ('animation' in message) {
+    const { animation } = message;
+    return {
+      type: 'animation',
+      text: caption,
+      media: {
+        file_id: animation.file_id,
+        file_unique_id: animation.file_unique_id,
+        duration: animation.duration,
+        width: animation.width,
+        height: animation.height,
+        mime_type: animation.mime_type ?? null,
+        file_size: animation.file_size ?? null,
+      },
+    };
+  }
+
+  if ('video' in message) {
+    const { video } = message;
+    return {
+      type: 'video',
+      text: caption,
+      media: {
+        file_id: video.file_id,
+        file_unique_id: video.file_unique_id,
+        duration: video.duration,
+        width: video.width,
+        height: video.height,
+        file_name: video.file_name ?? null,
+        mime_type: video.mime_type ?? null,
+        file_size: video.file_size ?? null,
+      },
+    };
+  }
+
+  if ('document' in message) {
+    const { document } = message;
+    return {
+      type: 'document',
+      text: caption,
+      media: {
+        file_id: document.file_id,
+        file_unique_id: document.file_unique_id,
+        file_name: document.file_name ?? null,
+        mime_type: document.mime_type ?? null,
+        file_size: document.file_size ?? null,
+      },
+    };
+  }
+
+  if ('audio' in message) {
+    const { audio } = message;
+    return {
+      type: 'audio',
+      text: caption,
+      media: {
+        file_id: audio.file_id,
+        file_unique_id: audio.file_unique_id,
+        duration: audio.duration,
+        performer: audio.performer ?? null,
+        title: audio.title ?? null,
+        file_name: audio.file_name ?? null,
+        mime_type: audio.mime_type ?? null,
+        file_size: audio.file_size ?? null,
+      },
+    };
+  }
+
+  if ('voice' in message) {
+    const { voice } = message;
+    return {
+      type: 'voice',
+      text: caption,
+      media: {
+        file_id: voice.file_id,
+        file_unique_id: voice.file_unique_id,
+        duration: voice.duration,
+        mime_type: voice.mime_type ?? null,
+        file_size: voice.file_size ?? null,
+      },
+    };
+  }
+
+  if ('video_note' in message) {
+    const videoNote = message.video_note;
+    return {
+      type: 'video_note',
+      text: '',
+      media: {
+        file_id: videoNote.file_id,
+        file_unique_id: videoNote.file_unique_id,
+        duration: videoNote.duration,
+        length: videoNote.length,
+        file_size: videoNote.file_size ?? null,
+      },
+    };
+  }
+
+  if ('sticker' in message) {
+    const { sticker } = message;
+    return {
+      type: 'sticker',
+      text: '',
+      media: {
+        file_id: sticker.file_id,
+        file_unique_id: sticker.file_unique_id,
+        emoji: sticker.emoji ?? null,
+        set_name: sticker.set_name ?? null,
+        is_animated: sticker.is_animated,
+        is_video: sticker.is_video,
+      },
+    };
+  }
+
+  if ('poll' in message) {
+    const { poll } = message;
+    return {
+      type: 'poll',
+      text: poll.question,
+      media: {
+        poll_id: poll.id,
+        options: poll.options.map((option) => option.text),
+        poll_type: poll.type,
+        is_anonymous: poll.is_anonymous,
+        allows_multiple_answers: poll.allows_multiple_answers,
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Описание сообщения для промпта: "[фото] подпись", "[стикер 😂]", "[опрос] вопрос (да / нет)"
+ * Текстовые сообщения возвращаются как есть
+ */
+export function describeMessageContent(
+  type: MessageType,
+  text: string,
+  media: MessageMedia | null,
+): string {
+  if (type === 'text') {
+    return text;
+  }
+
+  const tags: Record<Exclude<MessageType, 'text'>, string> = {
+    photo: 'фото',
+    video: 'видео',
+    animation: 'GIF',
+    document: media?.file_name ? `файл ${media.file_name}` : 'файл',
+    audio: 'аудио',
+    voice: 'голосовое',
+    video_note: 'видеокружок',
+    sticker: media?.emoji ? `стикер ${media.emoji}` : 'стикер',
+    poll: 'опрос',
+  };
+
+  let description = `[${tags[type]}]`;
+  if (text) {
+    description += ` ${text}`;
+  }
+  if (type === 'poll' && Array.isArray(media?.options)) {
+    description += ` (${media.options.join(' / ')})`;
+  }
+  return description;
+}
+
+/**
+ * Извлечь ответ, тему форума и источник пересылки
+ * В темах форума Telegram присылает reply_to_message на первое сообщение темы у каждого сообщения -
+ * это не настоящий ответ, такой reply не сохраняем
+ */
+export function extractMessageLinks(message: TelegramMessage): MessageLinks {
+  const topicId = message.is_topic_message && message.message_thread_id ? message.message_thread_id : null;
+  const replyTo = 'reply_to_message' in message && message.reply_to_message ? message.reply_to_message.message_id : null;
+  const origin = 'forward_origin' in message ? message.forward_origin : undefined;
+
+  return {
+    reply_to_message_id: replyTo !== null && replyTo !== topicId ? replyTo : null,
+    topic_id: topicId,
+    forward_origin: origin ? toForwardOrigin(origin) : null,
+  };
+}
+
+/**
+ * Упростить MessageOrigin до имени и ID источника
+ */
+function toForwardOrigin(origin: NonNullable<TelegramMessage.CommonMessage['forward_origin']>): ForwardOrigin {
+  // В @telegraf/types у MessageOrigin* нет поля date, хотя Bot API присылает его для всех типов
+  const date = new Date((origin as typeof origin & { date: number }).date * 1000);
+  switch (origin.type) {
+    case 'user':
+      return {
+        type: 'user',
+        name: origin.sender_user.username ? `@${origin.sender_user.username}` : origin.sender_user.first_name,
+        sender_id: origin.sender_user.id,
+        date,
+      };
+    case 'hidden_user':
+      return { type: 'hidden_user', name: origin.sender_user_name, sender_id: null, date };
+    case 'chat':
+      return { type: 'chat', name: 'title' in origin.sender_chat ? origin.sender_chat.title : 'чат', sender_id: origin.sender_chat.id, date };
+    case 'channel':
+      return { type: 'channel', name: 'title' in origin.chat ? origin.chat.title : 'канал', sender_id: origin.chat.id, date };
+  }
+}
+
+/**
+ * Ключ реакции для хранения: сам эмодзи, custom:<id> для кастомных эмодзи, ⭐ для платных
+ */
+export function reactionKey(reaction: ReactionType | { type: string }): string {
+  if ('emoji' in reaction) {
+    return reaction.emoji;
+  }
+  if ('custom_emoji_id' in reaction) {
+    return `custom:${reaction.custom_emoji_id}`;
+  }
+  // Платные реакции (type: 'paid') в @telegraf/types ещё не описаны
+  return reaction.type === 'paid' ? '⭐' : reaction.type;
+}
+
+/**
+ * Как показывать реакцию в /stats: кастомные эмодзи в тексте не отрисовать
+ */
+export function formatReactionKey(key: string): string {
+  return key.startsWith('custom:') ? '🧩' : key;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parsePeriod, parseWindowArgs } from './periodParser';
+
+// Фиксированное "сейчас" (локальное время), чтобы тесты не зависели от даты запуска
+const now = new Date(2026, 9, 19, 15, 30);
+
+describe('periodParser', () => {
+  it('должен разбирать относительные периоды', () => {
+    const today = parsePeriod('today', now)!;
+    expect(today.startDate).toEqual(new Date(2026, 9, 19));
+    expect(today.endDate).toEqual(now);
+
+    const yesterday = parsePeriod('yesterday', now)!;
+    expect(yesterday.startDate).toEqual(new Date(2026, 9, 18));
+    expect(yesterday.endDate).toEqual(new Date(2026, 9, 18, 23, 59, 59, 999));
+
+    const week = parsePeriod('week', now)!;
+    expect(week.startDate).toEqual(new Date(2026, 9, 12, 15, 30));
+    expect(week.label).toBe('последние 7 дней');
+  });
+
+  it('должен разбирать диапазон дат включительно', () => {
+    const period = parsePeriod('2026-09-01..2026-09-30', now)!;
+
+    expect(period.startDate).toEqual(new Date(2026, 8, 1));
+    expect(period.endDate).toEqual(new Date(2026, 8, 30, 23, 59, 59, 999));
+    expect(period.label).toBe('01.09.2026 — 30.09.2026');
+  });
+
+  it('должен отклонять некорректные диапазоны', () => {
+    expect(() => parsePeriod('2026-02-31..2026-03-01', now)).toThrow('Некорректная дата');
+    expect(() => parsePeriod('2026-09-30..2026-09-01', now)).toThrow('позже конца');
+    expect(parsePeriod('@john', now)).toBeNull();
+  });
+
+  it('должен разбирать период вместе с last:N', () => {
+    const args = parseWindowArgs(['week', 'last:200', 'foo', 'last:0'], now);
+
+    expect(args.period?.key).toBe('week');
+    expect(args.limit).toBe(200);
+    expect(args.unknown).toEqual(['foo']);
+    expect(args.errors).toHaveLength(1);
+  });
+
+  it('должен считать сегодня и диапазоны в поясе чата', () => {
+    // 21:30 UTC 19 октября - в Москве уже 20 октября
+    const late = new Date('2026-10-19T21:30:00Z');
+
+    expect(parsePeriod('today', late, 'Europe/Moscow')!.startDate).toEqual(new Date('2026-10-19T21:00:00Z'));
+    expect(parsePeriod('today', late, 'UTC')!.startDate).toEqual(new Date('2026-10-19T00:00:00Z'));
+    expect(parsePeriod('yesterday', late, 'Europe/Moscow')!.endDate).toEqual(new Date('2026-10-19T20:59:59.999Z'));
+
+    const range = parsePeriod('2026-10-01..2026-10-07', late, 'Asia/Dushanbe')!;
+    expect(range.startDate).toEqual(new Date('2026-09-30T19:00:00Z'));
+    expect(range.endDate).toEqual(new Date('2026-10-07T18:59:59.999Z'));
+  });
+
+  it('должен учитывать 23- и 25-часовые дни при переводе часов', () => {
+    const hour = 60 * 60 * 1000;
+
+    const spring = parsePeriod('2026-03-29..2026-03-29', now, 'Europe/Berlin')!;
+    expect(spring.startDate).toEqual(new Date('2026-03-28T23:00:00Z'));
+    expect(spring.endDate!.getTime() - spring.startDate!.getTime() + 1).toBe(23 * hour);
+
+    const autumn = parsePeriod('yesterday', new Date('2026-10-26T10:00:00Z'), 'Europe/Berlin')!;
+    expect(autumn.startDate).toEqual(new Date('2026-10-24T22:00:00Z'));
+    expect(autumn.endDate!.getTime() - autumn.startDate!.getTime() + 1).toBe(25 * hour);
+
+    // Неделя назад - то же время по местным часам, даже если между ними перевод часов
+    expect(parsePeriod('week', new Date('2026-03-30T10:00:00Z'), 'Europe/Berlin')!.startDate).toEqual(
+      new Date('2026-03-23T11:00:00Z')
+    );
+  });
+});
@@ -1,24 +1,167 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { StatsService } from './statsService';
+import { Message } from '../models/Message';
+import { DailyStats } from '../models/DailyStats';
+import { Chat } from '../models/Chat';
+
+// Redis в памяти: get / setEx / incr, как у настоящего клиента
+const redisStore = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../config/database', () => ({
+  pgPool: {
+    query: vi.fn(),
+  },
+  redisClient: {
+    get: vi.fn(async (key: string) => redisStore.get(key) ?? null),
+    setEx: vi.fn(async (key: string, _ttl: number, value: string) => {
+      redisStore.set(key, value);
+    }),
+    incr: vi.fn(async (key: string) => {
+      const value = parseInt(redisStore.get(key) ?? '0', 10) + 1;
+      redisStore.set(key, String(value));
+      return value;
+    }),
+  },
+}));
 
 describe('StatsService', () => {
+  beforeEach(() => {
+    redisStore.clear();
+    vi.restoreAllMocks();
+    vi.spyOn(Chat, 'getTimeZone').mockResolvedValue('UTC');
+  });
+
   describe('getCacheKey', () => {
-    it('должен генерировать ключ кэша для общей статистики', () => {
+    it('должен генерировать ключ кэша для общей статистики', async () => {
       // Используем рефлексию для доступа к приватному методу
-      const chatId = 12345;
-      const period = 'today';
-      const key = `stats:chat:${chatId}:period:${period}`;
-      
-      expect(key).toBe('stats:chat:12345:period:today');
+      const key = await (StatsService as any).getCacheKey(12345, 'today');
+
+      expect(key).toBe('stats:chat:12345:v0:period:today');
     });
 
-    it('должен генерировать ключ кэша для статистики пользователя', () => {
-      const chatId = 12345;
-      const period = 'week';
-      const userId = 67890;
-      const key = `stats:chat:${chatId}:user:${userId}:period:${period}`;
-      
-      expect(key).toBe('stats:chat:12345:user:67890:period:week');
+    it('должен генерировать ключ кэша для статистики пользователя', async () => {
+      const key = await (StatsService as any).getCacheKey(12345, 'week', 'user:67890');
+
+      expect(key).toBe('stats:chat:12345:v0:user:67890:period:week');
+    });
+
+    it('должен менять ключи чата после очистки кэша', async () => {
+      await StatsService.clearCache(12345);
+
+      expect(await (StatsService as any).getCacheKey(12345, 'today')).toBe('stats:chat:12345:v1:period:today');
+      expect(await (StatsService as any).getCacheKey(67890, 'today')).toBe('stats:chat:67890:v0:period:today');
+    });
+  });
+
+  describe('инвалидация кэша', () => {
+    // Сообщения в "БД": статистика считается по ним при каждом промахе кэша
+    let messages: Array<{ user_id: number; username: string }>;
+
+    beforeEach(() => {
+      messages = [{ user_id: 1, username: 'ivan' }];
+      vi.spyOn(Message, 'getTopUsersByMessageCount').mockImplementation(async () => {
+        const counts = new Map<number, { user_id: number; count: number; username: string; first_name: null }>();
+        for (const message of messages) {
+          const entry = counts.get(message.user_id) ?? { ...message, count: 0, first_name: null };
+          entry.count++;
+          counts.set(message.user_id, entry);
+        }
+        return [...counts.values()].sort((a, b) => b.count - a.count);
+      });
+      vi.spyOn(Message, 'getStats').mockImplementation(async () => ({
+        totalMessages: messages.length,
+        totalUsers: new Set(messages.map((message) => message.user_id)).size,
+      }));
+      vi.spyOn(Message, 'getTypeBreakdown').mockResolvedValue([]);
+      vi.spyOn(Message, 'getTopEditors').mockResolvedValue([]);
+      vi.spyOn(Message, 'getReplyPairs').mockResolvedValue([]);
+    });
+
+    it('должен отдавать статистику из кэша, пока данные чата не менялись', async () => {
+      await StatsService.getChatStats(-100, 'all');
+      messages.push({ user_id: 2, username: 'maria' });
+
+      const stats = await StatsService.getChatStats(-100, 'all');
+
+      expect(stats.totalMessages).toBe(1);
+      expect(Message.getStats).toHaveBeenCalledTimes(1);
+    });
+
+    it('должен сразу учитывать новое сообщение после очистки кэша', async () => {
+      const before = await StatsService.getChatStats(-100, 'all');
+      expect(before.totalMessages).toBe(1);
+
+      // Так делает обработчик сообщений после успешного Message.create
+      messages.push({ user_id: 2, username: 'maria' }, { user_id: 2, username: 'maria' });
+      await StatsService.clearCache(-100);
+
+      const after = await StatsService.getChatStats(-100, 'all');
+      expect(after.totalMessages).toBe(3);
+      expect(after.totalUsers).toBe(2);
+      expect(after.topUsers[0]).toMatchObject({ username: 'maria', count: 2 });
+    });
+
+    it('не должен сбрасывать кэш других чатов', async () => {
+      await StatsService.getChatStats(-200, 'all');
+      messages.push({ user_id: 2, username: 'maria' });
+      await StatsService.clearCache(-100);
+
+      const stats = await StatsService.getChatStats(-200, 'all');
+
+      expect(stats.totalMessages).toBe(1);
+    });
+  });
+
+  describe('getChatCharts', () => {
+    beforeEach(() => {
+      vi.spyOn(Message, 'getTopUsersByMessageCount').mockResolvedValue([
+        { user_id: 1, count: 3, username: 'ivan', first_name: null },
+      ]);
+      vi.spyOn(Message, 'getStats').mockResolvedValue({ totalMessages: 3, totalUsers: 1 });
+      vi.spyOn(Message, 'getTypeBreakdown').mockResolvedValue([]);
+      vi.spyOn(Message, 'getTopEditors').mockResolvedValue([]);
+      vi.spyOn(Message, 'getReplyPairs').mockResolvedValue([]);
+      vi.spyOn(DailyStats, 'getHeatmap').mockResolvedValue({
+        cells: Array.from({ length: 7 }, () => new Array<number>(24).fill(0)),
+        total: 0,
+      });
+      vi.spyOn(DailyStats, 'getDailyCounts').mockResolvedValue([
+        { date: '2026-09-01', count: 2 },
+        { date: '2026-09-04', count: 1 },
+      ]);
+    });
+
+    it('должен кэшировать картинки и перерисовывать их после очистки кэша', async () => {
+      const charts = await StatsService.getChatCharts(-100, 'all');
+      const cached = await StatsService.getChatCharts(-100, 'all');
+
+      expect(cached.daily.equals(charts.daily)).toBe(true);
+      expect(cached.topUsers.subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(DailyStats.getDailyCounts).toHaveBeenCalledTimes(1);
+
+      await StatsService.clearCache(-100);
+      await StatsService.getChatCharts(-100, 'all');
+      expect(DailyStats.getDailyCounts).toHaveBeenCalledTimes(2);
+    });
+
+    it('должен дополнять дни без сообщений нулями', () => {
+      const days = [
+        { date: '2026-09-01', count: 2 },
+        { date: '2026-09-04', count: 1 },
+      ];
+
+      expect((StatsService as any).fillDays(days, {})).toEqual([
+        { date: '2026-09-01', count: 2 },
+        { date: '2026-09-02', count: 0 },
+        { date: '2026-09-03', count: 0 },
+        { date: '2026-09-04', count: 1 },
+      ]);
+      const range = StatsService.getDateRange('2026-08-31..2026-09-02');
+      expect((StatsService as any).fillDays(days, range).map((day: { date: string }) => day.date)).toEqual([
+        '2026-08-31',
+        '2026-09-01',
+        '2026-09-02',
+      ]);
     });
   });
 
@@ -48,6 +191,14 @@ describe('StatsService', () => {
       expect(monthAgo.getMonth()).toBe(11); // декабрь = 11
     });
 
+    it('должен возвращать границы произвольного диапазона включительно', () => {
+      const range = StatsService.getDateRange('2026-09-01..2026-09-15');
+
+      expect(range.startDate).toEqual(new Date(2026, 8, 1));
+      expect(range.endDate).toEqual(new Date(2026, 8, 15, 23, 59, 59, 999));
+      expect(StatsService.getDateRange('all')).toEqual({});
+    });
+
     it('должен возвращать пустой объект для периода "all"', () => {
       // Для "all" не должно быть фильтров по дате
       const emptyRange = {};
@@ -1,6 +1,14 @@
 import { redisClient } from '../config/database';
-import { Message } from '../models/Message';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { Chat } from '../models/Chat';
+import { InteractionEdge, Message, MessageType, UserActivity } from '../models/Message';
 import { User } from '../models/User';
+import { Reaction, ReactionUserStat, TopReactedMessage } from '../models/Reaction';
+import { ChatMember, SilentMember } from '../models/ChatMember';
+import { ActivityHeatmap, DailyStats } from '../models/DailyStats';
+import { ChartService, DailyPoint } from './chartService';
+import { DateRange, parsePeriod } from './periodParser';
+import { toZonedDateKey } from './timeZone';
 
 // Интерфейс для результата статистики
 export interface StatsResult {
@@ -12,65 +20,135 @@ export interface StatsResult {
   }>;
   totalMessages: number;
   totalUsers: number;
+  byType: Array<{ type: MessageType; count: number }>; // Сообщения по типам: текст, фото, голосовые...
+  // Кто чаще всех редактирует: правки и отредактированные сообщения
+  topEditors: Array<{
+    user_id: number;
+    edits: number;
+    messages: number;
+    username: string | null;
+    first_name: string | null;
+  }>;
+  // Кто кому отвечает: самые частые пары "автор ответа → автор исходного сообщения"
+  topReplyPairs: Array<{
+    from_user_id: number;
+    from_username: string | null;
+    from_first_name: string | null;
+    to_user_id: number;
+    to_username: string | null;
+    to_first_name: string | null;
+    count: number;
+  }>;
 }
 
 // Интерфейс для статистики пользователя
-export interface UserStatsResult {
+export interface UserStatsResult extends UserActivity {
   userId: number;
   username: string | null;
   firstName: string | null;
-  messageCount: number;
+  share: number; // Доля сообщений пользователя в чате за период, %
+  period: string;
+  timeZone: string; // Пояс чата - в нём показывается время последнего сообщения
+}
+
+// Интерфейс для графа взаимодействий (кто кому отвечает и кого упоминает)
+export interface InteractionsResult {
+  edges: InteractionEdge[];
+  period: string;
+}
+
+// Интерфейс для рейтингов реакций
+export interface ReactionStatsResult {
+  topMessages: TopReactedMessage[];
+  topGivers: ReactionUserStat[]; // Кто ставит больше всех реакций
+  topReceivers: ReactionUserStat[]; // Кто получает больше всех реакций
+  topEmoji: Array<{ emoji: string; count: number }>;
+  period: string;
+}
+
+// Интерфейс для статистики участников: рост, отток и молчуны
+export interface MemberStatsResult {
+  joined: number;
+  left: number;
+  members: number; // Участников в чате сейчас (по событиям, которые видел бот)
+  silentMembers: SilentMember[]; // Вступили, но ничего не написали
+  silentTotal: number;
+  period: string;
+  timeZone: string; // Пояс чата - в нём показываются даты вступления
+}
+
+// Интерфейс для тепловой карты активности чата или участника
+export interface HeatmapResult extends ActivityHeatmap {
+  userId: number | null; // null - весь чат
+  username: string | null;
+  firstName: string | null;
   period: string;
 }
 
+// Фильтр запросов статистики чата: период в поясе чата
+type ChatFilter = DateRange & { chatId: number; timeZone: string };
+
+// PNG-графики общей статистики: топ участников, сообщения по дням и тепловая карта
+export interface ChatCharts {
+  topUsers: Buffer;
+  daily: Buffer;
+  heatmap: Buffer;
+}
+
 /**
  * Сервис для работы со статистикой с кэшированием в Redis
  */
 export class StatsService {
   private static readonly CACHE_TTL = parseInt(process.env.CACHE_TTL || '1200'); // 20 минут по умолчанию
 
+  /**
+   * Ключ версии кэша чата: увеличивается в clearCache при каждом изменении данных чата
+   */
+  private static getVersionKey(chatId: number): string {
+    return `stats:chat:${chatId}:version`;
+  }
+
   /**
    * Генерация ключа кэша для статистики
+   * section - раздел (user:<id>, interactions, reactions, members, heatmap, charts); без него - общая статистика.
+   * В ключ входит версия кэша чата: после clearCache старые ключи больше не читаются и истекают по TTL
+   */
+  private static async getCacheKey(chatId: number, period: string, section?: string): Promise<string> {
+    let version = '0';
+    try {
+      version = (await redisClient.get(this.getVersionKey(chatId))) ?? '0';
+    } catch (error) {
+      console.error('Ошибка при чтении версии кэша:', error);
+    }
+    return `stats:chat:${chatId}:v${version}:${section ? `${section}:` : ''}period:${period}`;
+  }
+
+  /**
+   * Получить даты для периода: today, week, month, all или диапазон YYYY-MM-DD..YYYY-MM-DD
+   * Границы суток - в поясе timeZone. Период входит в ключ кэша как есть, поэтому у каждого диапазона свой кэш,
+   * а после смены пояса чата кэш сбрасывается
    */
-  private static getCacheKey(chatId: number, period: string, userId?: number): string {
-    if (userId) {
-      return `stats:chat:${chatId}:user:${userId}:period:${period}`;
+  static getDateRange(period: string, now: Date = new Date(), timeZone: string = getDefaultTimeZone()): DateRange {
+    const parsed = parsePeriod(period, now, timeZone);
+    if (!parsed) {
+      return {}; // Все время - без фильтров
     }
-    return `stats:chat:${chatId}:period:${period}`;
+    return { startDate: parsed.startDate, endDate: parsed.endDate };
   }
 
   /**
-   * Получить даты для периода
+   * Фильтр для запросов статистики чата: даты периода в поясе чата, сам чат и его пояс
    */
-  private static getDateRange(period: string): { startDate?: Date; endDate?: Date } {
-    const now = new Date();
-    let startDate: Date | undefined;
-
-    switch (period) {
-      case 'today':
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        break;
-      case 'week':
-        startDate = new Date(now);
-        startDate.setDate(now.getDate() - 7);
-        break;
-      case 'month':
-        startDate = new Date(now);
-        startDate.setMonth(now.getMonth() - 1);
-        break;
-      case 'all':
-      default:
-        return {}; // Все время - без фильтров
-    }
-
-    return { startDate, endDate: now };
+  private static async getChatFilter(chatId: number, period: string): Promise<ChatFilter> {
+    const timeZone = await Chat.getTimeZone(chatId);
+    return { ...this.getDateRange(period, new Date(), timeZone), chatId, timeZone };
   }
 
   /**
    * Получить общую статистику чата с кэшированием
    */
   static async getChatStats(chatId: number, period: string = 'all'): Promise<StatsResult> {
-    const cacheKey = this.getCacheKey(chatId, period);
+    const cacheKey = await this.getCacheKey(chatId, period);
 
     try {
       // Пытаемся получить из кэша
@@ -84,15 +162,19 @@ export class StatsService {
     }
 
     // Если нет в кэше - получаем из БД
-    const dateRange = this.getDateRange(period);
+    const filter = await this.getChatFilter(chatId, period);
     console.log(`📊 Получение статистики для чата ${chatId}, период: ${period}`, {
-      hasStartDate: !!dateRange.startDate,
-      hasEndDate: !!dateRange.endDate,
+      hasStartDate: !!filter.startDate,
+      hasEndDate: !!filter.endDate,
+      timeZone: filter.timeZone,
     });
     
-    const [topUsers, stats] = await Promise.all([
-      Message.getTopUsersByMessageCount(10, { ...dateRange, chatId }),
-      Message.getStats({ ...dateRange, chatId }),
+    const [topUsers, stats, byType, topEditors, topReplyPairs] = await Promise.all([
+      Message.getTopUsersByMessageCount(10, filter),
+      Message.getStats(filter),
+      Message.getTypeBreakdown(filter),
+      Message.getTopEditors(3, filter),
+      Message.getReplyPairs(5, filter),
     ]);
     
     console.log(`✅ Статистика получена: ${stats.totalMessages} сообщений от ${stats.totalUsers} пользователей, топ: ${topUsers.length} пользователей`);
@@ -101,6 +183,9 @@ export class StatsService {
       topUsers,
       totalMessages: stats.totalMessages,
       totalUsers: stats.totalUsers,
+      byType,
+      topEditors,
+      topReplyPairs,
     };
 
     // Сохраняем в кэш
@@ -116,13 +201,14 @@ export class StatsService {
 
   /**
    * Получить статистику конкретного пользователя с кэшированием
+   * userId - id из таблицы users (не Telegram ID)
    */
   static async getUserStats(
     chatId: number,
     userId: number,
     period: string = 'all'
   ): Promise<UserStatsResult | null> {
-    const cacheKey = this.getCacheKey(chatId, period, userId);
+    const cacheKey = await this.getCacheKey(chatId, period, `user:${userId}`);
 
     try {
       // Пытаемся получить из кэша
@@ -136,20 +222,22 @@ export class StatsService {
     }
 
     // Если нет в кэше - получаем из БД
-    const user = await User.findByTelegramId(userId);
+    const user = await User.findById(userId);
     if (!user) {
       return null;
     }
 
-    const dateRange = this.getDateRange(period);
-    const messageCount = await Message.countByUserId(user.id, { ...dateRange, chatId });
+    const filter = await this.getChatFilter(chatId, period);
+    const activity = await Message.getUserActivity(user.id, filter);
 
     const result: UserStatsResult = {
       userId: user.id,
       username: user.username,
       firstName: user.first_name,
-      messageCount,
+      ...activity,
+      share: activity.totalMessages > 0 ? Math.round((activity.messageCount / activity.totalMessages) * 1000) / 10 : 0,
       period,
+      timeZone: filter.timeZone,
     };
 
     // Сохраняем в кэш
@@ -164,14 +252,224 @@ export class StatsService {
   }
 
   /**
-   * Очистить кэш для чата (при необходимости)
+   * Получить самые сильные связи между участниками чата с кэшированием
+   */
+  static async getInteractions(chatId: number, period: string = 'all'): Promise<InteractionsResult> {
+    const cacheKey = await this.getCacheKey(chatId, period, 'interactions');
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        console.log(`📦 Взаимодействия загружены из кэша для чата ${chatId}, период: ${period}`);
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      console.error('Ошибка при чтении из кэша:', error);
+    }
+
+    const edges = await Message.getInteractions(10, await this.getChatFilter(chatId, period));
+    const result: InteractionsResult = { edges, period };
+
+    try {
+      await redisClient.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(result));
+    } catch (error) {
+      console.error('Ошибка при сохранении в кэш:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Получить рейтинги реакций чата с кэшированием
+   */
+  static async getReactionStats(chatId: number, period: string = 'all'): Promise<ReactionStatsResult> {
+    const cacheKey = await this.getCacheKey(chatId, period, 'reactions');
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        console.log(`📦 Реакции загружены из кэша для чата ${chatId}, период: ${period}`);
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      console.error('Ошибка при чтении из кэша:', error);
+    }
+
+    const filter = await this.getChatFilter(chatId, period);
+    const [topMessages, topGivers, topReceivers, topEmoji] = await Promise.all([
+      Reaction.getTopMessages(3, filter),
+      Reaction.getTopGivers(3, filter),
+      Reaction.getTopReceivers(3, filter),
+      Reaction.getTopEmoji(5, filter),
+    ]);
+    const result: ReactionStatsResult = { topMessages, topGivers, topReceivers, topEmoji, period };
+
+    try {
+      await redisClient.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(result));
+    } catch (error) {
+      console.error('Ошибка при сохранении в кэш:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Получить рост, отток и список молчунов чата с кэшированием
+   */
+  static async getMemberStats(chatId: number, period: string = 'all'): Promise<MemberStatsResult> {
+    const cacheKey = await this.getCacheKey(chatId, period, 'members');
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        console.log(`📦 Статистика участников загружена из кэша для чата ${chatId}, период: ${period}`);
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      console.error('Ошибка при чтении из кэша:', error);
+    }
+
+    const filter = await this.getChatFilter(chatId, period);
+    const [growth, silent] = await Promise.all([
+      ChatMember.getGrowth(chatId, filter),
+      ChatMember.findSilent(chatId, 10),
+    ]);
+    const result: MemberStatsResult = {
+      ...growth,
+      silentMembers: silent.members,
+      silentTotal: silent.total,
+      period,
+      timeZone: filter.timeZone,
+    };
+
+    try {
+      await redisClient.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(result));
+    } catch (error) {
+      console.error('Ошибка при сохранении в кэш:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Получить тепловую карту "день недели × час" чата или участника с кэшированием
+   * userId - id из таблицы users; без него - весь чат. null - участник не найден
+   */
+  static async getHeatmap(chatId: number, period: string = 'all', userId?: number): Promise<HeatmapResult | null> {
+    const cacheKey = await this.getCacheKey(chatId, period, userId !== undefined ? `heatmap:user:${userId}` : 'heatmap');
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        console.log(`📦 Тепловая карта загружена из кэша для чата ${chatId}, период: ${period}`);
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      console.error('Ошибка при чтении из кэша:', error);
+    }
+
+    const user = userId !== undefined ? await User.findById(userId) : null;
+    if (userId !== undefined && !user) {
+      return null;
+    }
+
+    const heatmap = await DailyStats.getHeatmap({ ...(await this.getChatFilter(chatId, period)), userId });
+    const result: HeatmapResult = {
+      ...heatmap,
+      userId: user?.id ?? null,
+      username: user?.username ?? null,
+      firstName: user?.first_name ?? null,
+      period,
+    };
+
+    try {
+      await redisClient.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(result));
+    } catch (error) {
+      console.error('Ошибка при сохранении в кэш:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Получить графики общей статистики с кэшированием
+   * Картинки кэшируются рядом с текстом (base64 под тем же версионным ключом), поэтому после clearCache
+   * перерисовываются вместе со статистикой. Топ и тепловая карта берутся из их собственного кэша
+   */
+  static async getChatCharts(chatId: number, period: string = 'all'): Promise<ChatCharts> {
+    const cacheKey = await this.getCacheKey(chatId, period, 'charts');
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        console.log(`📦 Графики загружены из кэша для чата ${chatId}, период: ${period}`);
+        const images: Record<keyof ChatCharts, string> = JSON.parse(cached);
+        return {
+          topUsers: Buffer.from(images.topUsers, 'base64'),
+          daily: Buffer.from(images.daily, 'base64'),
+          heatmap: Buffer.from(images.heatmap, 'base64'),
+        };
+      }
+    } catch (error) {
+      console.error('Ошибка при чтении из кэша:', error);
+    }
+
+    const filter = await this.getChatFilter(chatId, period);
+    const [stats, heatmap, days] = await Promise.all([
+      this.getChatStats(chatId, period),
+      this.getHeatmap(chatId, period),
+      DailyStats.getDailyCounts(filter),
+    ]);
+    const charts: ChatCharts = {
+      topUsers: ChartService.renderBarChart(stats.topUsers.map((user) => user.count)),
+      daily: ChartService.renderLineChart(this.fillDays(days, filter)),
+      heatmap: ChartService.renderHeatmap(heatmap?.cells ?? []),
+    };
+
+    try {
+      const images: Record<keyof ChatCharts, string> = {
+        topUsers: charts.topUsers.toString('base64'),
+        daily: charts.daily.toString('base64'),
+        heatmap: charts.heatmap.toString('base64'),
+      };
+      await redisClient.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(images));
+      console.log(`💾 Графики сохранены в кэш для чата ${chatId}, период: ${period}`);
+    } catch (error) {
+      console.error('Ошибка при сохранении в кэш:', error);
+    }
+
+    return charts;
+  }
+
+  /**
+   * Дни подряд от начала до конца периода с нулями там, где сообщений не было
+   * Дни периода - в поясе чата, как и в агрегатах; без границ периода - от первого до последнего дня с сообщениями
+   */
+  private static fillDays(days: DailyPoint[], filter: Pick<ChatFilter, 'startDate' | 'endDate' | 'timeZone'>): DailyPoint[] {
+    const first = filter.startDate ? toZonedDateKey(filter.startDate, filter.timeZone) : days[0]?.date;
+    const last = filter.endDate ? toZonedDateKey(filter.endDate, filter.timeZone) : days[days.length - 1]?.date;
+    if (!first || !last) {
+      return days;
+    }
+
+    const counts = new Map(days.map((day) => [day.date, day.count]));
+    const points: DailyPoint[] = [];
+    // Дни считаются по календарю, без часов: YYYY-MM-DD через полночь UTC
+    for (let day = new Date(`${first}T00:00:00Z`); day.toISOString().slice(0, 10) <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = day.toISOString().slice(0, 10);
+      points.push({ date, count: counts.get(date) ?? 0 });
+    }
+    return points;
+  }
+
+  /**
+   * Очистить кэш для чата: вызывается после каждого изменения данных чата
+   * Вместо поиска ключей через SCAN увеличиваем версию - одна команда Redis на любое число ключей,
+   * а ключи старой версии никто больше не читает, и они истекают по TTL
    */
   static async clearCache(chatId: number): Promise<void> {
     try {
-      const pattern = `stats:chat:${chatId}:*`;
-      // Redis не поддерживает удаление по паттерну напрямую, нужно использовать SCAN
-      // Для простоты можно просто не очищать, кэш истечет сам
-      console.log(`🗑️ Кэш для чата ${chatId} будет очищен автоматически через ${this.CACHE_TTL} секунд`);
+      await redisClient.incr(this.getVersionKey(chatId));
     } catch (error) {
       console.error('Ошибка при очистке кэша:', error);
     }
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SummarizationService, CondenseOptions } from './summarizationService';
+import { LLMService } from './llmService';
+
+vi.mock('./llmService', () => ({
+  LLMService: { generate: vi.fn() },
+}));
+
+function options(tokenBudget: number): CondenseOptions {
+  return {
+    tokenBudget,
+    system: 'system',
+    mapPrompt: (chunk, index, total) => `map ${index + 1}/${total}\n${chunk}`,
+    mergePrompt: (notes) => `merge\n${notes}`,
+  };
+}
+
+describe('SummarizationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('должен резать строки на части в пределах бюджета, сохраняя порядок', () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `сообщение ${i}`.padEnd(29, '.'));
+
+    const chunks = SummarizationService.chunkByTokens(lines, 20); // ~60 символов на часть
+
+    expect(chunks).toHaveLength(5);
+    expect(chunks.flat()).toEqual(lines);
+    for (const chunk of chunks) {
+      expect(SummarizationService.estimateTokens(chunk.join('\n'))).toBeLessThanOrEqual(20);
+    }
+  });
+
+  it('должен резать слишком длинную строку на куски', () => {
+    const chunks = SummarizationService.chunkByTokens(['а'.repeat(150)], 20);
+
+    expect(chunks.map((chunk) => chunk.join(''))).toEqual(['а'.repeat(60), 'а'.repeat(60), 'а'.repeat(30)]);
+  });
+
+  it('должен возвращать сообщения как есть, если они помещаются в бюджет', async () => {
+    const result = await SummarizationService.condense(['привет', 'как дела?'], options(100));
+
+    expect(result).toEqual({ text: 'привет\nкак дела?', condensed: false, chunks: 1 });
+    expect(LLMService.generate).not.toHaveBeenCalled();
+  });
+
+  it('должен суммировать каждую часть и покрывать все сообщения', async () => {
+    vi.mocked(LLMService.generate).mockImplementation(async (request) => ({
+      text: `итог ${request.prompt.split('\n')[0]}`,
+      provider: 'qwen',
+      model: 'qwen-plus',
+    }));
+    const lines = Array.from({ length: 2000 }, (_, i) => `сообщение номер ${i}`);
+
+    const result = await SummarizationService.condense(lines, options(2000));
+
+    const prompts = vi.mocked(LLMService.generate).mock.calls.map(([request]) => request.prompt);
+    expect(result.condensed).toBe(true);
+    expect(result.chunks).toBe(prompts.length);
+    expect(prompts[0]).toContain('сообщение номер 0\n');
+    expect(prompts[prompts.length - 1]).toContain('сообщение номер 1999');
+    expect(result.text).toContain(`Часть ${result.chunks}/${result.chunks}`);
+  });
+
+  it('должен дополнительно сжимать заметки, если они не помещаются в бюджет', async () => {
+    vi.mocked(LLMService.generate).mockImplementation(async (request) => ({
+      text: request.prompt.startsWith('merge') ? 'сводка' : 'заметка '.repeat(10),
+      provider: 'qwen',
+      model: 'qwen-plus',
+    }));
+    const lines = Array.from({ length: 20 }, (_, i) => `сообщение ${i}`.padEnd(29, '.'));
+
+    const result = await SummarizationService.condense(lines, options(40));
+
+    const prompts = vi.mocked(LLMService.generate).mock.calls.map(([request]) => request.prompt);
+    expect(prompts.some((prompt) => prompt.startsWith('merge'))).toBe(true);
+    expect(SummarizationService.estimateTokens(result.text)).toBeLessThanOrEqual(40);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { fromZonedTime, getZonedTime, startOfZonedDay, toZonedDateKey } from './timeZone';
+
+describe('timeZone', () => {
+  it('должен переводить момент в местное время пояса и обратно', () => {
+    const instant = new Date('2026-10-19T21:30:00Z');
+
+    expect(getZonedTime(instant, 'Europe/Moscow')).toMatchObject({ year: 2026, month: 10, day: 20, hour: 0, minute: 30 });
+    expect(toZonedDateKey(instant, 'Europe/Moscow')).toBe('2026-10-20');
+    expect(toZonedDateKey(instant, 'UTC')).toBe('2026-10-19');
+    expect(fromZonedTime({ year: 2026, month: 10, day: 20, hour: 0, minute: 30 }, 'Europe/Moscow')).toEqual(instant);
+    expect(startOfZonedDay(instant, 'Asia/Dushanbe')).toEqual(new Date('2026-10-19T19:00:00Z'));
+  });
+
+  it('должен сдвигать вперёд время, пропущенное при переводе часов', () => {
+    // Берлин, 29.03.2026: 02:00 CET -> 03:00 CEST, 02:30 не существует
+    expect(fromZonedTime({ year: 2026, month: 3, day: 29, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+      new Date('2026-03-29T01:30:00Z')
+    );
+    expect(fromZonedTime({ year: 2026, month: 3, day: 29, hour: 3 }, 'Europe/Berlin')).toEqual(new Date('2026-03-29T01:00:00Z'));
+  });
+
+  it('должен брать первое из повторяющегося при переводе часов назад времени', () => {
+    // Берлин, 25.10.2026: 03:00 CEST -> 02:00 CET, 02:30 бывает дважды: в 00:30 и 01:30 UTC
+    expect(fromZonedTime({ year: 2026, month: 10, day: 25, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+      new Date('2026-10-25T00:30:00Z')
+    );
+    expect(getZonedTime(new Date('2026-10-25T01:30:00Z'), 'Europe/Berlin')).toMatchObject({ day: 25, hour: 2, minute: 30 });
+  });
+
+  it('должен начинать день с первого существующего времени, если полночь пропущена', () => {
+    // Сантьяго, 06.09.2026: часы переводятся с 00:00 на 01:00
+    const start = startOfZonedDay(new Date('2026-09-06T12:00:00Z'), 'America/Santiago');
+
+    expect(start).toEqual(new Date('2026-09-06T04:00:00Z'));
+    expect(getZonedTime(start, 'America/Santiago')).toMatchObject({ day: 6, hour: 1, minute: 0 });
+  });
+
+  it('должен переносить поля за пределами диапазона, как Date.UTC', () => {
+    expect(fromZonedTime({ year: 2026, month: 1, day: 0 }, 'UTC')).toEqual(new Date('2025-12-31T00:00:00Z'));
+    expect(fromZonedTime({ year: 2026, month: 13, day: 1 }, 'Europe/Moscow')).toEqual(new Date('2026-12-31T21:00:00Z'));
+  });
+});
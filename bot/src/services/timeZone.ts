@@ -0,0 +1,105 @@
+/**
+ * Даты в часовом поясе чата
+ * Date - момент времени, а "сегодня", полночь и часы считаются по местному времени пояса через Intl.
+ * Используется в разборе периодов, планировщике дайджестов и графиках
+ */
+import { getDefaultTimeZone } from '../config/timeZone';
+
+// Местное время: month - 1..12; поля вне диапазона переносятся, как в Date.UTC (day: 0 - последний день прошлого месяца)
+export interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Форматтеры дорогие в создании - по одному на пояс
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Местные дата и время момента date в поясе timeZone
+ */
+export function getZonedTime(date: Date, timeZone: string = getDefaultTimeZone()): Required<ZonedTime> {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find((part) => part.type === type)!.value, 10);
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Смещение пояса от UTC в момент date, мс (Москва: +3 часа)
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const local = getZonedTime(date, timeZone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second, local.millisecond);
+  return wall - date.getTime();
+}
+
+/**
+ * Момент, когда в поясе timeZone наступает местное время time
+ * На переходах на летнее время как у Date: несуществующее время (02:30 при переводе с 02:00 на 03:00)
+ * сдвигается вперёд на длину перехода, а дважды повторяющееся - берётся первое
+ */
+export function fromZonedTime(time: ZonedTime, timeZone: string = getDefaultTimeZone()): Date {
+  const wall = Date.UTC(
+    time.year,
+    time.month - 1,
+    time.day,
+    time.hour ?? 0,
+    time.minute ?? 0,
+    time.second ?? 0,
+    time.millisecond ?? 0
+  );
+  // Смещения за сутки до и после: если они разные, рядом переход
+  const before = wall - getOffset(new Date(wall - DAY_MS), timeZone);
+  const after = wall - getOffset(new Date(wall + DAY_MS), timeZone);
+  const valid = [before, after].filter((instant) => instant + getOffset(new Date(instant), timeZone) === wall);
+  // Ни одно смещение не подходит - время попало в "дыру" перехода
+  return new Date(valid.length ? Math.min(...valid) : before);
+}
+
+/**
+ * Местная полночь дня, в который попадает date
+ */
+export function startOfZonedDay(date: Date, timeZone: string = getDefaultTimeZone()): Date {
+  const { year, month, day } = getZonedTime(date, timeZone);
+  return fromZonedTime({ year, month, day }, timeZone);
+}
+
+/**
+ * Местный день date как YYYY-MM-DD
+ */
+export function toZonedDateKey(date: Date, timeZone: string = getDefaultTimeZone()): string {
+  const { year, month, day } = getZonedTime(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Веб собирается отдельно от бота и не импортирует его код, поэтому общие модули лежат копиями в web/lib.
+ * Тест не даёт копиям разойтись: правка только одной из копий его роняет
+ */
+
+const BOT_SRC = path.resolve(__dirname, '..');
+const WEB_LIB = path.resolve(__dirname, '../../../web/lib');
+
+// Каталоги копируются целиком, остальные модули - поштучно (пути от bot/src и web/lib)
+const SHARED_DIRS = ['services/llm'];
+const SHARED_FILES = [
+  'config/llm.ts',
+  'config/timeZone.ts',
+  'services/timeZone.ts',
+  'services/periodParser.ts',
+  'services/activityHeatmap.ts',
+  'services/llmService.ts',
+  'services/summarizationService.ts',
+];
+
+function listFiles(root: string, dir: string): string[] {
+  return fs
+    .readdirSync(path.join(root, dir))
+    .filter((name) => !name.endsWith('.test.ts'))
+    .map((name) => `${dir}/${name}`)
+    .sort();
+}
+
+// В Docker-образе бота веба рядом нет - сверять не с чем
+describe.skipIf(!fs.existsSync(WEB_LIB))('Копии общих модулей в web/lib', () => {
+  it.each(SHARED_DIRS)('в %s те же файлы', (dir) => {
+    expect(listFiles(WEB_LIB, dir)).toEqual(listFiles(BOT_SRC, dir));
+  });
+
+  it.each([...SHARED_DIRS.flatMap((dir) => listFiles(BOT_SRC, dir)), ...SHARED_FILES])('%s совпадает с копией', (file) => {
+    const bot = fs.readFileSync(path.join(BOT_SRC, file), 'utf8');
+    const web = fs.readFileSync(path.join(WEB_LIB, file), 'utf8');
+
+    expect(web, `web/lib/${file} отличается от bot/src/${file}`).toBe(bot);
+  });
+});
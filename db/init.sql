@@ -10,24 +10,214 @@ CREATE TABLE IF NOT EXISTS users (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Создание таблицы чатов
+-- Группы, в которых состоит бот: название, тип, статус бота и настройки (обновляются из my_chat_member и смены названия)
+CREATE TABLE IF NOT EXISTS chats (
+    chat_id BIGINT PRIMARY KEY, -- ID чата в Telegram
+    title VARCHAR(255), -- Название группы
+    type VARCHAR(16) NOT NULL, -- group / supergroup / channel / private
+    username VARCHAR(255), -- Публичный @username чата, если есть
+    bot_status VARCHAR(16) NOT NULL DEFAULT 'member', -- Статус бота: creator / administrator / member / restricted / left / kicked
+    is_bot_admin BOOLEAN NOT NULL DEFAULT FALSE, -- Бот - администратор (нужно для реакций и участников)
+    settings JSONB NOT NULL DEFAULT '{}', -- Настройки чата
+    first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Когда бот впервые увидел чат
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Создание таблицы участников чатов
+-- Текущее членство пользователя в чате (users общая для всех чатов)
+CREATE TABLE IF NOT EXISTS chat_members (
+    chat_id BIGINT NOT NULL, -- ID чата
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(16) NOT NULL, -- creator / administrator / member / restricted / left / kicked
+    joined_at TIMESTAMP, -- Последнее вступление (NULL - вступление бот не видел)
+    left_at TIMESTAMP, -- Последний выход, NULL пока участник в чате
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (chat_id, user_id)
+);
+
+-- Создание таблицы событий участников
+-- История вступлений и выходов: для графиков роста и оттока
+CREATE TABLE IF NOT EXISTS chat_member_events (
+    id SERIAL PRIMARY KEY,
+    chat_id BIGINT NOT NULL, -- ID чата
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    event VARCHAR(8) NOT NULL CHECK (event IN ('join', 'leave')),
+    created_at TIMESTAMP NOT NULL -- Время события (date из Telegram)
+);
+
 -- Создание таблицы сообщений
--- Храним все текстовые сообщения из группового чата
+-- Храним все сообщения из группового чата: текст и вложения (фото, документы, голосовые, стикеры, опросы)
 CREATE TABLE IF NOT EXISTS messages (
     id SERIAL PRIMARY KEY,
     user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     telegram_message_id BIGINT NOT NULL, -- ID сообщения в Telegram
     chat_id BIGINT NOT NULL, -- ID чата
-    text TEXT NOT NULL, -- Текст сообщения
+    text TEXT NOT NULL, -- Текст сообщения, подпись к вложению или вопрос опроса ('' - вложение без подписи)
+    message_type VARCHAR(16) NOT NULL DEFAULT 'text', -- text / photo / video / animation / document / audio / voice / video_note / sticker / poll
+    media JSONB, -- Метаданные вложения: file_id, размер, длительность, эмодзи стикера, варианты опроса
+    is_edited BOOLEAN NOT NULL DEFAULT FALSE, -- Сообщение редактировалось (text - последняя версия)
+    edit_count INTEGER NOT NULL DEFAULT 0, -- Сколько раз редактировалось
+    edited_at TIMESTAMP, -- Время последнего редактирования
+    reply_to_message_id BIGINT, -- telegram_message_id сообщения, на которое это ответ (в том же чате)
+    topic_id BIGINT, -- Тема форума (message_thread_id), NULL вне тем
+    forward_origin JSONB, -- Откуда переслано: тип источника, автор или чат, дата оригинала
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     -- Уникальность: одно сообщение в одном чате
     UNIQUE(telegram_message_id, chat_id)
 );
 
+-- Создание таблицы правок сообщений
+-- Предыдущие версии отредактированных сообщений (в messages всегда последняя версия)
+CREATE TABLE IF NOT EXISTS message_revisions (
+    id SERIAL PRIMARY KEY,
+    message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    text TEXT NOT NULL, -- Текст до правки
+    media JSONB, -- Метаданные вложения до правки
+    replaced_at TIMESTAMP NOT NULL, -- Когда эту версию заменила правка (edit_date из Telegram)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Создание таблицы дневных агрегатов сообщений
+-- Сообщения по чату, пользователю, дню и типу: статистика считается по ней, а не по всей messages.
+-- Обновляется вместе с сохранением и правкой сообщения, историю заполняет DailyStats.backfill
+CREATE TABLE IF NOT EXISTS message_daily_stats (
+    chat_id BIGINT NOT NULL, -- ID чата
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    day DATE NOT NULL, -- День отправки (DATE(created_at))
+    message_type VARCHAR(16) NOT NULL, -- Тип сообщения, как в messages
+    message_count INTEGER NOT NULL DEFAULT 0, -- Сколько сообщений
+    text_count INTEGER NOT NULL DEFAULT 0, -- Сколько из них с текстом или подписью
+    text_length BIGINT NOT NULL DEFAULT 0, -- Суммарная длина текста (последних версий)
+    edited_messages INTEGER NOT NULL DEFAULT 0, -- Сколько сообщений редактировалось
+    edit_count INTEGER NOT NULL DEFAULT 0, -- Сколько всего правок
+    first_message_at TIMESTAMP NOT NULL, -- Первое сообщение за день
+    last_message_at TIMESTAMP NOT NULL, -- Последнее сообщение за день
+    PRIMARY KEY (chat_id, user_id, day, message_type)
+);
+
+-- Создание таблицы почасовых агрегатов сообщений
+-- Сообщения по чату, пользователю, дню и часу: из неё строится тепловая карта "день недели × час"
+CREATE TABLE IF NOT EXISTS message_hourly_stats (
+    chat_id BIGINT NOT NULL, -- ID чата
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    day DATE NOT NULL, -- День отправки (DATE(created_at))
+    hour SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23), -- Час отправки
+    message_count INTEGER NOT NULL DEFAULT 0, -- Сколько сообщений
+    PRIMARY KEY (chat_id, user_id, day, hour)
+);
+
+-- Создание таблицы реакций
+-- Реакции участников на сообщения (обновления message_reaction): одна строка на сообщение, пользователя и эмодзи
+CREATE TABLE IF NOT EXISTS message_reactions (
+    id SERIAL PRIMARY KEY,
+    chat_id BIGINT NOT NULL, -- ID чата
+    telegram_message_id BIGINT NOT NULL, -- Сообщение, на которое поставили реакцию (его может не быть в messages)
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Кто поставил
+    emoji VARCHAR(64) NOT NULL, -- Эмодзи или custom:<custom_emoji_id> для кастомных
+    created_at TIMESTAMP NOT NULL, -- Когда поставлена (date из Telegram)
+    UNIQUE(chat_id, telegram_message_id, user_id, emoji)
+);
+
+-- Создание таблицы анонимных реакций
+-- Текущие счётчики реакций на сообщения, где реакции анонимны (обновления message_reaction_count)
+CREATE TABLE IF NOT EXISTS message_reaction_counts (
+    chat_id BIGINT NOT NULL, -- ID чата
+    telegram_message_id BIGINT NOT NULL, -- Сообщение с реакциями
+    emoji VARCHAR(64) NOT NULL, -- Эмодзи или custom:<custom_emoji_id>
+    total_count INTEGER NOT NULL, -- Сколько раз поставлена
+    updated_at TIMESTAMP NOT NULL, -- Последнее изменение счётчика (date из Telegram)
+    PRIMARY KEY (chat_id, telegram_message_id, emoji)
+);
+
+-- Создание таблицы анализов
+-- Храним каждый результат /analyze (бот и веб), чтобы была история и общий список "недавних анализов"
+CREATE TABLE IF NOT EXISTS analyses (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE, -- Кого анализировали
+    chat_id BIGINT, -- Чат, по сообщениям которого строился анализ (NULL - все чаты)
+    provider VARCHAR(32), -- LLM-провайдер (deepseek / qwen / gemini)
+    model VARCHAR(128), -- Модель провайдера
+    message_count INTEGER NOT NULL, -- Сколько сообщений проанализировано
+    window_start TIMESTAMP, -- Дата самого старого проанализированного сообщения
+    window_end TIMESTAMP, -- Дата самого нового проанализированного сообщения
+    result JSONB NOT NULL, -- UserAnalysis целиком
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Создание таблицы дайджестов
+-- Архив всех сформированных дайджестов (/digest, расписание): для /digest_history и веб-страницы
+CREATE TABLE IF NOT EXISTS digests (
+    id SERIAL PRIMARY KEY,
+    chat_id BIGINT NOT NULL, -- ID чата
+    period_key VARCHAR(32) NOT NULL, -- today / yesterday / week / month / 2026-10-01..2026-10-07
+    period_label VARCHAR(64) NOT NULL, -- Человекочитаемый период ("вчера", "01.10.2026 — 07.10.2026")
+    period_start TIMESTAMP NOT NULL, -- Начало периода
+    period_end TIMESTAMP NOT NULL, -- Конец периода (включительно)
+    provider VARCHAR(32), -- LLM-провайдер (deepseek / qwen / gemini)
+    model VARCHAR(128), -- Модель провайдера
+    message_count INTEGER NOT NULL, -- Сколько сообщений вошло в дайджест
+    first_message_id BIGINT, -- telegram_message_id первого сообщения выборки
+    last_message_id BIGINT, -- telegram_message_id последнего сообщения выборки
+    first_message_at TIMESTAMP, -- Дата первого сообщения выборки
+    last_message_at TIMESTAMP, -- Дата последнего сообщения выборки
+    result JSONB NOT NULL, -- ChatDigestResult целиком
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Создание таблицы расписаний дайджестов
+-- Настройки автоматического ежедневного дайджеста для каждого чата (/digest_schedule)
+CREATE TABLE IF NOT EXISTS digest_schedules (
+    chat_id BIGINT PRIMARY KEY, -- ID чата
+    send_time TIME NOT NULL, -- Время отправки (в часовом поясе чата из chats.settings->>'timezone', по умолчанию DEFAULT_TIMEZONE), например 21:00
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    last_sent_date DATE, -- День, за который уже отправлен дайджест (защита от дублей и догоняние пропусков)
+    created_by BIGINT, -- Telegram ID того, кто настроил расписание
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Создание таблицы задач
+-- Action items из дайджестов: отслеживаются через /tasks, открытые попадают в следующий дайджест
+CREATE TABLE IF NOT EXISTS tasks (
+    id SERIAL PRIMARY KEY,
+    chat_id BIGINT NOT NULL, -- ID чата
+    text TEXT NOT NULL, -- Формулировка задачи
+    assignee_telegram_id BIGINT, -- Telegram ID ответственного (NULL - не назначен или не найден среди участников)
+    assignee_name VARCHAR(255), -- Как показывать ответственного (@username или имя)
+    digest_id INTEGER REFERENCES digests(id) ON DELETE SET NULL, -- Дайджест, из которого взята задача
+    source_message_id BIGINT, -- telegram_message_id сообщения, где появилась задача
+    status VARCHAR(16) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+    due_date DATE, -- Срок, если он прозвучал в переписке
+    completed_at TIMESTAMP,
+    completed_by BIGINT, -- Telegram ID того, кто отметил выполнение
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Индексы для быстрого поиска
 CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_chat_type ON messages(chat_id, message_type);
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to ON messages(chat_id, reply_to_message_id);
+CREATE INDEX IF NOT EXISTS idx_messages_chat_created_at ON messages(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_message_daily_stats_chat_day ON message_daily_stats(chat_id, day);
+CREATE INDEX IF NOT EXISTS idx_message_daily_stats_user ON message_daily_stats(user_id, chat_id);
+CREATE INDEX IF NOT EXISTS idx_message_hourly_stats_chat_day ON message_hourly_stats(chat_id, day);
+CREATE INDEX IF NOT EXISTS idx_message_hourly_stats_user ON message_hourly_stats(user_id, chat_id);
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON message_revisions(message_id, replaced_at);
+CREATE INDEX IF NOT EXISTS idx_message_reactions_chat ON message_reactions(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message ON message_reactions(chat_id, telegram_message_id);
+CREATE INDEX IF NOT EXISTS idx_message_reaction_counts_chat ON message_reaction_counts(chat_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_chat_members_status ON chat_members(chat_id, status);
+CREATE INDEX IF NOT EXISTS idx_chat_member_events_chat ON chat_member_events(chat_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_users_telegram_id ON users(telegram_id);
+CREATE INDEX IF NOT EXISTS idx_analyses_user_id ON analyses(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analyses_created_at ON analyses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_digests_chat_id ON digests(chat_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_digests_period ON digests(chat_id, period_start, period_end);
+CREATE INDEX IF NOT EXISTS idx_tasks_chat_status ON tasks(chat_id, status, created_at DESC);
 
 -- Функция для автоматического обновления updated_at
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -41,3 +231,19 @@ $$ language 'plpgsql';
 -- Триггер для автоматического обновления updated_at в таблице users
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Триггер для автоматического обновления updated_at в таблице chats
+CREATE TRIGGER update_chats_updated_at BEFORE UPDATE ON chats
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Триггер для автоматического обновления updated_at в таблице chat_members
+CREATE TRIGGER update_chat_members_updated_at BEFORE UPDATE ON chat_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Триггер для автоматического обновления updated_at в таблице digest_schedules
+CREATE TRIGGER update_digest_schedules_updated_at BEFORE UPDATE ON digest_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Триггер для автоматического обновления updated_at в таблице tasks
+CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { Chat } from '@/lib/models/Chat';
+
+/**
+ * GET /api/chats - чаты для переключателя на дашборде
+ */
+export async function GET() {
+  try {
+    const chats = await Chat.findAll();
+
+    return NextResponse.json({
+      chats: chats.map((row) => ({
+        chatId: row.chat_id,
+        title: row.title || `Чат ${row.chat_id}`,
+        type: row.type,
+        username: row.username,
+        botStatus: row.bot_status,
+        isBotAdmin: row.is_bot_admin,
+        firstSeenAt: row.first_seen_at ? new Date(row.first_seen_at).toISOString() : null,
+        messageCount: row.message_count,
+        lastMessageAt: row.last_message_at ? new Date(row.last_message_at).toISOString() : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении списка чатов:', error);
+    return NextResponse.json({ error: 'Не удалось получить список чатов' }, { status: 500 });
+  }
+}
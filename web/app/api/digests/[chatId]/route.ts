@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Digest } from '@/lib/models/Digest';
+
+/**
+ * GET /api/digests/:chatId - архив дайджестов чата (новые сначала)
+ * Query: ?limit=10 (максимум 50), ?offset=0
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { chatId: chatIdParam } = await params;
+    const chatId = parseInt(chatIdParam, 10);
+    if (Number.isNaN(chatId)) {
+      return NextResponse.json(
+        { error: 'chatId должен быть целым числом' },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '10', 10);
+    const limit = Number.isNaN(limitParam) ? 10 : Math.min(Math.max(limitParam, 1), 50);
+    const offsetParam = parseInt(request.nextUrl.searchParams.get('offset') || '0', 10);
+    const offset = Number.isNaN(offsetParam) ? 0 : Math.max(offsetParam, 0);
+
+    const [digests, total] = await Promise.all([
+      Digest.findByChatId(chatId, { limit, offset }),
+      Digest.countByChatId(chatId),
+    ]);
+
+    return NextResponse.json({
+      chatId,
+      total,
+      limit,
+      offset,
+      digests: digests.map((item) => ({
+        id: item.id,
+        period: item.period_key,
+        periodLabel: item.period_label,
+        periodStart: new Date(item.period_start).toISOString(),
+        periodEnd: new Date(item.period_end).toISOString(),
+        provider: item.provider,
+        model: item.model,
+        messageCount: item.message_count,
+        firstMessageId: item.first_message_id !== null ? Number(item.first_message_id) : null,
+        lastMessageId: item.last_message_id !== null ? Number(item.last_message_id) : null,
+        firstMessageAt: item.first_message_at ? new Date(item.first_message_at).toISOString() : null,
+        lastMessageAt: item.last_message_at ? new Date(item.last_message_at).toISOString() : null,
+        digest: item.result,
+        createdAt: new Date(item.created_at).toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении архива дайджестов:', error);
+    return NextResponse.json(
+      { error: 'Не удалось получить архив дайджестов' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { Digest } from '@/lib/models/Digest';
+
+/**
+ * GET /api/digests - чаты, для которых есть сохранённые дайджесты
+ */
+export async function GET() {
+  try {
+    const chats = await Digest.findChats();
+
+    return NextResponse.json({
+      chats: chats.map((row) => ({
+        chatId: Number(row.chat_id),
+        digestCount: row.digest_count,
+        lastDigestAt: new Date(row.last_digest_at).toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении списка чатов с дайджестами:', error);
+    return NextResponse.json(
+      { error: 'Не удалось получить архив дайджестов' },
+      { status: 500 }
+    );
+  }
+}
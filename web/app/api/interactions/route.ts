@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pgPool } from '@/lib/config/database';
+import { Chat } from '@/lib/models/Chat';
+import { parsePeriod } from '@/lib/services/periodParser';
+
+interface EdgeRow {
+  from_user_id: number;
+  to_user_id: number;
+  replies: string;
+  mentions: string;
+  weight: string;
+}
+
+interface NodeRow {
+  id: number;
+  username: string | null;
+  first_name: string | null;
+  message_count: string;
+}
+
+/**
+ * GET /api/interactions - граф "кто кому отвечает и кого упоминает"
+ * Query: ?chatId=-100... (по умолчанию все чаты), ?period=week | month | 2026-09-01..2026-09-15 (по умолчанию всё время),
+ * ?limit=30 (максимум 100 рёбер, самые сильные связи)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const chatIdParam = searchParams.get('chatId');
+    const chatId = chatIdParam !== null ? parseInt(chatIdParam, 10) : null;
+    if (chatIdParam !== null && Number.isNaN(chatId)) {
+      return NextResponse.json({ error: 'chatId должен быть целым числом' }, { status: 400 });
+    }
+
+    const periodParam = searchParams.get('period');
+    let period = null;
+    if (periodParam && periodParam !== 'all') {
+      try {
+        // Период - в поясе чата, как /stats в боте
+        period = parsePeriod(periodParam, new Date(), await Chat.getTimeZone(chatId));
+      } catch (err: any) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      if (!period) {
+        return NextResponse.json(
+          { error: 'period: today, yesterday, week, month, all или YYYY-MM-DD..YYYY-MM-DD' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') || '30', 10);
+    const limit = Number.isNaN(limitParam) ? 30 : Math.min(Math.max(limitParam, 1), 100);
+
+    const params: any[] = [];
+    const conditions: string[] = [];
+    if (chatId !== null) {
+      params.push(chatId);
+      conditions.push(`m.chat_id = $${params.length}`);
+    }
+    if (period) {
+      params.push(period.startDate, period.endDate);
+      conditions.push(`m.created_at >= $${params.length - 1}`, `m.created_at <= $${params.length}`);
+    }
+    const filter = conditions.length ? `AND ${conditions.join(' AND ')}` : '';
+
+    // Ответы и @упоминания (как Message.getInteractions в боте)
+    const edgesQuery = `
+      WITH edges AS (
+        SELECT m.user_id as from_user_id, p.user_id as to_user_id, 1 as replies, 0 as mentions
+        FROM messages m
+        JOIN messages p ON p.chat_id = m.chat_id AND p.telegram_message_id = m.reply_to_message_id
+        WHERE m.user_id <> p.user_id ${filter}
+        UNION ALL
+        SELECT m.user_id, u.id, 0, 1
+        FROM messages m
+        CROSS JOIN LATERAL (
+          SELECT DISTINCT lower(mention[1]) as username
+          FROM regexp_matches(m.text, '@([A-Za-z0-9_]{5,32})', 'g') as mention
+        ) mentioned
+        JOIN users u ON lower(u.username) = mentioned.username
+        WHERE u.id <> m.user_id ${filter}
+          AND EXISTS (SELECT 1 FROM messages um WHERE um.user_id = u.id AND um.chat_id = m.chat_id)
+      )
+      SELECT
+        from_user_id,
+        to_user_id,
+        SUM(replies) as replies,
+        SUM(mentions) as mentions,
+        SUM(replies + mentions) as weight
+      FROM edges
+      GROUP BY from_user_id, to_user_id
+      ORDER BY weight DESC, replies DESC
+      LIMIT $${params.length + 1}
+    `;
+    const edgesResult = await pgPool.query<EdgeRow>(edgesQuery, [...params, limit]);
+
+    const userIds = [
+      ...new Set(edgesResult.rows.flatMap((row) => [row.from_user_id, row.to_user_id])),
+    ];
+
+    // Узлы - участники связей, с числом их сообщений за тот же период
+    let nodes: NodeRow[] = [];
+    if (userIds.length > 0) {
+      const nodesQuery = `
+        SELECT u.id, u.username, u.first_name, COUNT(m.id) as message_count
+        FROM users u
+        LEFT JOIN messages m ON m.user_id = u.id ${filter}
+        WHERE u.id = ANY($${params.length + 1})
+        GROUP BY u.id, u.username, u.first_name
+        ORDER BY message_count DESC
+      `;
+      const nodesResult = await pgPool.query<NodeRow>(nodesQuery, [...params, userIds]);
+      nodes = nodesResult.rows;
+    }
+
+    return NextResponse.json({
+      chatId,
+      period: period ? period.key : 'all',
+      nodes: nodes.map((row) => ({
+        id: row.id,
+        name: row.username ? `@${row.username}` : row.first_name || 'Неизвестный',
+        messageCount: parseInt(row.message_count, 10),
+      })),
+      edges: edgesResult.rows.map((row) => ({
+        source: row.from_user_id,
+        target: row.to_user_id,
+        replies: parseInt(row.replies, 10),
+        mentions: parseInt(row.mentions, 10),
+        weight: parseInt(row.weight, 10),
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении графа взаимодействий:', error);
+    return NextResponse.json(
+      { error: 'Не удалось получить граф взаимодействий' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pgPool } from '@/lib/config/database';
+import { Chat } from '@/lib/models/Chat';
+import { toZonedDateKey } from '@/lib/services/timeZone';
+
+interface DayRow {
+  date: string;
+  joined: string;
+  left: string;
+}
+
+interface SilentRow {
+  user_id: number;
+  username: string | null;
+  first_name: string | null;
+  joined_at: Date | null;
+}
+
+/**
+ * GET /api/members - вступления и выходы по дням и участники, которые ничего не написали
+ * Query: ?chatId=-100... (по умолчанию все чаты), ?days=30 (максимум 365)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const chatIdParam = searchParams.get('chatId');
+    const chatId = chatIdParam !== null ? parseInt(chatIdParam, 10) : null;
+    if (chatIdParam !== null && Number.isNaN(chatId)) {
+      return NextResponse.json({ error: 'chatId должен быть целым числом' }, { status: 400 });
+    }
+
+    const daysParam = parseInt(searchParams.get('days') || '30', 10);
+    const days = Number.isNaN(daysParam) ? 30 : Math.min(Math.max(daysParam, 1), 365);
+
+    const params: any[] = chatId !== null ? [chatId] : [];
+    const chatCondition = (column: string) => (chatId !== null ? `${column} = $1` : 'TRUE');
+
+    // Дни - в поясе чата: и "сегодня", и день события (created_at хранится во времени сервера БД)
+    const timeZone = await Chat.getTimeZone(chatId);
+    const zone = `$${params.length + 2}`;
+    const timelineParams = [...params, toZonedDateKey(new Date(), timeZone), timeZone];
+
+    // Каждый день периода, даже без событий - чтобы на графике не было пропусков
+    const timelineQuery = `
+      SELECT
+        to_char(d.day, 'YYYY-MM-DD') as date,
+        COUNT(e.id) FILTER (WHERE e.event = 'join') as joined,
+        COUNT(e.id) FILTER (WHERE e.event = 'leave') as left
+      FROM generate_series($${params.length + 1}::date - ${days - 1}, $${params.length + 1}::date, INTERVAL '1 day') as d(day)
+      LEFT JOIN chat_member_events e
+        ON DATE(e.created_at::timestamptz AT TIME ZONE ${zone}) = d.day::date AND ${chatCondition('e.chat_id')}
+      GROUP BY d.day
+      ORDER BY d.day ASC
+    `;
+
+    const totalsQuery = `
+      SELECT COUNT(*) as members
+      FROM chat_members
+      WHERE status NOT IN ('left', 'kicked') AND ${chatCondition('chat_id')}
+    `;
+
+    // Вступили и ничего не написали после вступления (как ChatMember.findSilent в боте)
+    const silentQuery = `
+      SELECT cm.user_id, u.username, u.first_name, cm.joined_at
+      FROM chat_members cm
+      JOIN users u ON u.id = cm.user_id
+      WHERE cm.status NOT IN ('left', 'kicked') AND ${chatCondition('cm.chat_id')}
+        AND NOT EXISTS (
+          SELECT 1 FROM message_daily_stats s
+          WHERE s.chat_id = cm.chat_id AND s.user_id = cm.user_id
+            AND s.last_message_at >= COALESCE(cm.joined_at, '-infinity'::timestamp)
+        )
+      ORDER BY cm.joined_at ASC NULLS FIRST
+      LIMIT 50
+    `;
+
+    const [timelineResult, totalsResult, silentResult] = await Promise.all([
+      pgPool.query<DayRow>(timelineQuery, timelineParams),
+      pgPool.query<{ members: string }>(totalsQuery, params),
+      pgPool.query<SilentRow>(silentQuery, params),
+    ]);
+
+    const timeline = timelineResult.rows.map((row) => ({
+      date: row.date,
+      joined: parseInt(row.joined, 10),
+      left: parseInt(row.left, 10),
+    }));
+
+    return NextResponse.json({
+      chatId,
+      days,
+      members: parseInt(totalsResult.rows[0]?.members || '0', 10),
+      joined: timeline.reduce((sum, day) => sum + day.joined, 0),
+      left: timeline.reduce((sum, day) => sum + day.left, 0),
+      timeline,
+      silent: silentResult.rows.map((row) => ({
+        userId: row.user_id,
+        name: row.username ? `@${row.username}` : row.first_name || 'Неизвестный',
+        joinedAt: row.joined_at ? new Date(row.joined_at).toISOString() : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении статистики участников:', error);
+    return NextResponse.json(
+      { error: 'Не удалось получить статистику участников' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,8 @@
-import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
-
-const pgPool = new Pool({
-  host: process.env.POSTGRES_HOST || 'localhost',
-  port: parseInt(process.env.POSTGRES_PORT || '5433'),
-  user: process.env.POSTGRES_USER || 'postgres',
-  password: process.env.POSTGRES_PASSWORD || 'postgres',
-  database: process.env.POSTGRES_DB || 'telegram_bot',
-  max: 20,
-  connectionTimeoutMillis: 5000,
-});
+import { NextRequest, NextResponse } from 'next/server';
+import { pgPool } from '@/lib/config/database';
+import { Analysis } from '@/lib/models/Analysis';
+import { Chat } from '@/lib/models/Chat';
+import { getZonedTime } from '@/lib/services/timeZone';
 
 interface TopUserRow {
   username: string | null;
@@ -17,34 +10,50 @@ interface TopUserRow {
   message_count: string;
 }
 
-const recentAnalyses: { username: string; analyzedAt: string }[] = [];
-
-export async function GET() {
+/**
+ * GET /api/overview - сводка для дашборда
+ * Query: ?chatId=-100... - только этот чат (по умолчанию все чаты вместе)
+ */
+export async function GET(request: NextRequest) {
   try {
+    const chatIdParam = request.nextUrl.searchParams.get('chatId');
+    const chatId = chatIdParam ? parseInt(chatIdParam, 10) : null;
+    if (chatIdParam && Number.isNaN(chatId)) {
+      return NextResponse.json({ error: 'chatId должен быть целым числом' }, { status: 400 });
+    }
+
+    // Все запросы используют один параметр $1 - ID чата
+    const params = chatId !== null ? [chatId] : [];
+    const chatCondition = (column: string) => (chatId !== null ? `${column} = $1` : 'TRUE');
+
+    // Сообщения считаются по дневным агрегатам message_daily_stats (их ведёт бот), а не по всей messages
     const statsQuery = `
-      SELECT 
-        COUNT(DISTINCT m.id) as total_messages,
-        COUNT(DISTINCT m.user_id) as total_users
-      FROM messages m
+      SELECT
+        COALESCE(SUM(s.message_count), 0) as total_messages,
+        COUNT(DISTINCT s.user_id) as total_users
+      FROM message_daily_stats s
+      WHERE ${chatCondition('s.chat_id')}
     `;
     const statsResult = await pgPool.query<{ total_messages: string; total_users: string }>(
       statsQuery,
+      params,
     );
 
     const topUsersQuery = `
       SELECT 
         u.username,
         u.first_name,
-        COUNT(m.id) as message_count
-      FROM messages m
-      JOIN users u ON m.user_id = u.id
+        SUM(s.message_count) as message_count
+      FROM message_daily_stats s
+      JOIN users u ON s.user_id = u.id
+      WHERE ${chatCondition('s.chat_id')}
       GROUP BY u.username, u.first_name
       ORDER BY message_count DESC
       LIMIT 8
     `;
-    const topUsersResult = await pgPool.query<TopUserRow>(topUsersQuery);
+    const topUsersResult = await pgPool.query<TopUserRow>(topUsersQuery, params);
 
-    // Получаем данные для таблицы всех пользователей
+    // Получаем данные для таблицы всех пользователей (для чата - только тех, кто в нём писал)
     const allUsersQuery = `
       SELECT 
         u.id,
@@ -52,12 +61,13 @@ export async function GET() {
         u.username,
         u.first_name,
         u.last_name,
-        COUNT(m.id) as message_count,
-        MIN(m.created_at) as first_message,
-        MAX(m.created_at) as last_message
+        COALESCE(SUM(s.message_count), 0) as message_count,
+        MIN(s.first_message_at) as first_message,
+        MAX(s.last_message_at) as last_message
       FROM users u
-      LEFT JOIN messages m ON u.id = m.user_id
+      LEFT JOIN message_daily_stats s ON u.id = s.user_id AND ${chatCondition('s.chat_id')}
       GROUP BY u.id, u.telegram_id, u.username, u.first_name, u.last_name
+      ${chatId !== null ? 'HAVING COUNT(s.user_id) > 0' : ''}
       ORDER BY message_count DESC
     `;
     const allUsersResult = await pgPool.query<{
@@ -69,22 +79,119 @@ export async function GET() {
       message_count: string;
       first_message: Date | null;
       last_message: Date | null;
-    }>(allUsersQuery);
+    }>(allUsersQuery, params);
+
+    // Агрегаты разложены по дням в поясе чата - и последние 30 дней отсчитываются от его "сегодня"
+    const timeZone = await Chat.getTimeZone(chatId);
+    const today = getZonedTime(new Date(), timeZone);
+    const since = new Date(Date.UTC(today.year, today.month - 1, today.day - 30)).toISOString().slice(0, 10);
+    const sinceParam = `$${params.length + 1}::date`;
+    const windowParams = [...params, since];
 
     // Получаем данные для графика (сообщения по дням за последние 30 дней)
     const messagesByDayQuery = `
-      SELECT 
-        DATE(created_at) as date,
-        COUNT(*) as message_count
-      FROM messages
-      WHERE created_at >= NOW() - INTERVAL '30 days'
-      GROUP BY DATE(created_at)
+      SELECT
+        to_char(day, 'YYYY-MM-DD') as date,
+        SUM(message_count) as message_count
+      FROM message_daily_stats
+      WHERE day >= ${sinceParam} AND ${chatCondition('chat_id')}
+      GROUP BY day
       ORDER BY date ASC
     `;
     const messagesByDayResult = await pgPool.query<{
-      date: Date;
+      date: string;
+      message_count: string;
+    }>(messagesByDayQuery, windowParams);
+
+    // Тепловая карта "день недели × час" за те же 30 дней (почасовые агрегаты message_hourly_stats)
+    const heatmapQuery = `
+      SELECT EXTRACT(ISODOW FROM day)::int as weekday, hour, SUM(message_count) as message_count
+      FROM message_hourly_stats
+      WHERE day >= ${sinceParam} AND ${chatCondition('chat_id')}
+      GROUP BY 1, 2
+    `;
+    const heatmapResult = await pgPool.query<{
+      weekday: number;
+      hour: number;
+      message_count: string;
+    }>(heatmapQuery, windowParams);
+
+    // Сообщения по типам: текст, фото, голосовые, стикеры...
+    const messagesByTypeQuery = `
+      SELECT message_type, SUM(message_count) as message_count
+      FROM message_daily_stats
+      WHERE ${chatCondition('chat_id')}
+      GROUP BY message_type
+      ORDER BY message_count DESC
+    `;
+    const messagesByTypeResult = await pgPool.query<{
+      message_type: string;
       message_count: string;
-    }>(messagesByDayQuery);
+    }>(messagesByTypeQuery, params);
+
+    // Реакции: построчные (count = 1) и счётчики анонимных реакций (как Reaction в боте)
+    const reactionsCte = `
+      WITH reactions AS (
+        SELECT * FROM (
+          SELECT chat_id, telegram_message_id, user_id, emoji, 1 as count
+          FROM message_reactions
+          UNION ALL
+          SELECT chat_id, telegram_message_id, NULL, emoji, total_count
+          FROM message_reaction_counts
+        ) r
+        WHERE ${chatCondition('chat_id')}
+      )
+    `;
+    const [topEmojiResult, topReactedResult, topGiversResult, topReceiversResult] = await Promise.all([
+      pgPool.query<{ emoji: string; count: string }>(`
+        ${reactionsCte}
+        SELECT emoji, SUM(count) as count
+        FROM reactions
+        GROUP BY emoji
+        ORDER BY count DESC
+        LIMIT 8
+      `, params),
+      pgPool.query<{
+        chat_id: string;
+        telegram_message_id: string;
+        text: string | null;
+        username: string | null;
+        first_name: string | null;
+        count: string;
+      }>(`
+        ${reactionsCte}
+        SELECT r.chat_id, r.telegram_message_id, m.text, u.username, u.first_name, SUM(r.count) as count
+        FROM reactions r
+        LEFT JOIN messages m ON m.chat_id = r.chat_id AND m.telegram_message_id = r.telegram_message_id
+        LEFT JOIN users u ON u.id = m.user_id
+        GROUP BY r.chat_id, r.telegram_message_id, m.text, u.username, u.first_name
+        ORDER BY count DESC
+        LIMIT 5
+      `, params),
+      pgPool.query<{ username: string | null; first_name: string | null; count: string }>(`
+        ${reactionsCte}
+        SELECT u.username, u.first_name, SUM(r.count) as count
+        FROM reactions r
+        JOIN users u ON u.id = r.user_id
+        GROUP BY u.id, u.username, u.first_name
+        ORDER BY count DESC
+        LIMIT 5
+      `, params),
+      pgPool.query<{ username: string | null; first_name: string | null; count: string }>(`
+        ${reactionsCte}
+        SELECT u.username, u.first_name, SUM(r.count) as count
+        FROM reactions r
+        JOIN messages m ON m.chat_id = r.chat_id AND m.telegram_message_id = r.telegram_message_id
+        JOIN users u ON u.id = m.user_id
+        WHERE r.user_id IS DISTINCT FROM m.user_id
+        GROUP BY u.id, u.username, u.first_name
+        ORDER BY count DESC
+        LIMIT 5
+      `, params),
+    ]);
+
+    // Последние анализы из таблицы analyses (общие для бота и веба)
+    const recentAnalysesRows = await Analysis.findRecent(10, chatId !== null ? { chatId } : undefined);
 
     const totalMessages = parseInt(statsResult.rows[0]?.total_messages || '0', 10);
     const totalUsers = parseInt(statsResult.rows[0]?.total_users || '0', 10);
@@ -107,16 +214,63 @@ export async function GET() {
     }));
 
     const messagesByDay = messagesByDayResult.rows.map((row) => ({
-      date: new Date(row.date).toISOString().split('T')[0],
+      date: row.date,
+      count: parseInt(row.message_count, 10),
+    }));
+
+    // 7 строк с понедельника по 24 часа
+    const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    for (const row of heatmapResult.rows) {
+      heatmap[row.weekday - 1][row.hour] = parseInt(row.message_count, 10);
+    }
+
+    const messagesByType = messagesByTypeResult.rows.map((row) => ({
+      type: row.message_type,
       count: parseInt(row.message_count, 10),
     }));
 
+    const displayName = (row: { username: string | null; first_name: string | null }) =>
+      row.username ? `@${row.username}` : row.first_name || 'Неизвестный';
+
+    const reactions = {
+      topEmoji: topEmojiResult.rows.map((row) => ({
+        emoji: row.emoji,
+        count: parseInt(row.count, 10),
+      })),
+      topMessages: topReactedResult.rows.map((row) => ({
+        chatId: Number(row.chat_id),
+        messageId: Number(row.telegram_message_id),
+        text: row.text,
+        author: row.text !== null ? displayName(row) : null,
+        count: parseInt(row.count, 10),
+      })),
+      topGivers: topGiversResult.rows.map((row) => ({
+        name: displayName(row),
+        count: parseInt(row.count, 10),
+      })),
+      topReceivers: topReceiversResult.rows.map((row) => ({
+        name: displayName(row),
+        count: parseInt(row.count, 10),
+      })),
+    };
+
+    const recentAnalyses = recentAnalysesRows.map((row) => ({
+      username: row.username || row.first_name || `id${row.user_id}`,
+      provider: row.provider,
+      messageCount: row.message_count,
+      analyzedAt: new Date(row.created_at).toISOString(),
+    }));
+
     return NextResponse.json({
+      chatId,
       totalMessages,
       totalUsers,
       topUsers,
       allUsers,
       messagesByDay,
+      messagesByType,
+      heatmap,
+      reactions,
       recentAnalyses,
     });
   } catch (error: any) {
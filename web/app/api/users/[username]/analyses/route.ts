@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisService } from '@/lib/services/analysisService';
+
+/**
+ * GET /api/users/:username/analyses - история анализов пользователя
+ * Query: ?limit=10 (максимум 50), ?chatId=-100... (только анализы по этому чату)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username } = await params;
+    const cleanUsername = decodeURIComponent(username).replace('@', '').trim();
+
+    if (!cleanUsername) {
+      return NextResponse.json(
+        { error: 'Username не может быть пустым' },
+        { status: 400 }
+      );
+    }
+
+    const user = await AnalysisService.findUserByUsername(cleanUsername);
+    if (!user) {
+      return NextResponse.json(
+        { error: `Пользователь @${cleanUsername} не найден в базе данных` },
+        { status: 404 }
+      );
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '10', 10);
+    const limit = Number.isNaN(limitParam) ? 10 : Math.min(Math.max(limitParam, 1), 50);
+
+    const chatIdParam = request.nextUrl.searchParams.get('chatId');
+    const chatId = chatIdParam ? parseInt(chatIdParam, 10) : undefined;
+    if (chatId !== undefined && Number.isNaN(chatId)) {
+      return NextResponse.json(
+        { error: 'chatId должен быть целым числом' },
+        { status: 400 }
+      );
+    }
+
+    const history = await AnalysisService.getHistory(user, { chatId, limit });
+
+    return NextResponse.json({
+      username: cleanUsername,
+      analyses: history.map((item) => ({
+        id: item.id,
+        chatId: item.chat_id,
+        provider: item.provider,
+        model: item.model,
+        messageCount: item.message_count,
+        windowStart: item.window_start ? new Date(item.window_start).toISOString() : null,
+        windowEnd: item.window_end ? new Date(item.window_end).toISOString() : null,
+        analysis: item.result,
+        analyzedAt: new Date(item.created_at).toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Ошибка при получении истории анализов:', error);
+    return NextResponse.json(
+      { error: 'Не удалось получить историю анализов' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface DigestChat {
+  chatId: number;
+  digestCount: number;
+  lastDigestAt: string;
+}
+
+interface DigestActionItem {
+  text: string;
+  assignee: { name: string; username: string | null; telegramId: number | null } | null;
+  sourceMessageId: number | null;
+  dueDate?: string | null;
+}
+
+interface DigestOpenTask {
+  id: number;
+  text: string;
+  assigneeName: string | null;
+  dueDate: string | null;
+}
+
+interface ChatDigestResult {
+  summary: string;
+  // Строки - дайджесты, сохранённые до появления ответственных и источников
+  actionItems: Array<DigestActionItem | string>;
+  // Задачи прошлых дайджестов, открытые на момент формирования (в старых записях нет)
+  openTasks?: DigestOpenTask[];
+  topics: string;
+  tone: string;
+}
+
+interface DigestItem {
+  id: number;
+  period: string;
+  periodLabel: string;
+  provider: string | null;
+  model: string | null;
+  messageCount: number;
+  firstMessageAt: string | null;
+  lastMessageAt: string | null;
+  digest: ChatDigestResult;
+  createdAt: string;
+}
+
+// Сколько дайджестов на странице
+const PAGE_SIZE = 5;
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function DigestsPage() {
+  const [chats, setChats] = useState<DigestChat[]>([]);
+  const [chatsLoading, setChatsLoading] = useState(true);
+  const [selectedChat, setSelectedChat] = useState<number | null>(null);
+
+  const [digests, setDigests] = useState<DigestItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [digestsLoading, setDigestsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // API URL - если запущен отдельно на 3001, используем его, иначе относительный путь
+  const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+  useEffect(() => {
+    const loadChats = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/digests`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Не удалось загрузить архив дайджестов');
+          return;
+        }
+        setChats(data.chats);
+        if (data.chats.length > 0) {
+          setSelectedChat(data.chats[0].chatId);
+        }
+      } catch (err) {
+        console.error(err);
+        setError('Ошибка подключения к серверу');
+      } finally {
+        setChatsLoading(false);
+      }
+    };
+
+    loadChats();
+  }, []);
+
+  useEffect(() => {
+    if (selectedChat === null) {
+      return;
+    }
+
+    const loadDigests = async () => {
+      setDigestsLoading(true);
+      try {
+        const res = await fetch(
+          `${API_URL}/api/digests/${selectedChat}?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`,
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Не удалось загрузить дайджесты');
+          return;
+        }
+        setDigests(data.digests);
+        setTotal(data.total);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError('Ошибка подключения к серверу');
+      } finally {
+        setDigestsLoading(false);
+      }
+    };
+
+    loadDigests();
+  }, [selectedChat, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <main className="page-root">
+      <div className="page-shell">
+        <section className="hero-panel">
+          <div className="hero-badge">
+            <span className="hero-meta-dot" />
+            <span>ARD · Архив дайджестов</span>
+          </div>
+
+          <div>
+            <h1 className="hero-title">
+              Все дайджесты{' '}
+              <span className="hero-title-accent">по чатам</span>
+            </h1>
+            <p className="hero-subtitle">
+              Каждый /digest и дайджест по расписанию сохраняется вместе с провайдером и диапазоном
+              исходных сообщений. <a href="/" style={{ color: '#93c5fd' }}>← К статистике</a>
+            </p>
+          </div>
+
+          <section className="card" aria-label="Чаты">
+            <div className="card-header">
+              <div className="card-title">
+                <span className="card-title-main">Чаты</span>
+                <span className="card-title-sub">Чаты, для которых есть сохранённые дайджесты</span>
+              </div>
+            </div>
+
+            {chatsLoading ? (
+              <p className="empty-state">
+                <span className="empty-state-emoji">⏳</span>
+                Загружаем чаты…
+              </p>
+            ) : chats.length === 0 ? (
+              <p className="empty-state">
+                <span className="empty-state-emoji">📭</span>
+                Дайджестов пока нет. Запустите /digest в групповом чате.
+              </p>
+            ) : (
+              <ul
+                style={{
+                  listStyle: 'none',
+                  padding: 0,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '0.35rem',
+                  fontSize: '0.85rem',
+                }}
+              >
+                {chats.map((chat) => (
+                  <li key={chat.chatId}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedChat(chat.chatId);
+                        setPage(0);
+                      }}
+                      style={{
+                        width: '100%',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        padding: '0.5rem 0.75rem',
+                        borderRadius: '0.5rem',
+                        border: '1px solid rgba(148, 163, 184, 0.2)',
+                        background:
+                          chat.chatId === selectedChat ? 'rgba(59, 130, 246, 0.25)' : 'rgba(15, 23, 42, 0.6)',
+                        color: '#e5e7eb',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      <span>💬 {chat.chatId}</span>
+                      <span style={{ color: '#9ca3af' }}>
+                        {chat.digestCount} · {formatDateTime(chat.lastDigestAt)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </section>
+
+        <section className="card" aria-label="Дайджесты">
+          <div className="card-header">
+            <div className="card-title">
+              <span className="card-title-main">Дайджесты</span>
+              <span className="card-title-sub">
+                {selectedChat !== null ? `Чат ${selectedChat} · всего ${total}` : 'Выберите чат'}
+              </span>
+            </div>
+          </div>
+
+          {error && <div className="alert">{error}</div>}
+
+          {digestsLoading ? (
+            <p className="empty-state">
+              <span className="empty-state-emoji">⏳</span>
+              Загружаем дайджесты…
+            </p>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+              {digests.map((item) => (
+                <article key={item.id} className="analysis-card">
+                  <div className="analysis-header">
+                    <span className="analysis-title">🧾 {item.periodLabel}</span>
+                    <span className="analysis-pill">{item.provider || '—'}</span>
+                  </div>
+
+                  <p className="analysis-item-label">Краткий пересказ</p>
+                  <p className="analysis-item-value" style={{ whiteSpace: 'pre-line' }}>
+                    {item.digest.summary}
+                  </p>
+
+                  <p className="analysis-item-label" style={{ marginTop: '0.75rem' }}>
+                    Action items
+                  </p>
+                  {item.digest.actionItems.length === 0 ? (
+                    <p className="analysis-item-value">Нет явных задач.</p>
+                  ) : (
+                    <ul style={{ paddingLeft: '1.1rem', fontSize: '0.9rem' }}>
+                      {item.digest.actionItems.map((action, index) =>
+                        typeof action === 'string' ? (
+                          <li key={index}>{action}</li>
+                        ) : (
+                          <li key={index}>
+                            {action.text}
+                            {action.assignee && (
+                              <span style={{ color: '#93c5fd' }}> — {action.assignee.name}</span>
+                            )}
+                            {action.dueDate && (
+                              <span style={{ color: '#9ca3af' }}> · до {action.dueDate}</span>
+                            )}
+                            {action.sourceMessageId !== null && (
+                              <span style={{ color: '#9ca3af' }}> (#{action.sourceMessageId})</span>
+                            )}
+                          </li>
+                        ),
+                      )}
+                    </ul>
+                  )}
+
+                  {item.digest.openTasks && item.digest.openTasks.length > 0 && (
+                    <>
+                      <p className="analysis-item-label" style={{ marginTop: '0.75rem' }}>
+                        Ещё открыты
+                      </p>
+                      <ul style={{ paddingLeft: '1.1rem', fontSize: '0.9rem', color: '#9ca3af' }}>
+                        {item.digest.openTasks.map((task) => (
+                          <li key={task.id}>
+                            {task.text}
+                            {task.assigneeName && ` — ${task.assigneeName}`}
+                            {task.dueDate && ` · до ${task.dueDate}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+
+                  <div className="analysis-grid" style={{ marginTop: '0.75rem' }}>
+                    <div>
+                      <p className="analysis-item-label">Темы</p>
+                      <p className="analysis-item-value">{item.digest.topics}</p>
+                    </div>
+                    <div>
+                      <p className="analysis-item-label">Тон</p>
+                      <p className="analysis-item-value">{item.digest.tone}</p>
+                    </div>
+                  </div>
+
+                  <div className="analysis-footer">
+                    <span>
+                      {item.messageCount} сообщений
+                      {item.firstMessageAt && item.lastMessageAt
+                        ? ` · ${formatDateTime(item.firstMessageAt)} — ${formatDateTime(item.lastMessageAt)}`
+                        : ''}
+                    </span>
+                    <span className="analysis-footer-highlight">
+                      сформирован {formatDateTime(item.createdAt)}
+                    </span>
+                  </div>
+                </article>
+              ))}
+
+              {total > PAGE_SIZE && (
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <button
+                    type="button"
+                    className="primary-button"
+                    disabled={page === 0}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    ◀️ Новее
+                  </button>
+                  <span className="helper-text">
+                    {page + 1} из {pageCount}
+                  </span>
+                  <button
+                    type="button"
+                    className="primary-button"
+                    disabled={page >= pageCount - 1}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Старее ▶️
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
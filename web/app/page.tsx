@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { formatHourRange, HEATMAP_WEEKDAYS, summarizeHeatmap } from '@/lib/services/activityHeatmap';
 
 interface UserAnalysis {
   style: string;
@@ -35,13 +36,156 @@ interface MessagesByDay {
   count: number;
 }
 
+interface MessagesByType {
+  type: string;
+  count: number;
+}
+
+// Подписи типов сообщений (как в /stats бота)
+const MESSAGE_TYPE_LABELS: Record<string, string> = {
+  text: '💬 Текст',
+  photo: '🖼 Фото',
+  video: '🎬 Видео',
+  animation: '🎞 GIF',
+  document: '📎 Файлы',
+  audio: '🎵 Аудио',
+  voice: '🎤 Голосовые',
+  video_note: '⏺ Кружочки',
+  sticker: '🙂 Стикеры',
+  poll: '📊 Опросы',
+};
+
+interface InteractionNode {
+  id: number;
+  name: string;
+  messageCount: number;
+}
+
+interface InteractionEdge {
+  source: number;
+  target: number;
+  replies: number;
+  mentions: number;
+  weight: number;
+}
+
+interface InteractionsData {
+  nodes: InteractionNode[];
+  edges: InteractionEdge[];
+}
+
+const GRAPH_SIZE = 260;
+
+/**
+ * Граф взаимодействий: участники по кругу, толщина стрелки - число ответов и упоминаний
+ */
+function InteractionGraph({ data }: { data: InteractionsData }) {
+  const center = GRAPH_SIZE / 2;
+  const radius = center - 40;
+  const maxWeight = Math.max(...data.edges.map((edge) => edge.weight), 1);
+  const maxMessages = Math.max(...data.nodes.map((node) => node.messageCount), 1);
+
+  const positions = new Map(
+    data.nodes.map((node, index) => {
+      const angle = (2 * Math.PI * index) / data.nodes.length - Math.PI / 2;
+      return [node.id, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) }];
+    }),
+  );
+  const nodeRadius = (node: InteractionNode) => 5 + (node.messageCount / maxMessages) * 7;
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`}
+      style={{ width: '100%', maxWidth: `${GRAPH_SIZE}px`, display: 'block', margin: '0 auto' }}
+      role="img"
+      aria-label="Граф взаимодействий участников"
+    >
+      <defs>
+        <marker id="interaction-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#34d399" />
+        </marker>
+      </defs>
+      {data.edges.map((edge) => {
+        const from = positions.get(edge.source);
+        const to = positions.get(edge.target);
+        const target = data.nodes.find((node) => node.id === edge.target);
+        if (!from || !to || !target) {
+          return null;
+        }
+        // Укорачиваем линию до края кружка, чтобы стрелка не пряталась под ним;
+        // встречные связи A→B и B→A разводим в стороны, чтобы они не сливались
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.hypot(dx, dy) || 1;
+        const shift = 3;
+        const offsetX = (-dy / length) * shift;
+        const offsetY = (dx / length) * shift;
+        const trim = nodeRadius(target) + 2;
+        return (
+          <line
+            key={`${edge.source}-${edge.target}`}
+            x1={from.x + offsetX}
+            y1={from.y + offsetY}
+            x2={to.x - (dx / length) * trim + offsetX}
+            y2={to.y - (dy / length) * trim + offsetY}
+            stroke="#34d399"
+            strokeOpacity={0.35 + (edge.weight / maxWeight) * 0.5}
+            strokeWidth={1 + (edge.weight / maxWeight) * 4}
+            markerEnd="url(#interaction-arrow)"
+          >
+            <title>{`${data.nodes.find((node) => node.id === edge.source)?.name} → ${target.name}: ответов ${edge.replies}, упоминаний ${edge.mentions}`}</title>
+          </line>
+        );
+      })}
+      {data.nodes.map((node) => {
+        const position = positions.get(node.id)!;
+        const labelY = position.y < center ? position.y - nodeRadius(node) - 4 : position.y + nodeRadius(node) + 11;
+        return (
+          <g key={node.id}>
+            <circle cx={position.x} cy={position.y} r={nodeRadius(node)} fill="#0f172a" stroke="#22c55e" strokeWidth={2}>
+              <title>{`${node.name}: ${node.messageCount} сообщений`}</title>
+            </circle>
+            <text x={position.x} y={labelY} textAnchor="middle" fontSize="9" fill="#cbd5e1">
+              {node.name}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface ReactionsOverview {
+  topEmoji: { emoji: string; count: number }[];
+  topMessages: { chatId: number; messageId: number; text: string | null; author: string | null; count: number }[];
+  topGivers: { name: string; count: number }[];
+  topReceivers: { name: string; count: number }[];
+}
+
+interface MembersData {
+  members: number;
+  joined: number;
+  left: number;
+  timeline: { date: string; joined: number; left: number }[];
+  silent: { userId: number; name: string; joinedAt: string | null }[];
+}
+
+interface ChatOption {
+  chatId: number;
+  title: string;
+  messageCount: number;
+}
+
 interface OverviewData {
   totalMessages: number;
   totalUsers: number;
   topUsers: TopUser[];
   allUsers?: UserTableRow[];
   messagesByDay?: MessagesByDay[];
-  recentAnalyses: { username: string; analyzedAt: string }[];
+  messagesByType?: MessagesByType[];
+  heatmap?: number[][]; // Сообщения за 30 дней: 7 строк с понедельника по 24 часа
+  reactions?: ReactionsOverview;
+  recentAnalyses: { username: string; provider: string | null; messageCount: number; analyzedAt: string }[];
 }
 
 export default function Home() {
@@ -66,13 +210,39 @@ export default function Home() {
 
   const [overviewError, setOverviewError] = useState<string | null>(null);
 
+  const [interactions, setInteractions] = useState<InteractionsData | null>(null);
+  const [members, setMembers] = useState<MembersData | null>(null);
+
+  // Переключатель чатов: null - все чаты вместе
+  const [chats, setChats] = useState<ChatOption[]>([]);
+  const [selectedChat, setSelectedChat] = useState<number | null>(null);
+
   // API URL - если запущен отдельно на 3001, используем его, иначе относительный путь
   const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
   useEffect(() => {
+    const loadChats = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/chats`);
+        if (res.ok) {
+          const data = await res.json();
+          setChats(data.chats);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    loadChats();
+  }, []);
+
+  useEffect(() => {
+    const chatQuery = selectedChat !== null ? `chatId=${selectedChat}` : '';
+
     const loadOverview = async () => {
+      setOverviewLoading(true);
       try {
-        const res = await fetch(`${API_URL}/api/overview`);
+        const res = await fetch(`${API_URL}/api/overview${chatQuery ? `?${chatQuery}` : ''}`);
         const data = await res.json();
         if (!res.ok) {
           setOverviewError(data.error || 'Не удалось загрузить статистику');
@@ -90,8 +260,30 @@ export default function Home() {
       }
     };
 
+    // Граф взаимодействий - отдельный запрос, его ошибка не ломает остальную статистику
+    const loadInteractions = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/interactions?limit=20${chatQuery ? `&${chatQuery}` : ''}`);
+        setInteractions(res.ok ? await res.json() : null);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    // Вступления и выходы за 30 дней - тоже отдельно от общей статистики
+    const loadMembers = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/members?days=30${chatQuery ? `&${chatQuery}` : ''}`);
+        setMembers(res.ok ? await res.json() : null);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
     loadOverview();
-  }, []);
+    loadInteractions();
+    loadMembers();
+  }, [selectedChat]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -208,6 +400,12 @@ export default function Home() {
               <span>📊</span>
               <span>/stats и /analyze в одном веб-интерфейсе</span>
             </div>
+            <div className="hero-meta-item">
+              <span>🧾</span>
+              <a href="/digests" style={{ color: 'inherit' }}>
+                Архив дайджестов
+              </a>
+            </div>
           </div>
 
           <section className="card" aria-label="Статистика чата">
@@ -220,6 +418,32 @@ export default function Home() {
               </div>
             </div>
 
+            {chats.length > 1 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.35rem', marginBottom: '0.75rem' }}>
+                {[{ chatId: null, title: 'Все чаты' }, ...chats].map((chat) => (
+                  <button
+                    key={chat.chatId ?? 'all'}
+                    type="button"
+                    onClick={() => setSelectedChat(chat.chatId)}
+                    style={{
+                      padding: '0.2rem 0.6rem',
+                      borderRadius: '999px',
+                      border: 'none',
+                      fontSize: '0.7rem',
+                      cursor: 'pointer',
+                      background:
+                        selectedChat === chat.chatId
+                          ? 'linear-gradient(135deg, #34d399, #22c55e)'
+                          : 'rgba(148, 163, 184, 0.2)',
+                      color: selectedChat === chat.chatId ? '#020617' : '#e5e7eb',
+                    }}
+                  >
+                    {chat.title}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {overviewLoading ? (
               <p className="empty-state">
                 <span className="empty-state-emoji">⏳</span>
@@ -242,49 +466,115 @@ export default function Home() {
                   </div>
                 </div>
 
-                <div style={{ marginTop: '1rem' }}>
-                  <p className="analysis-item-label">Топ активных пользователей</p>
-                  {overview.topUsers.length === 0 ? (
-                    <p className="empty-state">
-                      <span className="empty-state-emoji">💤</span>
-                      Пока нет сообщений в базе.
-                    </p>
-                  ) : (
-                    <ul
-                      style={{
-                        listStyle: 'none',
-                        padding: 0,
-                        marginTop: '0.35rem',
-                        display: 'flex',
-                        flexDirection: 'column',
-                        gap: '0.25rem',
-                        fontSize: '0.85rem',
-                      }}
-                    >
-                      {overview.topUsers.slice(0, 4).map((user, index) => {
-                        const name = user.username
-                          ? `@${user.username}`
-                          : user.first_name || 'Неизвестный';
-                        const emoji =
-                          index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-                        return (
-                          <li
-                            key={`${user.username}-${index}`}
-                            style={{ display: 'flex', justifyContent: 'space-between' }}
-                          >
-                            <span>
-                              {emoji} {name}
-                            </span>
-                            <span style={{ color: '#9ca3af' }}>
-                              {user.messageCount.toLocaleString('ru-RU')} сообщений
-                            </span>
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  )}
+                <div
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))',
+                    gap: '1rem',
+                    alignItems: 'start',
+                  }}
+                >
+                  <div style={{ marginTop: '1rem' }}>
+                    <p className="analysis-item-label">Топ активных пользователей</p>
+                    {overview.topUsers.length === 0 ? (
+                      <p className="empty-state">
+                        <span className="empty-state-emoji">💤</span>
+                        Пока нет сообщений в базе.
+                      </p>
+                    ) : (
+                      <ul
+                        style={{
+                          listStyle: 'none',
+                          padding: 0,
+                          marginTop: '0.35rem',
+                          display: 'flex',
+                          flexDirection: 'column',
+                          gap: '0.25rem',
+                          fontSize: '0.85rem',
+                        }}
+                      >
+                        {overview.topUsers.slice(0, 4).map((user, index) => {
+                          const name = user.username
+                            ? `@${user.username}`
+                            : user.first_name || 'Неизвестный';
+                          const emoji =
+                            index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
+                          return (
+                            <li
+                              key={`${user.username}-${index}`}
+                              style={{ display: 'flex', justifyContent: 'space-between' }}
+                            >
+                              <span>
+                                {emoji} {name}
+                              </span>
+                              <span style={{ color: '#9ca3af' }}>
+                                {user.messageCount.toLocaleString('ru-RU')} сообщений
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div style={{ marginTop: '1rem' }}>
+                    <p className="analysis-item-label">🕸 Кто кому отвечает</p>
+                    {interactions && interactions.edges.length > 0 ? (
+                      <InteractionGraph data={interactions} />
+                    ) : (
+                      <p className="empty-state">
+                        <span className="empty-state-emoji">🕸</span>
+                        Пока нет ответов и упоминаний между участниками.
+                      </p>
+                    )}
+                  </div>
                 </div>
 
+                {overview.messagesByType && overview.messagesByType.some((item) => item.type !== 'text') && (
+                  <div style={{ marginTop: '1rem' }}>
+                    <p className="analysis-item-label">По типам сообщений</p>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.35rem' }}>
+                      {overview.messagesByType.map((item) => (
+                        <span key={item.type} className="analysis-pill">
+                          {MESSAGE_TYPE_LABELS[item.type] || item.type} · {item.count.toLocaleString('ru-RU')}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {overview.reactions && overview.reactions.topEmoji.length > 0 && (
+                  <div style={{ marginTop: '1rem' }}>
+                    <p className="analysis-item-label">❤️ Реакции</p>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.35rem' }}>
+                      {overview.reactions.topEmoji.map((item) => (
+                        <span key={item.emoji} className="analysis-pill">
+                          {/* Кастомные эмодзи в вебе не отрисовать */}
+                          {item.emoji.startsWith('custom:') ? '🧩' : item.emoji} · {item.count.toLocaleString('ru-RU')}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="analysis-footer" style={{ marginTop: '0.5rem', flexWrap: 'wrap' }}>
+                      {overview.reactions.topReceivers.length > 0 && (
+                        <span>
+                          Получают больше всех:{' '}
+                          <span className="analysis-footer-highlight">
+                            {overview.reactions.topReceivers.slice(0, 3).map((item) => `${item.name} (${item.count})`).join(', ')}
+                          </span>
+                        </span>
+                      )}
+                      {overview.reactions.topGivers.length > 0 && (
+                        <span>
+                          Ставят больше всех:{' '}
+                          <span className="analysis-footer-highlight">
+                            {overview.reactions.topGivers.slice(0, 3).map((item) => `${item.name} (${item.count})`).join(', ')}
+                          </span>
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {overview.recentAnalyses.length > 0 && (
                   <div className="analysis-footer" style={{ marginTop: '1rem' }}>
                     <span>Недавние анализы:</span>
@@ -354,7 +644,7 @@ export default function Home() {
                                     textOrientation: 'mixed',
                                   }}
                                 >
-                                  {new Date(day.date).getDate()}
+                                  {parseInt(day.date.slice(8), 10)}
                                 </span>
                               )}
                             </div>
@@ -365,6 +655,150 @@ export default function Home() {
                   </div>
                 )}
 
+                {/* Тепловая карта: дни недели × часы за те же 30 дней */}
+                {overview.heatmap && summarizeHeatmap(overview.heatmap).length > 0 && (
+                  <div style={{ marginTop: '1.5rem' }}>
+                    <p className="analysis-item-label" style={{ marginBottom: '0.75rem' }}>
+                      🕒 По дням недели и часам за последние 30 дней
+                    </p>
+                    <div
+                      style={{
+                        background: 'rgba(15, 23, 42, 0.6)',
+                        borderRadius: '0.5rem',
+                        padding: '1rem',
+                        border: '1px solid rgba(148, 163, 184, 0.1)',
+                        overflowX: 'auto',
+                      }}
+                    >
+                      <div
+                        style={{
+                          display: 'grid',
+                          gridTemplateColumns: '2rem repeat(24, minmax(0.75rem, 1fr))',
+                          gap: '2px',
+                          minWidth: '22rem',
+                        }}
+                      >
+                        <span />
+                        {Array.from({ length: 24 }, (_, hour) => (
+                          <span key={hour} style={{ fontSize: '0.65rem', color: '#9ca3af', textAlign: 'center' }}>
+                            {hour % 3 === 0 ? hour : ''}
+                          </span>
+                        ))}
+                        {overview.heatmap.map((row, weekday) => {
+                          const maxCount = Math.max(...overview.heatmap!.flat());
+                          return [
+                            <span key={`label-${weekday}`} style={{ fontSize: '0.7rem', color: '#9ca3af' }}>
+                              {HEATMAP_WEEKDAYS[weekday]}
+                            </span>,
+                            ...row.map((count, hour) => (
+                              <div
+                                key={`${weekday}-${hour}`}
+                                style={{
+                                  aspectRatio: '1',
+                                  borderRadius: '2px',
+                                  background:
+                                    count > 0
+                                      ? `rgba(34, 197, 94, ${0.15 + 0.85 * Math.sqrt(count / maxCount)})`
+                                      : 'rgba(148, 163, 184, 0.1)',
+                                }}
+                                title={`${HEATMAP_WEEKDAYS[weekday]}, ${formatHourRange(hour)}: ${count} сообщений`}
+                              />
+                            )),
+                          ];
+                        })}
+                      </div>
+                      <div style={{ marginTop: '0.75rem', fontSize: '0.8rem', color: '#9ca3af' }}>
+                        {summarizeHeatmap(overview.heatmap).map((line) => (
+                          <div key={line}>{line}</div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Рост и отток участников по дням */}
+                {members && (members.joined > 0 || members.left > 0 || members.silent.length > 0) && (
+                  <div style={{ marginTop: '1.5rem' }}>
+                    <p className="analysis-item-label" style={{ marginBottom: '0.75rem' }}>
+                      👥 Участники за последние 30 дней: +{members.joined} / −{members.left}, сейчас{' '}
+                      {members.members.toLocaleString('ru-RU')}
+                    </p>
+                    <div
+                      style={{
+                        background: 'rgba(15, 23, 42, 0.6)',
+                        borderRadius: '0.5rem',
+                        padding: '1rem',
+                        border: '1px solid rgba(148, 163, 184, 0.1)',
+                      }}
+                    >
+                      <div
+                        style={{
+                          display: 'flex',
+                          alignItems: 'stretch',
+                          gap: '0.25rem',
+                          height: '120px',
+                          justifyContent: 'space-between',
+                        }}
+                      >
+                        {members.timeline.map((day, idx) => {
+                          const maxCount = Math.max(1, ...members.timeline.map((d) => Math.max(d.joined, d.left)));
+                          return (
+                            <div
+                              key={day.date}
+                              style={{
+                                flex: 1,
+                                display: 'flex',
+                                flexDirection: 'column',
+                                alignItems: 'center',
+                              }}
+                              title={`${day.date}: +${day.joined} / −${day.left}`}
+                            >
+                              {/* Вступления растут вверх от середины, выходы - вниз */}
+                              <div style={{ flex: 1, width: '100%', display: 'flex', alignItems: 'flex-end' }}>
+                                <div
+                                  style={{
+                                    width: '100%',
+                                    height: `${(day.joined / maxCount) * 100}%`,
+                                    background: 'linear-gradient(180deg, #34d399, #22c55e)',
+                                    borderRadius: '2px 2px 0 0',
+                                  }}
+                                />
+                              </div>
+                              <div style={{ flex: 1, width: '100%', display: 'flex', alignItems: 'flex-start' }}>
+                                <div
+                                  style={{
+                                    width: '100%',
+                                    height: `${(day.left / maxCount) * 100}%`,
+                                    background: 'linear-gradient(180deg, #f87171, #ef4444)',
+                                    borderRadius: '0 0 2px 2px',
+                                  }}
+                                />
+                              </div>
+                              {idx % 5 === 0 && (
+                                <span style={{ fontSize: '0.65rem', color: '#9ca3af' }}>
+                                  {parseInt(day.date.slice(8), 10)}
+                                </span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                    {members.silent.length > 0 && (
+                      <div className="analysis-footer" style={{ marginTop: '0.5rem', flexWrap: 'wrap' }}>
+                        <span>🤐 Вступили, но ничего не написали:</span>
+                        <span className="analysis-footer-highlight">
+                          {members.silent
+                            .slice(0, 10)
+                            .map((item) => item.name)
+                            .join(', ')}
+                          {members.silent.length > 10 ? ` и ещё ${members.silent.length - 10}` : ''}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Таблица всех пользователей */}
                 {overview.allUsers && overview.allUsers.length > 0 && (
                   <div style={{ marginTop: '1.5rem' }}>
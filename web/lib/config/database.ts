@@ -0,0 +1,13 @@
+import { Pool } from 'pg';
+
+// Общий пул подключений к PostgreSQL для всех API routes
+// (раньше каждый route создавал свой Pool)
+export const pgPool = new Pool({
+  host: process.env.POSTGRES_HOST || 'localhost',
+  port: parseInt(process.env.POSTGRES_PORT || '5433'),
+  user: process.env.POSTGRES_USER || 'postgres',
+  password: process.env.POSTGRES_PASSWORD || 'postgres',
+  database: process.env.POSTGRES_DB || 'telegram_bot',
+  max: 20,
+  connectionTimeoutMillis: 5000,
+});
@@ -0,0 +1,85 @@
+// Конфигурация LLM-провайдеров
+// Все ключи, адреса и модели читаются здесь, а не внутри сервисов,
+// чтобы добавлять и переупорядочивать провайдеров в одном месте
+
+export type LLMProviderId = 'deepseek' | 'qwen' | 'gemini';
+
+export interface LLMProviderConfig {
+  id: LLMProviderId;
+  label: string; // Человекочитаемое имя для логов и ответов пользователю
+  apiKey: string | undefined;
+  baseUrl: string;
+  models: string[]; // Модели в порядке приоритета (следующая пробуется, если предыдущая не найдена)
+  temperature: number;
+  maxTokens: number;
+}
+
+// Порядок fallback по умолчанию, если LLM_PROVIDER_ORDER не задан
+const DEFAULT_PROVIDER_ORDER: LLMProviderId[] = ['deepseek', 'qwen', 'gemini'];
+
+/**
+ * Получить конфигурацию всех известных провайдеров
+ */
+export function getLLMProviderConfigs(): Record<LLMProviderId, LLMProviderConfig> {
+  return {
+    deepseek: {
+      id: 'deepseek',
+      label: 'DeepSeek',
+      apiKey: process.env.DEEPSEEK_API_KEY,
+      baseUrl: process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com',
+      models: [process.env.DEEPSEEK_MODEL || 'deepseek-chat'],
+      temperature: 0.7,
+      maxTokens: 1000,
+    },
+    qwen: {
+      id: 'qwen',
+      label: 'Qwen',
+      apiKey: process.env.DASHSCOPE_API_KEY,
+      baseUrl:
+        process.env.DASHSCOPE_BASE_URL ||
+        'https://dashscope-intl.aliyuncs.com/compatible-mode/v1',
+      models: [process.env.DASHSCOPE_MODEL || 'qwen-plus'],
+      temperature: 0.7,
+      maxTokens: 1000,
+    },
+    gemini: {
+      id: 'gemini',
+      label: 'Gemini',
+      apiKey: process.env.GEMINI_API_KEY,
+      baseUrl: '',
+      // Актуальные модели бесплатного тарифа (январь 2026) + устаревшие как fallback
+      models: process.env.GEMINI_MODEL
+        ? [process.env.GEMINI_MODEL]
+        : ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-1.5-flash', 'gemini-pro'],
+      temperature: 0.7,
+      maxTokens: 1000,
+    },
+  };
+}
+
+/**
+ * Порядок провайдеров для fallback
+ * Настраивается через LLM_PROVIDER_ORDER, например: "qwen,gemini,deepseek"
+ */
+export function getLLMProviderOrder(): LLMProviderId[] {
+  const raw = process.env.LLM_PROVIDER_ORDER;
+  if (!raw) {
+    return [...DEFAULT_PROVIDER_ORDER];
+  }
+
+  const known = new Set<string>(DEFAULT_PROVIDER_ORDER);
+  const order = raw
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter((item): item is LLMProviderId => known.has(item));
+
+  // Убираем дубликаты, сохраняя порядок
+  return order.length > 0 ? Array.from(new Set(order)) : [...DEFAULT_PROVIDER_ORDER];
+}
+
+/**
+ * Человекочитаемое имя провайдера по id
+ */
+export function getLLMProviderLabel(id: LLMProviderId): string {
+  return getLLMProviderConfigs()[id].label;
+}
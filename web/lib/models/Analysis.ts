@@ -0,0 +1,118 @@
+import { pgPool } from '../config/database';
+
+// Интерфейс для данных анализа из БД
+// result хранится как JSONB и содержит UserAnalysis целиком
+export interface AnalysisData<TResult = Record<string, unknown>> {
+  id: number;
+  user_id: number;
+  chat_id: number | null;
+  provider: string | null;
+  model: string | null;
+  message_count: number;
+  window_start: Date | null;
+  window_end: Date | null;
+  result: TResult;
+  created_at: Date;
+}
+
+// Анализ вместе с данными пользователя (для списков "недавние анализы")
+export interface AnalysisWithUser<TResult = Record<string, unknown>> extends AnalysisData<TResult> {
+  username: string | null;
+  first_name: string | null;
+}
+
+// Интерфейс для создания нового анализа
+export interface CreateAnalysisData<TResult = Record<string, unknown>> {
+  user_id: number;
+  chat_id?: number | null;
+  provider: string | null;
+  model: string | null;
+  message_count: number;
+  window_start?: Date | null;
+  window_end?: Date | null;
+  result: TResult;
+}
+
+/**
+ * Модель Analysis - работа с таблицей analyses
+ * Хранит историю результатов /analyze
+ */
+export class Analysis {
+  /**
+   * Сохранить результат анализа
+   */
+  static async create<TResult>(data: CreateAnalysisData<TResult>): Promise<AnalysisData<TResult>> {
+    const query = `
+      INSERT INTO analyses (user_id, chat_id, provider, model, message_count, window_start, window_end, result)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+    const result = await pgPool.query<AnalysisData<TResult>>(query, [
+      data.user_id,
+      data.chat_id ?? null,
+      data.provider,
+      data.model,
+      data.message_count,
+      data.window_start ?? null,
+      data.window_end ?? null,
+      JSON.stringify(data.result),
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Получить историю анализов пользователя (новые сначала)
+   */
+  static async findByUserId<TResult = Record<string, unknown>>(
+    userId: number,
+    options?: {
+      chatId?: number;
+      limit?: number;
+    }
+  ): Promise<AnalysisData<TResult>[]> {
+    let query = 'SELECT * FROM analyses WHERE user_id = $1';
+    const params: any[] = [userId];
+    let paramIndex = 2;
+
+    // Фильтр по chat_id (если указан)
+    if (options?.chatId !== undefined) {
+      query += ` AND chat_id = $${paramIndex}`;
+      params.push(options.chatId);
+      paramIndex++;
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${paramIndex}`;
+    params.push(options?.limit ?? 10);
+
+    const result = await pgPool.query<AnalysisData<TResult>>(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Получить последние анализы по всем пользователям
+   */
+  static async findRecent<TResult = Record<string, unknown>>(
+    limit: number = 10,
+    options?: { chatId?: number }
+  ): Promise<AnalysisWithUser<TResult>[]> {
+    let query = `
+      SELECT a.*, u.username, u.first_name
+      FROM analyses a
+      JOIN users u ON a.user_id = u.id
+    `;
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (options?.chatId !== undefined) {
+      query += ` WHERE a.chat_id = $${paramIndex}`;
+      params.push(options.chatId);
+      paramIndex++;
+    }
+
+    query += ` ORDER BY a.created_at DESC LIMIT $${paramIndex}`;
+    params.push(limit);
+
+    const result = await pgPool.query<AnalysisWithUser<TResult>>(query, params);
+    return result.rows;
+  }
+}
@@ -0,0 +1,63 @@
+import { pgPool } from '../config/database';
+import { getDefaultTimeZone, isValidTimeZone } from '../config/timeZone';
+
+// Чат для переключателя в вебе: данные из chats и активность из дневных агрегатов message_daily_stats
+export interface ChatSummary {
+  chat_id: number;
+  title: string | null; // null - чат известен только по сообщениям (до появления таблицы chats)
+  type: string | null;
+  username: string | null;
+  bot_status: string | null;
+  is_bot_admin: boolean;
+  first_seen_at: Date | null;
+  message_count: number;
+  last_message_at: Date | null;
+}
+
+/**
+ * Модель Chat - работа с таблицей chats
+ * Таблицу заполняет бот (my_chat_member, первое сообщение, смена названия); веб только читает
+ */
+export class Chat {
+  /**
+   * Все чаты: из chats и те, о которых известно только по сообщениям; самые активные первыми
+   */
+  static async findAll(): Promise<ChatSummary[]> {
+    const query = `
+      WITH activity AS (
+        SELECT chat_id, SUM(message_count)::int as message_count, MAX(last_message_at) as last_message_at
+        FROM message_daily_stats
+        GROUP BY chat_id
+      )
+      SELECT
+        COALESCE(c.chat_id, a.chat_id)::float8 as chat_id,
+        c.title,
+        c.type,
+        c.username,
+        c.bot_status,
+        COALESCE(c.is_bot_admin, FALSE) as is_bot_admin,
+        c.first_seen_at,
+        COALESCE(a.message_count, 0) as message_count,
+        a.last_message_at
+      FROM chats c
+      FULL OUTER JOIN activity a ON a.chat_id = c.chat_id
+      ORDER BY message_count DESC, c.first_seen_at ASC
+    `;
+    const result = await pgPool.query<ChatSummary>(query);
+    return result.rows;
+  }
+
+  /**
+   * Часовой пояс чата (chats.settings.timezone, его задаёт /timezone в боте) или пояс по умолчанию
+   * null - все чаты вместе: тоже пояс по умолчанию
+   */
+  static async getTimeZone(chatId: number | null): Promise<string> {
+    if (chatId === null) {
+      return getDefaultTimeZone();
+    }
+    const query = `SELECT settings->>'timezone' AS timezone FROM chats WHERE chat_id = $1`;
+    const result = await pgPool.query<{ timezone: string | null }>(query, [chatId]);
+    const timeZone = result.rows[0]?.timezone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone();
+  }
+}
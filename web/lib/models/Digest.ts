@@ -0,0 +1,146 @@
+import { pgPool } from '../config/database';
+
+// Интерфейс для дайджеста из БД
+// result хранится как JSONB и содержит ChatDigestResult целиком
+export interface DigestData<TResult = Record<string, unknown>> {
+  id: number;
+  chat_id: number;
+  period_key: string;
+  period_label: string;
+  period_start: Date;
+  period_end: Date;
+  provider: string | null;
+  model: string | null;
+  message_count: number;
+  first_message_id: number | null;
+  last_message_id: number | null;
+  first_message_at: Date | null;
+  last_message_at: Date | null;
+  result: TResult;
+  created_at: Date;
+}
+
+// Интерфейс для сохранения нового дайджеста
+export interface CreateDigestData<TResult = Record<string, unknown>> {
+  chat_id: number;
+  period_key: string;
+  period_label: string;
+  period_start: Date;
+  period_end: Date;
+  provider: string | null;
+  model: string | null;
+  message_count: number;
+  first_message_id?: number | null;
+  last_message_id?: number | null;
+  first_message_at?: Date | null;
+  last_message_at?: Date | null;
+  result: TResult;
+}
+
+// Чат, для которого есть дайджесты (для списка чатов в вебе)
+export interface DigestChatSummary {
+  chat_id: number;
+  digest_count: number;
+  last_digest_at: Date;
+}
+
+/**
+ * Модель Digest - работа с таблицей digests
+ * Архив дайджестов по чатам и периодам
+ */
+export class Digest {
+  /**
+   * Сохранить дайджест
+   */
+  static async create<TResult>(data: CreateDigestData<TResult>): Promise<DigestData<TResult>> {
+    const query = `
+      INSERT INTO digests (
+        chat_id, period_key, period_label, period_start, period_end, provider, model, message_count,
+        first_message_id, last_message_id, first_message_at, last_message_at, result
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      RETURNING *
+    `;
+    const result = await pgPool.query<DigestData<TResult>>(query, [
+      data.chat_id,
+      data.period_key,
+      data.period_label,
+      data.period_start,
+      data.period_end,
+      data.provider,
+      data.model,
+      data.message_count,
+      data.first_message_id ?? null,
+      data.last_message_id ?? null,
+      data.first_message_at ?? null,
+      data.last_message_at ?? null,
+      JSON.stringify(data.result),
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Последний сохранённый дайджест чата ровно за этот период
+   */
+  static async findForPeriod<TResult = Record<string, unknown>>(
+    chatId: number,
+    periodStart: Date,
+    periodEnd: Date
+  ): Promise<DigestData<TResult> | null> {
+    const query = `
+      SELECT * FROM digests
+      WHERE chat_id = $1 AND period_start = $2 AND period_end = $3
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const result = await pgPool.query<DigestData<TResult>>(query, [chatId, periodStart, periodEnd]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Архив дайджестов чата (новые сначала)
+   */
+  static async findByChatId<TResult = Record<string, unknown>>(
+    chatId: number,
+    options?: {
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<DigestData<TResult>[]> {
+    const query = `
+      SELECT * FROM digests
+      WHERE chat_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+    const result = await pgPool.query<DigestData<TResult>>(query, [
+      chatId,
+      options?.limit ?? 10,
+      options?.offset ?? 0,
+    ]);
+    return result.rows;
+  }
+
+  /**
+   * Количество дайджестов чата (для пагинации)
+   */
+  static async countByChatId(chatId: number): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM digests WHERE chat_id = $1';
+    const result = await pgPool.query<{ count: string }>(query, [chatId]);
+    return parseInt(result.rows[0]?.count || '0', 10);
+  }
+
+  /**
+   * Чаты, для которых есть дайджесты (последние сначала)
+   */
+  static async findChats(): Promise<DigestChatSummary[]> {
+    const query = `
+      SELECT chat_id, COUNT(*)::int as digest_count, MAX(created_at) as last_digest_at
+      FROM digests
+      GROUP BY chat_id
+      ORDER BY last_digest_at DESC
+    `;
+    const result = await pgPool.query<DigestChatSummary>(query);
+    return result.rows;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Тепловая карта активности "день недели × час": пик и сводка по времени суток и дням недели
+ * Сводка идёт в подпись к картинке в /stats и в промпт анализа вместо догадок LLM по тексту.
+ * cells - 7 строк (0 - понедельник) по 24 часа с числом сообщений
+ */
+
+export const HEATMAP_WEEKDAYS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+
+// Части суток: [начало, конец) в часах
+const DAY_PARTS: Array<{ name: string; from: number; to: number }> = [
+  { name: 'ночь', from: 0, to: 6 },
+  { name: 'утро', from: 6, to: 12 },
+  { name: 'день', from: 12, to: 18 },
+  { name: 'вечер', from: 18, to: 24 },
+];
+
+// Самая активная клетка карты
+export interface HeatmapPeak {
+  weekday: number; // 0 - понедельник
+  hour: number;
+  count: number;
+}
+
+/**
+ * Час как интервал: 14 -> "14:00–15:00"
+ */
+export function formatHourRange(hour: number): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(hour)}:00–${pad((hour + 1) % 24)}:00`;
+}
+
+/**
+ * Самая активная клетка (при равенстве - более ранняя); null - сообщений нет
+ */
+export function findPeak(cells: number[][]): HeatmapPeak | null {
+  let peak: HeatmapPeak | null = null;
+  cells.forEach((row, weekday) => {
+    row.forEach((count, hour) => {
+      if (count > 0 && (!peak || count > peak.count)) {
+        peak = { weekday, hour, count };
+      }
+    });
+  });
+  return peak;
+}
+
+/**
+ * Сводка по карте: пик, доли частей суток, самый активный и самый тихий день, будни и выходные
+ * Пустой массив - сообщений нет
+ */
+export function summarizeHeatmap(cells: number[][]): string[] {
+  const byWeekday = cells.map((row) => row.reduce((sum, count) => sum + count, 0));
+  const total = byWeekday.reduce((sum, count) => sum + count, 0);
+  const peak = findPeak(cells);
+  if (total === 0 || !peak) {
+    return [];
+  }
+
+  const percent = (count: number) => `${Math.round((count / total) * 100)}%`;
+  const dayParts = DAY_PARTS.map(({ name, from, to }) => {
+    const count = cells.reduce((sum, row) => sum + row.slice(from, to).reduce((a, b) => a + b, 0), 0);
+    return `${name} ${percent(count)}`;
+  });
+  const busiest = byWeekday.indexOf(Math.max(...byWeekday));
+  const quietest = byWeekday.indexOf(Math.min(...byWeekday));
+  const weekend = byWeekday[5] + byWeekday[6];
+
+  return [
+    `Пик: ${HEATMAP_WEEKDAYS[peak.weekday]}, ${formatHourRange(peak.hour)} (сообщений: ${peak.count})`,
+    `Время суток: ${dayParts.join(', ')}`,
+    `Самый активный день: ${HEATMAP_WEEKDAYS[busiest]} (${percent(byWeekday[busiest])}), ` +
+      `самый тихий: ${HEATMAP_WEEKDAYS[quietest]} (${percent(byWeekday[quietest])})`,
+    `Будни: ${percent(total - weekend)}, выходные: ${percent(weekend)}`,
+  ];
+}
@@ -0,0 +1,492 @@
+import { LLMProviderId } from '../config/llm';
+import { Analysis, AnalysisData } from '../models/Analysis';
+import { pgPool } from '../config/database';
+import { getDefaultTimeZone } from '../config/timeZone';
+import { LLMService } from './llmService';
+import { LLMError } from './llm/errors';
+import { JsonSchema, validateJsonOutput } from './llm/jsonOutput';
+import { formatDateRange, ParsedPeriod } from './periodParser';
+import { summarizeHeatmap } from './activityHeatmap';
+import { CondensedText, SummarizationService } from './summarizationService';
+
+// Интерфейс для результата анализа
+export interface UserAnalysis {
+  style: string; // Стиль общения
+  topics: string; // Основные темы
+  averageLength: string; // Средняя длина сообщений
+  activity: string; // Активность по времени суток
+  tone: string; // Тональность
+  features: string; // Особенности
+  messageCount: number; // Количество проанализированных сообщений
+  period: string; // Период анализа
+}
+
+// Поля, которые LLM должна вернуть в JSON
+export type AnalysisField = 'style' | 'topics' | 'activity' | 'tone' | 'features';
+
+const ANALYSIS_SCHEMA: JsonSchema<AnalysisField> = {
+  style: 'string',
+  topics: 'string_or_list',
+  activity: 'string',
+  tone: 'string',
+  features: 'string_or_list',
+};
+
+// Как был получен результат: валидный JSON, JSON после repair-запроса или построчный парсер
+export type AnalysisOutputStatus = 'valid' | 'repaired' | 'fallback';
+
+// Результат анализа вместе с информацией о том, кто его выполнил
+export interface UserAnalysisResult {
+  analysis: UserAnalysis;
+  provider: LLMProviderId | null; // null - LLM не вызывался (нет сообщений)
+  model: string | null;
+  outputStatus: AnalysisOutputStatus | null;
+}
+
+export interface AnalyzeUserOptions {
+  chatId: number | null; // Чат, по сообщениям которого строится анализ (null - все чаты, только для админов)
+  period?: ParsedPeriod; // Период (week, 2026-09-01..2026-09-30); без него - последние сообщения
+  limit?: number; // last:N - сколько последних сообщений взять (не больше MAX_MESSAGES)
+  provider?: LLMProviderId; // Принудительно использовать одного провайдера
+  timeZone?: string; // Пояс чата для дат в подписи периода; без него - пояс по умолчанию
+}
+
+// Окно выборки сообщений для анализа
+interface MessageWindow {
+  chatId: number | null;
+  limit: number;
+  startDate?: Date;
+  endDate?: Date;
+  timeZone: string;
+}
+
+// Сообщение из таблицы messages (только нужные анализу поля)
+interface MessageData {
+  text: string;
+  created_at: Date;
+}
+
+// Пользователь из таблицы users
+export interface UserData {
+  id: number;
+  telegram_id: number;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Сервис анализа стиля общения пользователя (копия bot/src/services/analysisService.ts)
+ * Загружает сообщения, строит промпт и парсит ответ; сам вызов LLM делегирует LLMService
+ */
+export class AnalysisService {
+  // По умолчанию 30 последних сообщений - для более стабильной работы бесплатных API
+  private static readonly DEFAULT_MESSAGES = 30;
+  // Верхняя граница для last:N и для периода без last:N
+  static readonly MAX_MESSAGES = 500;
+  // Бюджет на сообщения в одном промпте (~6000 символов); больше - map-reduce по частям
+  private static readonly PROMPT_TOKEN_BUDGET = 2000;
+  private static readonly SYSTEM_PROMPT =
+    'Ты помощник, который анализирует сообщения из Telegram-чата и отвечает коротко и структурированно на русском языке.';
+
+  /**
+   * Найти пользователя по username (без @)
+   */
+  static async findUserByUsername(username: string): Promise<UserData | null> {
+    const query = 'SELECT * FROM users WHERE username = $1';
+    const result = await pgPool.query<UserData>(query, [username]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Получить последние сообщения пользователя в окне (чат, период, лимит)
+   * Стикеры, голосовые и вложения без подписи для анализа стиля бесполезны и не учитываются
+   */
+  private static async getUserMessages(userId: number, window: MessageWindow): Promise<MessageData[]> {
+    // chatId = null - сообщения из всех чатов; даты null - без ограничения
+    const query = `
+      SELECT text, created_at FROM messages
+      WHERE user_id = $1
+        AND text <> ''
+        AND ($2::bigint IS NULL OR chat_id = $2)
+        AND ($3::timestamp IS NULL OR created_at >= $3)
+        AND ($4::timestamp IS NULL OR created_at <= $4)
+      ORDER BY created_at DESC
+      LIMIT $5
+    `;
+    const result = await pgPool.query<MessageData>(query, [
+      userId,
+      window.chatId,
+      window.startDate ?? null,
+      window.endDate ?? null,
+      window.limit,
+    ]);
+    return result.rows;
+  }
+
+  /**
+   * Сводка активности по дням недели и часам из message_hourly_stats для промпта
+   * Окно - период анализа, без периода - от самого старого проанализированного сообщения; границы с точностью до дня
+   * (дня в поясе каждого чата - так разложены агрегаты). Ошибка не мешает анализу: промпт просто без сводки
+   */
+  private static async getActivitySummary(
+    userId: number,
+    window: MessageWindow,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+  ): Promise<string[]> {
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    const zone = `COALESCE((SELECT c.settings->>'timezone' FROM chats c WHERE c.chat_id = s.chat_id), $5)`;
+    const query = `
+      SELECT EXTRACT(ISODOW FROM s.day)::int as weekday, s.hour, SUM(s.message_count)::int as count
+      FROM message_hourly_stats s
+      WHERE s.user_id = $1
+        AND ($2::bigint IS NULL OR s.chat_id = $2)
+        AND s.day >= DATE($3::timestamptz AT TIME ZONE ${zone})
+        AND ($4::timestamptz IS NULL OR s.day <= DATE($4::timestamptz AT TIME ZONE ${zone}))
+      GROUP BY 1, 2
+    `;
+    try {
+      const result = await pgPool.query<{ weekday: number; hour: number; count: number }>(query, [
+        userId,
+        window.chatId,
+        window.startDate ?? new Date(Math.min(...timestamps)),
+        window.endDate ?? null,
+        getDefaultTimeZone(),
+      ]);
+      // Строки - дни недели с понедельника (ISODOW 1), столбцы - часы
+      const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+      for (const row of result.rows) {
+        cells[row.weekday - 1][row.hour] = row.count;
+      }
+      return summarizeHeatmap(cells);
+    } catch (error) {
+      console.error('❌ Не удалось посчитать активность по часам:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Окно выборки из опций: last:N ограничивает количество, период - даты
+   * Если задан только период, берём до MAX_MESSAGES последних сообщений из него
+   */
+  private static resolveWindow(options: AnalyzeUserOptions): MessageWindow {
+    const defaultLimit = options.period ? this.MAX_MESSAGES : this.DEFAULT_MESSAGES;
+    return {
+      chatId: options.chatId,
+      limit: Math.min(options.limit || defaultLimit, this.MAX_MESSAGES),
+      startDate: options.period?.startDate,
+      endDate: options.period?.endDate,
+      timeZone: options.timeZone ?? getDefaultTimeZone(),
+    };
+  }
+
+  /**
+   * Описание периода для UserAnalysis.period
+   * Явный период - его название; иначе фактический диапазон дат проанализированных сообщений (в поясе timeZone).
+   * Если выборка из периода упёрлась в limit, анализ покрывает не весь период - тогда тоже фактические даты
+   */
+  static describePeriod(
+    period: ParsedPeriod | undefined,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+    timeZone: string = getDefaultTimeZone(),
+    limit?: number
+  ): string {
+    const truncated = limit !== undefined && rows.length > 0 && rows.length >= limit;
+    if (period && !truncated) {
+      return period.label;
+    }
+    if (rows.length === 0) {
+      return 'все время';
+    }
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    const range = formatDateRange(new Date(Math.min(...timestamps)), new Date(Math.max(...timestamps)), timeZone);
+    return period ? `${range} (последние ${rows.length} из сообщений за ${period.label})` : range;
+  }
+
+  /**
+   * Сжать сообщения до бюджета промпта: если не помещаются - заметки по частям (map)
+   */
+  private static async condenseMessages(
+    messages: string[],
+    displayName: string,
+    provider?: LLMProviderId,
+  ): Promise<CondensedText> {
+    return SummarizationService.condense(messages, {
+      tokenBudget: this.PROMPT_TOKEN_BUDGET,
+      system: this.SYSTEM_PROMPT,
+      provider,
+      mapPrompt: (chunk, index, total) => `Это часть ${index + 1} из ${total} сообщений ${displayName}.
+Кратко (5-7 пунктов) опиши наблюдения по этой части: стиль общения, темы, тональность, частые слова, эмодзи и выражения.
+Приводи характерные примеры, не пересказывай сообщения целиком.
+
+Сообщения:
+${chunk}`,
+      mergePrompt: (notes) => `Объедини заметки о стиле общения ${displayName} в одну короткую сводку (5-7 пунктов), сохрани характерные примеры:
+
+${notes}`,
+    });
+  }
+
+  /**
+   * Создать промпт для анализа пользователя
+   * material - сами сообщения или заметки по частям, если сообщений слишком много
+   */
+  static createAnalysisPrompt(
+    material: CondensedText,
+    username: string | null,
+    firstName: string | null,
+    activity: string[] = [],
+  ): string {
+    const displayName = username ? `@${username}` : firstName || 'Пользователь';
+    const source = material.condensed
+      ? `по заметкам о его сообщениях (сообщения разбиты на ${material.chunks} частей, заметки по каждой части)`
+      : 'по сообщениям';
+    const activitySection = activity.length
+      ? `\n\nАктивность по времени отправки сообщений (посчитано по базе, не по тексту):\n${activity.map((line) => `- ${line}`).join('\n')}`
+      : '';
+    const activityHint = activity.length
+      ? 'когда пользователь активен - своими словами по данным об активности выше'
+      : 'время суток активности, если видно';
+
+    return `Проанализируй стиль общения ${displayName} ${source}:
+
+${material.text}${activitySection}
+
+Ответь строго одним JSON-объектом без markdown и пояснений:
+{
+  "style": "формальный/неформальный, дружелюбный/строгий",
+  "topics": "основные темы через запятую",
+  "activity": "${activityHint}",
+  "tone": "позитивная/нейтральная/негативная",
+  "features": "частые слова, эмодзи, выражения"
+}
+
+Все поля обязательны, значения - короткие строки на русском. Кратко и конкретно.`;
+  }
+
+  /**
+   * Промпт для исправления ответа, не прошедшего валидацию
+   */
+  private static createRepairPrompt(invalidOutput: string, errors: string[]): string {
+    return `Твой предыдущий ответ не соответствует требуемому формату.
+
+Ошибки:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Предыдущий ответ:
+${invalidOutput}
+
+Верни исправленный ответ строго одним JSON-объектом с полями "style", "topics", "activity", "tone", "features" (все - непустые строки на русском), без markdown и пояснений.`;
+  }
+
+  /**
+   * Собрать UserAnalysis из провалидированных полей
+   */
+  private static buildAnalysis(
+    fields: Record<AnalysisField, string>,
+    messageCount: number,
+    averageLength: number,
+    period: string,
+  ): UserAnalysis {
+    return {
+      ...fields,
+      averageLength: `${averageLength} символов`,
+      messageCount,
+      period,
+    };
+  }
+
+  /**
+   * Парсинг ответа LLM по строкам "Стиль: ..." (последний fallback, если JSON не удался)
+   * Возвращает null, если не распознано ни одного поля
+   */
+  static parseAnalysisFields(responseText: string): Record<AnalysisField, string> | null {
+    const lines = responseText.split('\n').map((line) => line.trim()).filter((line) => line);
+    const prefixes: Record<AnalysisField, string> = {
+      style: 'стиль:',
+      topics: 'темы:',
+      activity: 'активность:',
+      tone: 'тональность:',
+      features: 'особенности:',
+    };
+
+    const fields: Record<AnalysisField, string> = {
+      style: 'Не указан',
+      topics: 'Не указаны',
+      activity: 'Не указана',
+      tone: 'Не указана',
+      features: 'Не указаны',
+    };
+    let recognized = 0;
+
+    for (const line of lines) {
+      for (const field of Object.keys(prefixes) as AnalysisField[]) {
+        if (line.toLowerCase().startsWith(prefixes[field])) {
+          fields[field] = line.slice(prefixes[field].length).trim();
+          recognized++;
+          break;
+        }
+      }
+    }
+
+    return recognized > 0 ? fields : null;
+  }
+
+  /**
+   * Анализировать пользователя и сохранить результат в историю
+   */
+  static async analyzeUser(user: UserData, options: AnalyzeUserOptions): Promise<UserAnalysisResult> {
+    const window = this.resolveWindow(options);
+    const rows = await this.getUserMessages(user.id, window);
+    const messages = rows.map((msg) => msg.text);
+    const period = this.describePeriod(options.period, rows, window.timeZone, window.limit);
+
+    if (messages.length === 0) {
+      return {
+        analysis: {
+          style: 'Недостаточно данных',
+          topics: 'Нет сообщений для анализа',
+          averageLength: '0',
+          activity: 'Недостаточно данных',
+          tone: 'Недостаточно данных',
+          features: 'Нет данных',
+          messageCount: 0,
+          period,
+        },
+        provider: null,
+        model: null,
+        outputStatus: null,
+      };
+    }
+
+    // Вычисляем среднюю длину сообщений
+    const totalLength = messages.reduce((sum, msg) => sum + msg.length, 0);
+    const averageLength = Math.round(totalLength / messages.length);
+
+    // Сообщения приходят от новых к старым - для пересказа по частям нужен хронологический порядок
+    const displayName = user.username ? `@${user.username}` : user.first_name || 'Пользователь';
+    const material = await this.condenseMessages([...messages].reverse(), displayName, options.provider);
+    const activity = await this.getActivitySummary(user.id, window, rows);
+    const prompt = this.createAnalysisPrompt(material, user.username, user.first_name, activity);
+
+    console.log(
+      `🤖 Анализ пользователя ${user.telegram_id} (${messages.length} сообщений, чат: ${options.chatId ?? 'все'}, период: ${period})`,
+    );
+    const { fields, provider, model, outputStatus } = await this.requestAnalysis(prompt, options.provider);
+    const analysis = this.buildAnalysis(fields, messages.length, averageLength, period);
+
+    await this.saveAnalysis(user.id, options.chatId, analysis, provider, model, rows);
+
+    return {
+      analysis,
+      provider,
+      model,
+      outputStatus,
+    };
+  }
+
+  /**
+   * История анализов пользователя (новые сначала)
+   */
+  static async getHistory(
+    user: UserData,
+    options?: { chatId?: number; limit?: number },
+  ): Promise<AnalysisData<UserAnalysis>[]> {
+    return Analysis.findByUserId<UserAnalysis>(user.id, options);
+  }
+
+  /**
+   * Сохранить результат в таблицу analyses (ошибка сохранения не ломает сам анализ)
+   */
+  private static async saveAnalysis(
+    userId: number,
+    chatId: number | null,
+    analysis: UserAnalysis,
+    provider: LLMProviderId,
+    model: string,
+    rows: Array<Pick<MessageData, 'created_at'>>,
+  ): Promise<void> {
+    const timestamps = rows.map((row) => new Date(row.created_at).getTime());
+    try {
+      await Analysis.create({
+        user_id: userId,
+        chat_id: chatId,
+        provider,
+        model,
+        message_count: analysis.messageCount,
+        window_start: timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null,
+        window_end: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null,
+        result: analysis,
+      });
+    } catch (error) {
+      console.error('❌ Не удалось сохранить анализ в БД:', error);
+    }
+  }
+
+  /**
+   * Запросить анализ у LLM и провалидировать JSON
+   * Если JSON невалиден - один repair-запрос к тому же провайдеру, затем построчный парсер
+   */
+  private static async requestAnalysis(
+    prompt: string,
+    providerId?: LLMProviderId,
+  ): Promise<{
+    fields: Record<AnalysisField, string>;
+    provider: LLMProviderId;
+    model: string;
+    outputStatus: AnalysisOutputStatus;
+  }> {
+    const system = `${this.SYSTEM_PROMPT} Отвечай только валидным JSON.`;
+    const response = await LLMService.generate({ system, prompt, json: true }, { provider: providerId });
+    const { provider, model } = response;
+
+    const validation = validateJsonOutput(response.text, ANALYSIS_SCHEMA);
+    if (validation.ok) {
+      return { fields: validation.value, provider, model, outputStatus: 'valid' };
+    }
+
+    this.reportInvalidOutput(provider, model, validation.errors, 'первый ответ');
+
+    // Repair: просим того же провайдера исправить ответ
+    try {
+      const repaired = await LLMService.generate(
+        { system, prompt: this.createRepairPrompt(response.text, validation.errors), json: true },
+        { provider },
+      );
+      const repairedValidation = validateJsonOutput(repaired.text, ANALYSIS_SCHEMA);
+      if (repairedValidation.ok) {
+        return { fields: repairedValidation.value, provider, model: repaired.model, outputStatus: 'repaired' };
+      }
+      this.reportInvalidOutput(provider, repaired.model, repairedValidation.errors, 'после repair');
+    } catch (error) {
+      console.error(`❌ Repair-запрос к ${provider} не удался:`, error instanceof Error ? error.message : error);
+    }
+
+    // Последний fallback: построчный парсер по исходному ответу
+    const fields = this.parseAnalysisFields(response.text);
+    if (!fields) {
+      throw new LLMError('INVALID_OUTPUT', `${provider} (${model}) вернул ответ, который не удалось разобрать`, {
+        provider,
+      });
+    }
+
+    return { fields, provider, model, outputStatus: 'fallback' };
+  }
+
+  /**
+   * Залогировать ответ, не прошедший валидацию, с указанием провайдера и модели
+   * Отдельный префикс [INVALID_OUTPUT] позволяет искать в логах, какой провайдер отвечает плохо
+   */
+  private static reportInvalidOutput(
+    provider: LLMProviderId,
+    model: string,
+    errors: string[],
+    stage: string,
+  ): void {
+    console.warn(
+      `⚠️ [INVALID_OUTPUT] provider=${provider} model=${model} (${stage}): ${errors.join('; ')}`,
+    );
+  }
+}
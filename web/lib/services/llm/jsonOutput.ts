@@ -0,0 +1,71 @@
+/**
+ * Разбор и валидация JSON-ответов LLM
+ * Модели часто оборачивают JSON в ```json ... ``` или добавляют текст вокруг,
+ * поэтому сначала вырезаем объект, а потом проверяем его по простой схеме
+ */
+
+// Тип поля схемы: строка или список строк (список склеивается через запятую)
+export type JsonFieldType = 'string' | 'string_or_list';
+
+export type JsonSchema<K extends string> = Record<K, JsonFieldType>;
+
+export type JsonValidationResult<K extends string> =
+  | { ok: true; value: Record<K, string> }
+  | { ok: false; errors: string[] };
+
+/**
+ * Вырезать первый JSON-объект из текста ответа
+ */
+export function extractJsonObject(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('в ответе нет JSON-объекта');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * Проверить ответ LLM по схеме
+ * Все поля схемы обязательны и должны быть непустыми
+ */
+export function validateJsonOutput<K extends string>(text: string, schema: JsonSchema<K>): JsonValidationResult<K> {
+  let parsed: unknown;
+  try {
+    parsed = extractJsonObject(text);
+  } catch (error) {
+    return { ok: false, errors: [`невалидный JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, errors: ['ожидался JSON-объект'] };
+  }
+
+  const source = parsed as Record<string, unknown>;
+  const value = {} as Record<K, string>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(schema) as K[]) {
+    const raw = source[key];
+    if (typeof raw === 'string' && raw.trim()) {
+      value[key] = raw.trim();
+    } else if (
+      schema[key] === 'string_or_list' &&
+      Array.isArray(raw) &&
+      raw.length > 0 &&
+      raw.every((item) => typeof item === 'string' && item.trim())
+    ) {
+      value[key] = raw.map((item: string) => item.trim()).join(', ');
+    } else if (raw === undefined) {
+      errors.push(`отсутствует поле "${key}"`);
+    } else {
+      errors.push(`поле "${key}" должно быть непустой строкой${schema[key] === 'string_or_list' ? ' или списком строк' : ''}`);
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
@@ -0,0 +1,53 @@
+import { getLLMProviderConfigs, getLLMProviderOrder, LLMProviderId } from '../../config/llm';
+import { DeepSeekProvider } from './deepseekProvider';
+import { GeminiProvider } from './geminiProvider';
+import { QwenProvider } from './qwenProvider';
+import { LLMProvider } from './types';
+
+/**
+ * Реестр LLM-провайдеров
+ * Новый провайдер добавляется здесь (registerDefaults) и в config/llm.ts
+ */
+export class LLMRegistry {
+  private static providers = new Map<LLMProviderId, LLMProvider>();
+
+  /**
+   * Зарегистрировать провайдера (заменяет ранее зарегистрированного с тем же id)
+   */
+  static register(provider: LLMProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Удалить всех провайдеров (используется в тестах)
+   */
+  static clear(): void {
+    this.providers.clear();
+  }
+
+  /**
+   * Зарегистрировать встроенных провайдеров по конфигурации из env
+   */
+  private static registerDefaults(): void {
+    const configs = getLLMProviderConfigs();
+    this.register(new DeepSeekProvider(configs.deepseek));
+    this.register(new QwenProvider(configs.qwen));
+    this.register(new GeminiProvider(configs.gemini));
+  }
+
+  static get(id: LLMProviderId): LLMProvider | undefined {
+    if (this.providers.size === 0) {
+      this.registerDefaults();
+    }
+    return this.providers.get(id);
+  }
+
+  /**
+   * Провайдеры в порядке fallback (LLM_PROVIDER_ORDER)
+   */
+  static getOrdered(): LLMProvider[] {
+    return getLLMProviderOrder()
+      .map((id) => this.get(id))
+      .filter((provider): provider is LLMProvider => !!provider);
+  }
+}
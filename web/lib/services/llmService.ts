@@ -0,0 +1,103 @@
+import { LLMProviderId } from '../config/llm';
+import { LLMError, toLLMError } from './llm/errors';
+import { LLMRegistry } from './llm/registry';
+import { LLMProvider, LLMRequest, LLMResponse } from './llm/types';
+
+export interface LLMGenerateOptions {
+  provider?: LLMProviderId; // Использовать только этого провайдера (без fallback)
+}
+
+/**
+ * Единая точка вызова LLM для /analyze, /digest и веб-API
+ * Перебирает провайдеров в порядке LLM_PROVIDER_ORDER, пока один не ответит
+ */
+export class LLMService {
+  private static readonly MAX_RETRIES = 3;
+  private static readonly RETRY_BASE_DELAY = 2000;
+
+  /**
+   * Есть ли хотя бы один настроенный провайдер
+   */
+  static isAvailable(): boolean {
+    return LLMRegistry.getOrdered().some((provider) => provider.isAvailable());
+  }
+
+  /**
+   * Вывести в лог, какие провайдеры настроены (вызывается при старте)
+   */
+  static logAvailability(): void {
+    const providers = LLMRegistry.getOrdered();
+    const summary = providers
+      .map((provider) => `${provider.label}: ${provider.isAvailable() ? '✅' : '—'}`)
+      .join(', ');
+    console.log(`🤖 LLM-провайдеры (в порядке fallback): ${summary}`);
+    if (!providers.some((provider) => provider.isAvailable())) {
+      console.warn('⚠️ Ни один LLM-провайдер не настроен: /analyze и /digest работать не будут');
+    }
+  }
+
+  /**
+   * Retry с экспоненциальной задержкой для обработки Rate Limiting
+   */
+  private static async retryWithBackoff<T>(fn: () => Promise<T>, provider: LLMProviderId): Promise<T> {
+    let lastError: LLMError | null = null;
+
+    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        lastError = toLLMError(error, provider);
+
+        // Повторяем только при Rate Limit
+        if (!lastError.isRetryable || attempt === this.MAX_RETRIES - 1) {
+          throw lastError;
+        }
+
+        // Экспоненциальная задержка с jitter
+        const delay = this.RETRY_BASE_DELAY * Math.pow(2, attempt) + Math.random() * 1000;
+        console.log(
+          `⚠️ Rate Limit (${provider}). Повтор через ${Math.round(delay)}ms (попытка ${attempt + 1}/${this.MAX_RETRIES})...`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    throw lastError || new LLMError('PROVIDER_ERROR', 'Неизвестная ошибка при повторных попытках', { provider });
+  }
+
+  /**
+   * Отправить запрос первому доступному провайдеру с fallback на следующих
+   */
+  static async generate(request: LLMRequest, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    let providers: LLMProvider[];
+    if (options?.provider) {
+      const provider = LLMRegistry.get(options.provider);
+      providers = provider ? [provider] : [];
+    } else {
+      providers = LLMRegistry.getOrdered();
+    }
+
+    const causes: LLMError[] = [];
+
+    for (const provider of providers) {
+      if (!provider.isAvailable()) {
+        console.log(`⏭️ Пропускаю ${provider.label} (не настроен)`);
+        causes.push(new LLMError('NOT_CONFIGURED', `${provider.label} не настроен`, { provider: provider.id }));
+        continue;
+      }
+
+      try {
+        console.log(`🔄 Пробую ${provider.label} API...`);
+        const response = await this.retryWithBackoff(() => provider.generate(request), provider.id);
+        console.log(`✅ ${provider.label} API ответил (модель: ${response.model})`);
+        return response;
+      } catch (error) {
+        const llmError = toLLMError(error, provider.id);
+        console.error(`❌ ${provider.label} API не сработал [${llmError.code}]:`, llmError.message);
+        causes.push(llmError);
+      }
+    }
+
+    throw new LLMError('ALL_FAILED', 'Ни один LLM‑провайдер не смог выполнить запрос', { causes });
+  }
+}
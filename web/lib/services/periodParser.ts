@@ -0,0 +1,157 @@
+/**
+ * Разбор периодов и окон из аргументов команд
+ * Поддерживает: today, yesterday, week, month, YYYY-MM-DD..YYYY-MM-DD и last:N
+ * Используется в /analyze и в веб-API, чтобы синтаксис был одинаковым.
+ * Границы суток - по часовому поясу чата (timeZone), по умолчанию - DEFAULT_TIMEZONE
+ */
+import { getDefaultTimeZone } from '../config/timeZone';
+import { fromZonedTime, getZonedTime, startOfZonedDay } from './timeZone';
+
+// Диапазон дат (endDate включительно)
+export interface DateRange {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Распознанный период
+export interface ParsedPeriod extends DateRange {
+  key: string; // Исходный токен: "week", "2026-09-01..2026-09-30"
+  label: string; // Человекочитаемое описание для вывода "за ..."
+}
+
+// Результат разбора аргументов окна анализа
+export interface WindowArgs {
+  period?: ParsedPeriod;
+  limit?: number; // last:N
+  unknown: string[]; // Нераспознанные токены
+  errors: string[]; // Распознанные, но некорректные токены (например, 2026-13-01)
+}
+
+/**
+ * Конец суток (включительно): за миллисекунду до следующей полуночи - в дни перевода часов сутки длиннее или короче 24 часов
+ */
+function endOfDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedTime(date, timeZone);
+  return new Date(fromZonedTime({ year, month, day: day + 1 }, timeZone).getTime() - 1);
+}
+
+/**
+ * Тот же момент местного времени на days дней и months месяцев раньше (как setDate / setMonth у Date)
+ */
+function shiftBack(date: Date, timeZone: string, { days = 0, months = 0 }: { days?: number; months?: number }): Date {
+  const local = getZonedTime(date, timeZone);
+  return fromZonedTime({ ...local, month: local.month - months, day: local.day - days }, timeZone);
+}
+
+/**
+ * Разобрать дату YYYY-MM-DD (полночь в поясе timeZone), null если дата некорректна
+ */
+export function parseIsoDate(value: string, timeZone: string = getDefaultTimeZone()): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+  // Отсекаем 2026-02-31 и подобные (Date "переносит" их на следующий месяц)
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return fromZonedTime({ year, month, day }, timeZone);
+}
+
+/**
+ * Форматирование даты как DD.MM.YYYY (день в поясе timeZone)
+ */
+export function formatDate(date: Date, timeZone: string = getDefaultTimeZone()): string {
+  return date.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone });
+}
+
+/**
+ * Форматирование диапазона дат: "01.09.2026 — 30.09.2026" (или одна дата, если день один)
+ */
+export function formatDateRange(startDate: Date, endDate: Date, timeZone: string = getDefaultTimeZone()): string {
+  const start = formatDate(startDate, timeZone);
+  const end = formatDate(endDate, timeZone);
+  return start === end ? start : `${start} — ${end}`;
+}
+
+/**
+ * Разобрать период: today, yesterday, week, month или YYYY-MM-DD..YYYY-MM-DD
+ * Возвращает null, если токен не похож на период
+ * Бросает Error, если это диапазон дат, но он некорректен
+ */
+export function parsePeriod(
+  token: string,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone()
+): ParsedPeriod | null {
+  const key = token.trim().toLowerCase();
+
+  switch (key) {
+    case 'today':
+    case 'сегодня':
+      return { key: 'today', label: 'сегодня', startDate: startOfZonedDay(now, timeZone), endDate: now };
+    case 'yesterday':
+    case 'вчера': {
+      const yesterday = new Date(startOfZonedDay(now, timeZone).getTime() - 1);
+      return { key: 'yesterday', label: 'вчера', startDate: startOfZonedDay(yesterday, timeZone), endDate: yesterday };
+    }
+    case 'week':
+    case 'неделя':
+      return { key: 'week', label: 'последние 7 дней', startDate: shiftBack(now, timeZone, { days: 7 }), endDate: now };
+    case 'month':
+    case 'месяц':
+      return { key: 'month', label: 'последний месяц', startDate: shiftBack(now, timeZone, { months: 1 }), endDate: now };
+  }
+
+  const range = key.match(/^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/);
+  if (!range) {
+    return null;
+  }
+
+  const start = parseIsoDate(range[1], timeZone);
+  const end = parseIsoDate(range[2], timeZone);
+  if (!start || !end) {
+    throw new Error(`Некорректная дата в диапазоне ${token}`);
+  }
+  if (start.getTime() > end.getTime()) {
+    throw new Error(`Начало диапазона позже конца: ${token}`);
+  }
+
+  return { key, label: formatDateRange(start, end, timeZone), startDate: start, endDate: endOfDay(end, timeZone) };
+}
+
+/**
+ * Разобрать аргументы окна: период и/или last:N
+ * Пример: ["week", "last:200"]
+ */
+export function parseWindowArgs(tokens: string[], now: Date = new Date(), timeZone: string = getDefaultTimeZone()): WindowArgs {
+  const result: WindowArgs = { unknown: [], errors: [] };
+
+  for (const token of tokens) {
+    const last = token.match(/^last:(\d+)$/i);
+    if (last) {
+      const limit = parseInt(last[1], 10);
+      if (limit > 0) {
+        result.limit = limit;
+      } else {
+        result.errors.push(`Количество сообщений в ${token} должно быть больше нуля`);
+      }
+      continue;
+    }
+
+    try {
+      const period = parsePeriod(token, now, timeZone);
+      if (period) {
+        result.period = period;
+      } else {
+        result.unknown.push(token);
+      }
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return result;
+}
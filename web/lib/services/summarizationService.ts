@@ -0,0 +1,122 @@
+import { LLMProviderId } from '../config/llm';
+import { LLMService } from './llmService';
+
+// Параметры сжатия большого набора сообщений
+export interface CondenseOptions {
+  tokenBudget: number; // Сколько токенов входного текста помещается в один запрос
+  system: string;
+  // Промпт для одной части: что извлечь из куска переписки (map)
+  mapPrompt: (chunk: string, index: number, total: number) => string;
+  // Промпт для объединения заметок, если они сами не помещаются в бюджет (промежуточный reduce)
+  mergePrompt: (notes: string) => string;
+  provider?: LLMProviderId;
+}
+
+// Результат сжатия
+export interface CondensedText {
+  text: string; // Исходные сообщения (если поместились) или заметки по частям
+  condensed: boolean; // true - text содержит заметки, а не сами сообщения
+  chunks: number; // На сколько частей были разбиты сообщения (1 - без разбиения)
+}
+
+/**
+ * Map-reduce суммаризация для наборов сообщений, не помещающихся в один промпт
+ * Сообщения режутся на части по бюджету токенов, каждая часть суммируется отдельно (map),
+ * заметки склеиваются и при необходимости сжимаются ещё раз; финальный промпт (reduce)
+ * строит вызывающий сервис (AnalysisService, DigestService)
+ */
+export class SummarizationService {
+  // Символов на токен: грубая оценка с запасом для кириллицы
+  private static readonly CHARS_PER_TOKEN = 3;
+  // Защита от бесконечного сжатия, если LLM отвечает слишком длинно
+  private static readonly MAX_MERGE_ROUNDS = 3;
+
+  /**
+   * Оценка количества токенов в тексте (без токенизатора конкретной модели)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Разбить строки на части, каждая из которых помещается в бюджет токенов
+   * Порядок сохраняется; слишком длинная строка режется на куски
+   */
+  static chunkByTokens(lines: string[], tokenBudget: number): string[][] {
+    const maxChars = Math.max(1, tokenBudget * this.CHARS_PER_TOKEN);
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let currentLength = 0;
+
+    const push = (line: string) => {
+      // +1 - перевод строки при склейке
+      if (current.length > 0 && currentLength + line.length + 1 > maxChars) {
+        chunks.push(current);
+        current = [];
+        currentLength = 0;
+      }
+      current.push(line);
+      currentLength += line.length + 1;
+    };
+
+    for (const line of lines) {
+      if (line.length <= maxChars) {
+        push(line);
+        continue;
+      }
+      for (let offset = 0; offset < line.length; offset += maxChars) {
+        push(line.slice(offset, offset + maxChars));
+      }
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  /**
+   * Сжать строки до бюджета токенов
+   * Если всё помещается - возвращаются сами строки без вызова LLM
+   */
+  static async condense(lines: string[], options: CondenseOptions): Promise<CondensedText> {
+    const joined = lines.join('\n');
+    if (this.estimateTokens(joined) <= options.tokenBudget) {
+      return { text: joined, condensed: false, chunks: 1 };
+    }
+
+    // Map: каждая часть суммируется независимо
+    const chunks = this.chunkByTokens(lines, options.tokenBudget);
+    console.log(`🧩 Map-reduce: ${lines.length} строк разбиты на ${chunks.length} частей`);
+
+    const notes: string[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      const { text } = await LLMService.generate(
+        { system: options.system, prompt: options.mapPrompt(chunks[index].join('\n'), index, chunks.length) },
+        { provider: options.provider },
+      );
+      notes.push(`Часть ${index + 1}/${chunks.length}:\n${text.trim()}`);
+    }
+
+    // Промежуточный reduce: если заметки всё ещё не помещаются - сжимаем их группами
+    let merged = notes;
+    for (let round = 0; round < this.MAX_MERGE_ROUNDS; round++) {
+      if (this.estimateTokens(merged.join('\n\n')) <= options.tokenBudget) {
+        break;
+      }
+      const groups = this.chunkByTokens(merged, options.tokenBudget);
+      const next: string[] = [];
+      for (const group of groups) {
+        const { text } = await LLMService.generate(
+          { system: options.system, prompt: options.mergePrompt(group.join('\n\n')) },
+          { provider: options.provider },
+        );
+        next.push(text.trim());
+      }
+      console.log(`🧩 Map-reduce: заметки сжаты с ${merged.length} до ${next.length}`);
+      merged = next;
+    }
+
+    return { text: merged.join('\n\n'), condensed: true, chunks: chunks.length };
+  }
+}